@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Native database drivers are loaded from node_modules at runtime, not bundled
+  serverExternalPackages: ["@duckdb/node-api", "sqlite3"],
 };
 
 export default nextConfig;
@@ -0,0 +1,92 @@
+/**
+ * Tambo Lens — Query Audit Log Maintenance
+ *
+ * Verifies the audit log's hash chain, and applies the retention policy:
+ * entries older than AUDIT_RETENTION_DAYS (default 90) are moved into
+ * gzipped NDJSON files in AUDIT_ARCHIVE_DIR (default ./audit-archive)
+ * without breaking the chain. Run `archive` from cron.
+ *
+ * Usage:
+ *   npx tsx scripts/audit-log.ts verify [--archives]
+ *   npx tsx scripts/audit-log.ts archive [--older-than-days 90]
+ *
+ * `verify` exits with 1 when the chain is broken. Needs DATABASE_URL and
+ * ENCRYPTION_KEY, like the app itself.
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { getPool } from "../src/lib/db";
+import { archiveAuditLog, getAuditArchiveDir, verifyAuditChain } from "../src/lib/services/audit-service";
+
+const DEFAULT_RETENTION_DAYS = 90;
+
+function optionValue(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function verify(): Promise<number> {
+  const report = await verifyAuditChain({ includeArchives: process.argv.includes("--archives") });
+
+  console.log(`Checked ${report.checkedEntries} chained entries`);
+  if (report.unchainedEntries > 0) {
+    console.log(`${report.unchainedEntries} entries predate the chain and can't be verified`);
+  }
+  console.log(
+    `${report.archives} archives ${report.archivesVerified ? "read and checked" : "checked at their ends (--archives reads them)"}`
+  );
+  if (report.head) {
+    console.log(`Head: #${report.head.seq} ${report.head.hash} (${report.head.createdAt})`);
+  }
+
+  if (report.valid) {
+    console.log("✅ Audit log chain is intact");
+    return 0;
+  }
+  console.log(`❌ Audit log chain is broken:`);
+  for (const problem of report.problems) console.log(`  - ${problem.message}`);
+  return 1;
+}
+
+async function archive(): Promise<number> {
+  const days = Number(
+    optionValue("--older-than-days") ?? process.env.AUDIT_RETENTION_DAYS ?? DEFAULT_RETENTION_DAYS
+  );
+  if (!Number.isFinite(days) || days < 0) {
+    console.error(`Invalid retention period: ${days} days`);
+    return 1;
+  }
+
+  const before = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const archives = await archiveAuditLog(before);
+  for (const written of archives) {
+    console.log(`Archived ${written.entryCount} entries to ${written.fileName}`);
+  }
+  console.log(
+    archives.length > 0
+      ? `✅ ${archives.length} archives written to ${getAuditArchiveDir()}`
+      : `Nothing older than ${days} days to archive`
+  );
+  return 0;
+}
+
+async function main() {
+  const command = process.argv[2];
+  const commands: Record<string, () => Promise<number>> = { verify, archive };
+  if (!commands[command]) {
+    console.error("Usage: npx tsx scripts/audit-log.ts verify [--archives] | archive [--older-than-days N]");
+    process.exit(1);
+  }
+  try {
+    process.exitCode = await commands[command]();
+  } finally {
+    await getPool().end();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,149 @@
+/**
+ * Tambo Lens — Schema Introspection Benchmark
+ *
+ * Generates a large schema in a scratch PostgreSQL database, introspects it
+ * with the PostgreSQL connector and reports wall time and round trips.
+ * BENCH_LATENCY_MS adds a delay to every query to simulate a remote host.
+ *
+ * Usage:
+ *   BENCH_DATABASE_URL=postgresql://... npx tsx scripts/benchmark-introspection.ts [tables]
+ *
+ * The generated schema ("lens_bench") is dropped again afterwards.
+ * Needs ENCRYPTION_KEY, like the app itself.
+ */
+
+import { config } from "dotenv";
+config({ path: ".env.local" });
+
+import { Client } from "pg";
+import { encrypt } from "../src/lib/encryption";
+import { introspectPostgresSchema } from "../src/lib/connectors/postgres";
+import type { DataSource } from "../src/lib/types";
+
+const BENCH_SCHEMA = "lens_bench";
+const COLUMNS_PER_TABLE = 12;
+const NUMERIC_TYPES = ["integer", "bigint", "numeric(12,2)"];
+const OTHER_TYPES = ["text", "varchar(80)", "timestamptz", "boolean", "date"];
+
+const databaseUrl = process.env.BENCH_DATABASE_URL;
+const tableCount = Number(process.argv[2] ?? 500);
+const latencyMs = Number(process.env.BENCH_LATENCY_MS ?? 0);
+
+/**
+ * Every table gets a serial PK, a FK to the previous table and a spread of
+ * column types; every 10th relation also gets a view and every 25th a
+ * materialized view on top, so all relation kinds are exercised.
+ */
+function generateSchemaSql(count: number): string[] {
+  const statements = [
+    `DROP SCHEMA IF EXISTS ${BENCH_SCHEMA} CASCADE`,
+    `CREATE SCHEMA ${BENCH_SCHEMA}`,
+  ];
+
+  for (let i = 0; i < count; i++) {
+    const columns = ["id SERIAL PRIMARY KEY"];
+    if (i > 0) columns.push(`parent_id INTEGER REFERENCES ${BENCH_SCHEMA}.t${i - 1}(id)`);
+    for (let c = columns.length; c < COLUMNS_PER_TABLE; c++) {
+      const numeric = NUMERIC_TYPES[c % NUMERIC_TYPES.length];
+      const other = OTHER_TYPES[c % OTHER_TYPES.length];
+      columns.push(c % 2 === 0 ? `c${c} ${numeric} NOT NULL DEFAULT 0` : `c${c} ${other}`);
+    }
+    statements.push(`CREATE TABLE ${BENCH_SCHEMA}.t${i} (${columns.join(", ")})`);
+    if (i % 10 === 0) {
+      statements.push(`CREATE VIEW ${BENCH_SCHEMA}.v${i} AS SELECT id, c2 FROM ${BENCH_SCHEMA}.t${i}`);
+    }
+    if (i % 25 === 0) {
+      statements.push(
+        `CREATE MATERIALIZED VIEW ${BENCH_SCHEMA}.m${i} AS SELECT count(*) AS n FROM ${BENCH_SCHEMA}.t${i}`
+      );
+    }
+  }
+  return statements;
+}
+
+/** Client#query with its overloads collapsed, so it can be wrapped generically */
+type QueryMethod = (this: Client, ...args: unknown[]) => Promise<unknown>;
+
+/** Count (and optionally delay) every query the pg driver sends */
+function instrumentQueries(): { count: () => number } {
+  let count = 0;
+  const original = Client.prototype.query as unknown as QueryMethod;
+  const instrumented: QueryMethod = async function (...args) {
+    count++;
+    if (latencyMs > 0) await new Promise((r) => setTimeout(r, latencyMs));
+    return original.apply(this, args);
+  };
+  Client.prototype.query = instrumented as unknown as Client["query"];
+  return { count: () => count };
+}
+
+async function main() {
+  if (!databaseUrl) {
+    console.error("BENCH_DATABASE_URL is not set");
+    process.exit(1);
+  }
+
+  const admin = new Client({ connectionString: databaseUrl });
+  await admin.connect();
+
+  console.log(`Generating ${tableCount} tables in "${BENCH_SCHEMA}"...`);
+  let start = Date.now();
+  const statements = generateSchemaSql(tableCount);
+  // Sent in chunks to keep each query string a reasonable size
+  for (let i = 0; i < statements.length; i += 100) {
+    await admin.query(statements.slice(i, i + 100).join(";\n"));
+  }
+  await admin.query(`ANALYZE`);
+  console.log(`  done in ${Date.now() - start}ms`);
+
+  const url = new URL(databaseUrl);
+  const dataSource: DataSource = {
+    id: "benchmark",
+    name: "benchmark",
+    type: "postgresql",
+    host: url.hostname,
+    port: url.port ? Number(url.port) : 5432,
+    database: url.pathname.replace(/^\//, ""),
+    username: decodeURIComponent(url.username),
+    encryptedPassword: encrypt(decodeURIComponent(url.password)),
+    ssl: false,
+    schemas: [BENCH_SCHEMA],
+    status: "connected",
+    readOnly: true,
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  const queries = instrumentQueries();
+  const before = queries.count();
+  console.log(`Introspecting${latencyMs ? ` with ${latencyMs}ms simulated latency` : ""}...`);
+  start = Date.now();
+  const schema = await introspectPostgresSchema(dataSource, (progress) => {
+    console.log(`  ${progress.tablesDone}/${progress.tablesTotal} relations loaded (+${Date.now() - start}ms)`);
+  });
+  const elapsed = Date.now() - start;
+  const roundTrips = queries.count() - before;
+
+  const columnCount = schema.tables.reduce((sum, t) => sum + t.columns.length, 0);
+  const fkCount = schema.tables.reduce((sum, t) => sum + (t.relationships?.length ?? 0), 0);
+  const expectedRelations = tableCount + Math.ceil(tableCount / 10) + Math.ceil(tableCount / 25);
+
+  console.log(`\nRelations:   ${schema.tables.length} (expected ${expectedRelations})`);
+  console.log(`Columns:     ${columnCount}`);
+  console.log(`Foreign keys: ${fkCount} (expected ${Math.max(tableCount - 1, 0)})`);
+  console.log(`Round trips: ${roundTrips} (per-table introspection: ${3 * schema.tables.length + 1})`);
+  console.log(`Wall time:   ${elapsed}ms`);
+
+  await admin.query(`DROP SCHEMA ${BENCH_SCHEMA} CASCADE`);
+  await admin.end();
+
+  if (schema.tables.length !== expectedRelations || fkCount !== Math.max(tableCount - 1, 0)) {
+    console.error("\nIntrospected schema does not match the generated one");
+    process.exit(1);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -115,6 +115,83 @@ async function phase1() {
   });
   assert(masked.valid === false, "Masked column detected");
 
+  // Masking strategies — redacting strategies let the query through and name
+  // the result columns to redact
+  const strategies = {
+    users: { email: "hash", phone: "partial", ssn: "null", salary: "aggregate_only", pin: "reject" },
+  } as const;
+  const counted = validateQuery("SELECT COUNT(DISTINCT email) AS n FROM users", ["users"], strategies);
+  assert(counted.valid && !counted.resultMasks, "COUNT(DISTINCT masked) allowed without redaction");
+  const hashed = validateQuery(
+    "SELECT email AS contact, phone, count(*) FROM users WHERE ssn IS NOT NULL GROUP BY email, phone",
+    ["users"],
+    strategies
+  );
+  assert(
+    hashed.valid && hashed.resultMasks?.contact === "hash" && hashed.resultMasks?.phone === "partial",
+    "Redacted columns mapped to their result names"
+  );
+  assert(
+    validateQuery("SELECT * FROM users", ["users"], { users: { email: "null" } }).resultMasks?.email === "null",
+    "SELECT * redacts masked columns by name"
+  );
+  assert(
+    !validateQuery("SELECT salary FROM users", ["users"], strategies).valid &&
+      validateQuery("SELECT avg(salary) AS s FROM users", ["users"], strategies).valid,
+    "Aggregate-only column allowed only inside aggregates"
+  );
+  assert(
+    !validateQuery("SELECT sum(salary) OVER (PARTITION BY id) AS s FROM users", ["users"], strategies).valid,
+    "Window SUM over aggregate-only column rejected"
+  );
+  assert(
+    !validateQuery("SELECT count(pin) FROM users", ["users"], strategies).valid,
+    "Reject strategy refuses even aggregates"
+  );
+  assert(
+    !validateQuery("SELECT e FROM (SELECT email AS e FROM users) t", ["users"], strategies).valid,
+    "Redacted column selected in a subquery rejected"
+  );
+  assert(
+    !validateQuery("SELECT lower(email) FROM users", ["users"], strategies).valid,
+    "Unaliased expression over redacted column rejected"
+  );
+  const hashEmail = { users: { email: "hash" } } as const;
+  for (const sql of [
+    "SELECT row_to_json(u) AS j FROM users u",
+    "SELECT to_jsonb(users) AS j FROM users",
+    "SELECT json_agg(t) AS j FROM users t",
+    "SELECT row_to_json(u.*) AS j FROM users u",
+    "SELECT u AS j FROM users u",
+  ]) {
+    assert(!validateQuery(sql, ["users"], hashEmail).valid, `Whole-row value rejected: ${sql}`);
+  }
+  assert(
+    validateQuery("SELECT u.* FROM users u", ["users"], hashEmail).resultMasks?.email === "hash" &&
+      validateQuery("SELECT count(u) AS n FROM users u", ["users"], hashEmail).valid,
+    "Select-list u.* still masks by column, COUNT over whole rows allowed"
+  );
+  assert(
+    validateQuery("SELECT id AS a FROM users UNION SELECT email FROM users", ["users"], strategies)
+      .resultMasks?.a === "hash",
+    "UNION branch redaction uses the first branch's column name"
+  );
+
+  const { applyResultMasks, maskValue } = await import("../src/lib/result-masking");
+  assert(maskValue("john@x.com", "partial") === "j***@x.com", "Partial redaction keeps the e-mail domain");
+  assert(
+    maskValue("a@b.c", "hash") === maskValue("a@b.c", "hash") && maskValue("a@b.c", "hash") !== "a@b.c",
+    "Hashing is deterministic"
+  );
+  const redacted = applyResultMasks(
+    { columns: ["Contact", "n"], rows: [{ Contact: "a@b.c", n: 1 }, { Contact: null, n: 2 }] },
+    { contact: "null" }
+  );
+  assert(
+    redacted.rows[0].Contact === null && redacted.rows[0].n === 1 && redacted.rows[1].Contact === null,
+    "applyResultMasks redacts only masked columns"
+  );
+
   // Schema-qualified table
   const schemaQual = validateQuery(
     'SELECT * FROM public.users',
@@ -122,6 +199,32 @@ async function phase1() {
   );
   assert(schemaQual.valid === true, "Schema-qualified table resolves correctly");
 
+  // Non-default schemas are matched as "schema.table", never by bare name
+  assert(
+    validateQuery("SELECT * FROM sales.orders", ["sales.orders"]).valid === true,
+    "Qualified table in another schema allowed"
+  );
+  assert(
+    validateQuery("SELECT * FROM billing.orders", ["orders", "sales.orders"]).valid === false,
+    "Same-named table in an ungranted schema rejected"
+  );
+  assert(
+    validateQuery("SELECT * FROM orders", ["sales.orders"]).valid === false,
+    "Unqualified name does not match a non-default schema grant"
+  );
+  assert(
+    validateQuery("SELECT card FROM sales.payments", ["sales.payments"], {
+      "sales.payments": ["card"],
+    }).valid === false,
+    "Masked column on schema-qualified table detected"
+  );
+
+  // Quoted identifiers (MySQL backticks / Postgres double quotes) are still checked
+  const backtick = validateQuery("SELECT * FROM `orders`", ["users"]);
+  assert(backtick.valid === false, "Backtick-quoted unauthorized table rejected");
+  const dquoted = validateQuery('SELECT * FROM "orders"', ["users"]);
+  assert(dquoted.valid === false, "Double-quoted unauthorized table rejected");
+
   // JOIN table extraction
   const joinQ = validateQuery(
     "SELECT u.id FROM users u JOIN orders o ON u.id = o.user_id",
@@ -129,6 +232,116 @@ async function phase1() {
   );
   assert(joinQ.valid === true, "JOIN tables extracted correctly");
 
+  // AST-based checks
+  assert(
+    validateQuery("WITH recent AS (SELECT id FROM users) SELECT * FROM recent", ["users"]).valid === true,
+    "CTE name not treated as a table"
+  );
+  assert(
+    validateQuery("WITH users AS (SELECT * FROM secrets) SELECT * FROM users", ["users"]).valid === false,
+    "CTE shadowing a granted table still checks its body"
+  );
+  assert(
+    validateQuery("SELECT * FROM users u, orders o", ["users"]).errors.some((e) => e.includes("orders")),
+    "Comma-joined table checked"
+  );
+  assert(
+    validateQuery("SELECT id FROM users WHERE note = 'DROP; DELETE'", ["users"]).valid === true,
+    "Forbidden word inside a string literal allowed"
+  );
+  assert(
+    validateQuery("SELECT id FROM users WHERE id IN (SELECT user_id FROM orders)", ["users"]).valid === false,
+    "Table in a subquery checked"
+  );
+  assert(
+    validateQuery("SELECT * FROM users", ["users"], { users: ["email"] }).valid === false,
+    "SELECT * over masked columns rejected"
+  );
+  assert(
+    validateQuery("SELECT * INTO copy FROM users", ["users"]).valid === false,
+    "SELECT INTO rejected"
+  );
+  assert(
+    validateQuery("SELECT `id` FROM `users`", ["users"], {}, 1000, "shop", "mysql").valid === true,
+    "MySQL grammar used for MySQL sources"
+  );
+  assert(
+    enforceLimit("SELECT * FROM (SELECT id FROM users LIMIT 5) s").endsWith("LIMIT 1000"),
+    "Subquery LIMIT does not count as the outer LIMIT"
+  );
+
+  // Function & catalog denylist — every bypass must be rejected
+  const pgBypasses: [string, string][] = [
+    ["SELECT pg_sleep(10) FROM users", "pg_sleep"],
+    ["SELECT PG_CATALOG.PG_SLEEP(10)", "schema-qualified upper-case pg_sleep"],
+    ["SELECT pg_read_file('/etc/passwd')", "pg_read_file"],
+    ["SELECT * FROM dblink('host=evil', 'SELECT 1') t", "dblink"],
+    ["SELECT lo_import('/etc/passwd')", "lo_import"],
+    ["SELECT set_config('statement_timeout', '0', false)", "set_config"],
+    ["SELECT current_setting('data_directory')", "current_setting"],
+    ["SELECT query_to_xml('SELECT * FROM secrets', true, true, '')", "query_to_xml"],
+    ["SELECT id FROM users WHERE id IN (SELECT pg_sleep(5))", "pg_sleep in a subquery"],
+    ["WITH s AS (SELECT pg_sleep(5)) SELECT * FROM s", "pg_sleep in a CTE"],
+    ["SELECT usename, passwd FROM pg_shadow", "pg_shadow"],
+    ["SELECT * FROM pg_catalog.pg_authid", "pg_catalog.pg_authid"],
+    ["SELECT table_name FROM information_schema.tables", "information_schema"],
+  ];
+  // The rule itself must fire — a parse failure would hide a gap in the denylist
+  const deniedByRule = (v: { errors: string[] }) =>
+    v.errors.some((e) => e.startsWith("Function not allowed") || e.startsWith("Access to system catalog"));
+  for (const [sql, name] of pgBypasses) {
+    assert(deniedByRule(validateQuery(sql, ["users", "pg_shadow"])), `PostgreSQL ${name} rejected`);
+  }
+  assert(
+    validateQuery("SELECT date_trunc('month', created_at), now(), count(*) FROM users", ["users"]).valid === true,
+    "Ordinary functions still allowed"
+  );
+  const dialectBypasses: [string, "mysql" | "sqlite" | "duckdb", string][] = [
+    ["SELECT SLEEP(10)", "mysql", "SLEEP"],
+    ["SELECT LOAD_FILE('/etc/passwd')", "mysql", "LOAD_FILE"],
+    ["SELECT user, authentication_string FROM mysql.user", "mysql", "mysql.user"],
+    ["SELECT * FROM information_schema.columns", "mysql", "information_schema"],
+    ["SELECT load_extension('evil.so')", "sqlite", "load_extension"],
+    ["SELECT sql FROM sqlite_master", "sqlite", "sqlite_master"],
+    ["SELECT * FROM read_csv('/etc/passwd')", "duckdb", "read_csv"],
+    ["SELECT getenv('HOME')", "duckdb", "getenv"],
+    ["SELECT * FROM duckdb_settings()", "duckdb", "duckdb_settings"],
+  ];
+  for (const [sql, type, name] of dialectBypasses) {
+    assert(
+      deniedByRule(validateQuery(sql, ["users"], {}, 1000, type === "mysql" ? "shop" : "main", type)),
+      `${type} ${name} rejected`
+    );
+  }
+  const executableComments = [
+    "SELECT id /*! , SLEEP(20) */ FROM orders LIMIT 5",
+    "SELECT id /*!, (SELECT authentication_string FROM mysql.user LIMIT 1) */ FROM orders LIMIT 5",
+    "SELECT /*+ MAX_EXECUTION_TIME(1) */ id FROM orders LIMIT 5",
+  ];
+  assert(
+    executableComments.every((sql) =>
+      validateQuery(sql, ["orders"], {}, 1000, "shop", "mysql").errors.some((e) => e.includes("executable comments"))
+    ),
+    "MySQL executable comments and optimizer hints rejected"
+  );
+  assert(
+    validateQuery("SELECT id, '/*! not a comment */' AS note /* plain */ FROM orders LIMIT 5", ["orders"], {}, 1000, "shop", "mysql")
+      .valid === true &&
+      validateQuery("SELECT id /*! , SLEEP(20) */ FROM orders LIMIT 5", ["orders"]).errors.every(
+        (e) => !e.includes("executable comments")
+      ),
+    "Executable comments: literals, plain comments and other dialects unaffected"
+  );
+  assert(
+    validateQuery("SELECT upper(name) FROM users", ["users"], {}, 1000, "public", "postgresql", {
+      deniedFunctions: [],
+      allowedFunctions: ["count"],
+      deniedSchemas: [],
+      deniedTables: [],
+    }).errors.some((e) => e.includes("upper")),
+    "Function allowlist rejects unlisted functions"
+  );
+
   // enforceLimit — adds LIMIT when missing
   const limited = enforceLimit("SELECT * FROM users");
   assert(limited.includes("LIMIT"), "LIMIT added");
@@ -137,6 +350,519 @@ async function phase1() {
   // enforceLimit — preserves existing LIMIT
   const existing = enforceLimit("SELECT * FROM users LIMIT 50");
   assert(existing === "SELECT * FROM users LIMIT 50", "Existing LIMIT preserved");
+  const clamped = enforceLimit("SELECT * FROM users LIMIT 5000 OFFSET 20", 100);
+  assert(
+    clamped.endsWith("LIMIT 100 OFFSET 20") && !clamped.includes("lens_capped"),
+    "LIMIT above the cap is clamped, not trusted"
+  );
+  assert(
+    enforceLimit("SELECT * FROM users OFFSET 20", 100).endsWith("LIMIT 100 OFFSET 20"),
+    "A bare OFFSET does not count as a LIMIT"
+  );
+  const reprinted = enforceLimit(
+    `SELECT total AS "Total", total AS Net, a IS DISTINCT FROM b AS d, "U".id FROM users "U" WHERE c IS DISTINCT FROM 'x' LIMIT 5000`,
+    100
+  );
+  assert(
+    reprinted.includes('AS "Total"') &&
+      reprinted.includes('AS "net"') &&
+      reprinted.includes('"U".id') &&
+      reprinted.includes('AS "U"') &&
+      reprinted.includes("a IS DISTINCT FROM b AS") &&
+      reprinted.includes("c IS DISTINCT FROM 'x'"),
+    "Clamping keeps quoted identifiers as written and folds only unquoted ones"
+  );
+  assert(
+    validateQuery("SELECT id FROM users WHERE id IS DISTINCT FROM ssn", ["users"], { users: ["ssn"] }).valid === false,
+    "IS DISTINCT FROM operand is checked as a column"
+  );
+  assert(
+    enforceLimit("SELECT * FROM users LIMIT $1", 100).endsWith(") AS lens_capped LIMIT 100"),
+    "Parameterized LIMIT is wrapped"
+  );
+  assert(
+    enforceLimit("SELECT id FROM users -- newest first", 10) === "SELECT id FROM users -- newest first\nLIMIT 10",
+    "Trailing comment cannot swallow the appended LIMIT"
+  );
+  assert(
+    enforceLimit("SELECT u.id, o.id FROM users u JOIN orders o ON o.user_id = u.id", 10, "mysql") ===
+      "SELECT u.id, o.id FROM users u JOIN orders o ON o.user_id = u.id\nLIMIT 10" &&
+      !enforceLimit("SELECT u.id, o.id FROM users u JOIN orders o ON o.user_id = u.id LIMIT 50", 10, "mysql")
+        .includes("lens_capped"),
+    "Duplicate column names are not wrapped in a derived table"
+  );
+
+  // effectiveRowLimit — lowest row limit of the tables a query reads
+  const { effectiveRowLimit } = await import("../src/lib/query-guardrails");
+  const rowLimits = { users: 500, orders: 50, events: 5 };
+  assert(
+    effectiveRowLimit("SELECT * FROM users u JOIN (SELECT * FROM orders) o ON o.user_id = u.id", rowLimits) === 50,
+    "Row limit is the minimum across referenced tables"
+  );
+  assert(effectiveRowLimit("SELECT 1", rowLimits) === 1000, "Query on no limited table gets the default");
+
+  // validatePipeline — MongoDB aggregation guardrails
+  const { validatePipeline, enforcePipelineLimit } = await import(
+    "../src/lib/query-guardrails"
+  );
+  const okPipeline = validatePipeline(
+    "orders",
+    [{ $match: { status: "paid" } }, { $group: { _id: "$region", total: { $sum: "$amount" } } }],
+    ["orders"]
+  );
+  assert(okPipeline.valid === true, "Read-only pipeline passes");
+  assert(
+    !validatePipeline("orders", [{ $match: {} }, { $out: "copy" }], ["orders"]).valid,
+    "$out stage rejected"
+  );
+  assert(
+    !validatePipeline("orders", [{ $merge: { into: "copy" } }], ["orders"]).valid,
+    "$merge stage rejected"
+  );
+  assert(
+    !validatePipeline("orders", [{ $match: { $where: "this.a > 1" } }], ["orders"]).valid,
+    "$where server-side JS rejected"
+  );
+  assert(
+    !validatePipeline(
+      "orders",
+      [{ $project: { x: { $function: { body: "function() {}", args: [], lang: "js" } } } }],
+      ["orders"]
+    ).valid,
+    "$function server-side JS rejected"
+  );
+  assert(
+    !validatePipeline(
+      "orders",
+      [{ $lookup: { from: "users", localField: "uid", foreignField: "_id", as: "u" } }],
+      ["orders"]
+    ).valid,
+    "$lookup into unauthorized collection rejected"
+  );
+  assert(
+    !validatePipeline("users", [{ $project: { email: 1 } }], ["users"], { users: ["email"] }).valid,
+    "Masked field in pipeline rejected"
+  );
+  assert(
+    !validatePipeline(
+      "users",
+      [{ $lookup: { from: "users", localField: "_id", foreignField: "_id", as: "self" } }],
+      ["users"],
+      { users: ["email"] }
+    ).valid,
+    "$lookup back into a collection with masked fields rejected"
+  );
+  const maskedPipeline = enforcePipelineLimit([{ $project: { doc: "$$ROOT" } }], 10, ["email"]);
+  assert(
+    JSON.stringify(maskedPipeline[0]) === '{"$unset":["email"]}',
+    "Masked fields stripped before the first user stage"
+  );
+  const geoPipeline = enforcePipelineLimit(
+    [{ $geoNear: { near: [0, 0] } }, { $replaceRoot: { newRoot: "$$ROOT" } }],
+    10,
+    ["email"]
+  );
+  assert("$unset" in geoPipeline[1], "Masked fields stripped right after a first-only stage");
+  const limitedPipeline = enforcePipelineLimit([{ $match: {} }]);
+  assert(
+    JSON.stringify(limitedPipeline[limitedPipeline.length - 1]) === '{"$limit":1000}',
+    "$limit appended to pipeline"
+  );
+
+  // Cost gate — plan estimates against a source's budget
+  const { checkQueryCost, DEFAULT_COST_BUDGET } = await import("../src/lib/query-guardrails");
+  const cheapPlan = { totalCost: 120, maxRows: 1000, seqScans: [{ table: "users", rows: 5000 }] };
+  assert(checkQueryCost(cheapPlan).valid, "Cheap plan within default budget");
+  const crossJoinPlan = {
+    totalCost: 4e9,
+    maxRows: 2.5e11,
+    seqScans: [{ table: "orders", rows: 5e5 }, { table: "events", rows: 2e7 }],
+  };
+  const rejected = checkQueryCost(crossJoinPlan);
+  assert(!rejected.valid && rejected.errors.length === 3, "Cross join plan rejected on cost, rows and scan");
+  assert(
+    rejected.errors.some((e) => e.includes('"events"')) &&
+      !rejected.errors.some((e) => e.includes('"orders"')),
+    "Only scans over the budget are reported"
+  );
+  const warned = checkQueryCost(crossJoinPlan, { ...DEFAULT_COST_BUDGET, onExceed: "warn" });
+  assert(warned.valid && warned.warnings.length === 3, "onExceed warn downgrades to warnings");
+
+  // Row-level security — filtered tables are read through a filtered subquery
+  const { applyRowFilters, validateRowFilter } = await import("../src/lib/query-guardrails");
+  const rlsFilters = { orders: "region = :region" };
+  const rlsSql = applyRowFilters(
+    "SELECT o.id FROM orders o JOIN users u ON u.id = o.user_id",
+    rlsFilters,
+    { region: "O'Hare" }
+  );
+  assert(
+    rlsSql.includes("(SELECT * FROM \"orders\" AS \"orders\" WHERE region = 'O''Hare') AS \"o\""),
+    "Row filter wraps the filtered table under its alias, with the value escaped"
+  );
+  assert(
+    applyRowFilters("SELECT id FROM users", rlsFilters, {}) === "SELECT id FROM users",
+    "Queries on unfiltered tables are left untouched"
+  );
+  let unbound = "";
+  try {
+    applyRowFilters("SELECT id FROM (SELECT * FROM orders) x", rlsFilters, {});
+  } catch (err) {
+    unbound = (err as Error).message;
+  }
+  assert(unbound.includes(":region"), "Row filter without a value for its placeholder fails closed");
+  assert(validateRowFilter("tenant_id = :userTenant", "postgresql") === null, "Placeholder row filter accepted");
+  assert(validateRowFilter("1 = 1; DROP TABLE orders", "postgresql") !== null, "Multi-statement row filter rejected");
+
+  // Minimum group size — aggregates only, groups under k suppressed
+  const { enforceMinGroupSize, GROUP_SIZE_COLUMN } = await import("../src/lib/query-guardrails");
+  const { suppressSmallGroups } = await import("../src/lib/result-masking");
+  const kSizes = { customers: 5 };
+  const grouped = enforceMinGroupSize("SELECT zip, AVG(age) AS age FROM customers GROUP BY zip", kSizes);
+  assert(
+    grouped.minGroupSize === 5 && grouped.sql.includes(`COUNT(*) AS "${GROUP_SIZE_COLUMN}"`),
+    "Group size column added for k-protected table"
+  );
+  let rawError = "";
+  try {
+    enforceMinGroupSize("SELECT zip, age FROM customers", kSizes);
+  } catch (err) {
+    rawError = (err as Error).message;
+  }
+  assert(rawError.includes("only allows aggregate queries"), "Row-level query on k-protected table rejected");
+  const kNumeric = { customers: ["age", "balance"] };
+  const listingAggregates = [
+    "SELECT zip, array_agg(email) AS emails FROM customers GROUP BY zip",
+    "SELECT zip, string_agg(email, ',') AS emails FROM customers GROUP BY zip",
+    "SELECT zip, json_agg(email) AS emails FROM customers GROUP BY zip",
+    "SELECT zip, min(email) AS first_email FROM customers GROUP BY zip",
+    "SELECT max(signup_date) AS latest FROM customers",
+  ];
+  for (const sql of listingAggregates) {
+    let listingError = "";
+    try {
+      enforceMinGroupSize(sql, kSizes, "postgresql", "public", [], kNumeric);
+    } catch (err) {
+      listingError = (err as Error).message;
+    }
+    assert(listingError.includes("only allows aggregate queries"), `Value-returning aggregate rejected: ${sql}`);
+  }
+  let groupConcatError = "";
+  try {
+    enforceMinGroupSize("SELECT zip, GROUP_CONCAT(email) FROM customers GROUP BY zip", kSizes, "mysql", "shop", [], kNumeric);
+  } catch (err) {
+    groupConcatError = (err as Error).message;
+  }
+  assert(groupConcatError.includes("only allows aggregate queries"), "GROUP_CONCAT on k-protected table rejected");
+  assert(
+    enforceMinGroupSize(
+      "SELECT zip AS z, min(age) AS youngest, max(balance) AS top, sum(balance) AS total FROM customers GROUP BY 1",
+      kSizes,
+      "postgresql",
+      "public",
+      [],
+      kNumeric
+    ).minGroupSize === 5,
+    "COUNT, numeric folds and MIN / MAX of numeric columns allowed on k-protected table"
+  );
+  const fanOuts = [
+    "SELECT email FROM customers, generate_series(1, 10) g GROUP BY email",
+    "SELECT zip, COUNT(*) FROM customers CROSS JOIN generate_series(1, 100) GROUP BY zip",
+    "SELECT c.email FROM customers c JOIN orders o ON o.customer_id = c.id GROUP BY c.email",
+    "SELECT email FROM (SELECT c.* FROM customers c, customers d) x GROUP BY email",
+    "WITH c AS (SELECT * FROM customers) SELECT email FROM c GROUP BY email",
+  ];
+  for (const sql of fanOuts) {
+    let fanOutError = "";
+    try {
+      enforceMinGroupSize(sql, kSizes);
+    } catch (err) {
+      fanOutError = (err as Error).message;
+    }
+    assert(fanOutError.includes("must be read once"), `Rows repeated before grouping rejected: ${sql}`);
+  }
+  const filteredGroups = enforceMinGroupSize(
+    applyRowFilters("SELECT zip, COUNT(*) AS n FROM customers GROUP BY zip", { customers: "region = 'EU'" }, {}),
+    kSizes
+  );
+  assert(filteredGroups.minGroupSize === 5, "Row-filtered k-protected table can still be grouped");
+  const crossJoined = applyRowFilters("SELECT id FROM orders CROSS JOIN regions", rlsFilters, { region: "EU" });
+  assert(
+    crossJoined.includes(" CROSS JOIN ") && !crossJoined.includes("INNER JOIN") && !/"cross"/i.test(crossJoined),
+    "CROSS JOIN survives a rewrite"
+  );
+  const { result: kResult, suppressed } = suppressSmallGroups(
+    {
+      columns: ["zip", GROUP_SIZE_COLUMN],
+      rows: [{ zip: "10115", [GROUP_SIZE_COLUMN]: "12" }, { zip: "99999", [GROUP_SIZE_COLUMN]: "2" }],
+      rowCount: 2,
+    },
+    5
+  );
+  assert(
+    suppressed === 1 && kResult.rows.length === 1 && !kResult.columns.includes(GROUP_SIZE_COLUMN),
+    "Small groups and the group size column are removed"
+  );
+
+  // Query result cache — keys, normalization, invalidation
+  const { normalizeSql, queryCacheKey, getCachedResult, setCachedResult, invalidateQueryCache } =
+    await import("../src/lib/query-cache");
+  assert(
+    normalizeSql("SELECT  id\n  FROM users ;") === "SELECT id FROM users",
+    "Whitespace and trailing semicolon normalized"
+  );
+  assert(
+    normalizeSql("SELECT 'a  b'") !== normalizeSql("SELECT 'a b'"),
+    "Whitespace inside string literals is kept"
+  );
+  assert(
+    normalizeSql("SELECT id -- note\n, email FROM customers") !==
+      normalizeSql("SELECT id -- note , email FROM customers") &&
+      normalizeSql("SELECT id # note\n, email FROM customers", "mysql") !==
+        normalizeSql("SELECT id # note , email FROM customers", "mysql") &&
+      normalizeSql("SELECT id /* a  b */ FROM  customers") === "SELECT id /* a  b */ FROM customers",
+    "Comments are kept verbatim — a newline ending a comment is not collapsed"
+  );
+  const cacheParts = { dataSourceId: "ds-1", sql: "SELECT 1", permissions: "p1", user: { userId: "u1" } };
+  assert(
+    queryCacheKey(cacheParts) !== queryCacheKey({ ...cacheParts, permissions: "p2" }) &&
+      queryCacheKey(cacheParts) !== queryCacheKey({ ...cacheParts, user: { userId: "u2" } }),
+    "Cache key changes with permissions and user"
+  );
+  const cacheKey = queryCacheKey(cacheParts);
+  const cachedResult = {
+    columns: ["x"],
+    columnTypes: [{ name: "x", type: "integer" as const }],
+    rows: [{ x: 1 }],
+    rowCount: 1,
+    executionTimeMs: 3,
+    truncated: false,
+  };
+  setCachedResult(cacheKey, { dataSourceId: "ds-1", result: cachedResult, queryText: "SELECT 1" }, 60);
+  assert(getCachedResult(cacheKey)?.result.rowCount === 1, "Cached result returned within TTL");
+  invalidateQueryCache("ds-1");
+  assert(getCachedResult(cacheKey) === null, "Invalidation drops the source's results");
+
+  // Query quotas — per source and per user, checked and counted together
+  const { acquireQuota } = await import("../src/lib/query-quotas");
+  const quotaSource = {
+    id: "ds-quota",
+    queryQuota: { queriesPerMinute: 2 },
+    userQueryQuota: { maxConcurrent: 1, rowsPerHour: 100 },
+  };
+  const first = acquireQuota(quotaSource, "u1");
+  const concurrent = acquireQuota(quotaSource, "u1");
+  assert("ticket" in first && "error" in concurrent, "User quota: second concurrent query rejected");
+  if ("ticket" in first) {
+    first.ticket.addRows(150);
+    first.ticket.release();
+  }
+  const overRows = acquireQuota(quotaSource, "u1");
+  assert(
+    "error" in overRows && overRows.error.includes("rows read") && overRows.retryAfterSeconds > 0,
+    "User quota: rows per hour rejected with a retry time"
+  );
+  const otherUser = acquireQuota(quotaSource, "u2");
+  const overSource = acquireQuota(quotaSource, "u3");
+  assert(
+    "ticket" in otherUser && "error" in overSource && overSource.error.includes("in the last minute"),
+    "Source quota: queries per minute counted across users"
+  );
+
+  // Audit log CSV — quoting and spreadsheet formula escaping
+  const { auditLogToCsv } = await import("../src/lib/services/audit-service");
+  const csv = auditLogToCsv([
+    {
+      id: "a1", dataSourceId: "ds-1", dataSourceName: "Sales", userId: null, userEmail: null,
+      threadId: null, feature: "chat", queryText: 'SELECT "x", 1', queryParams: null,
+      executionTimeMs: 4, rowCount: 1, status: "success", errorMessage: "=HYPERLINK()",
+      cacheStatus: "miss", createdAt: "2026-01-01T00:00:00Z",
+    },
+  ]);
+  assert(
+    csv.includes('"SELECT ""x"", 1"') && csv.includes("'=HYPERLINK()") && csv.split("\r\n").length === 3,
+    "auditLogToCsv: quotes fields and escapes formulas"
+  );
+
+  // Audit log hash chain — edits and deletions break it
+  const { AUDIT_GENESIS_HASH, canonicalJson, hashAuditEntry, startChainWalk, walkChain, finishChainWalk } =
+    await import("../src/lib/audit-chain");
+  assert(
+    canonicalJson({ b: 1, a: [{ d: null, c: "x" }] }) === canonicalJson({ a: [{ c: "x", d: null }], b: 1 }),
+    "canonicalJson: key order doesn't matter"
+  );
+  const chain: import("../src/lib/audit-chain").ChainedAuditRow[] = [];
+  for (let seq = 1; seq <= 4; seq++) {
+    const fields = {
+      id: `e${seq}`, dataSourceId: "ds-1", userId: null, threadId: null, feature: "chat",
+      queryText: `SELECT ${seq}`, queryParams: [seq], executionTimeMs: 3, rowCount: 1,
+      status: "success", errorMessage: null, cacheStatus: "miss", createdAt: new Date(Date.UTC(2026, 0, seq)),
+    };
+    const prevHash = chain[chain.length - 1]?.entryHash ?? AUDIT_GENESIS_HASH;
+    chain.push({ ...fields, seq, prevHash, entryHash: hashAuditEntry(prevHash, fields) });
+  }
+  const intact = startChainWalk();
+  walkChain(intact, chain);
+  assert(intact.problems.length === 0 && intact.checked === 4, "walkChain: intact chain verifies");
+  const edited = startChainWalk();
+  walkChain(edited, chain.map((row) => (row.seq === 2 ? { ...row, rowCount: 0 } : row)));
+  assert(
+    edited.problems.length === 1 && edited.problems[0].kind === "modified" && edited.problems[0].seq === 2,
+    "walkChain: an edited entry is reported as modified"
+  );
+  const deleted = startChainWalk();
+  walkChain(deleted, chain.filter((row) => row.seq !== 3));
+  assert(
+    deleted.problems.length === 1 && deleted.problems[0].kind === "broken_link" && deleted.problems[0].seq === 4,
+    "walkChain: a deleted entry breaks the next link"
+  );
+  const forged = startChainWalk();
+  walkChain(forged, [...chain, { ...chain[0], seq: 5, id: "e5", prevHash: null, entryHash: null }]);
+  assert(
+    forged.problems.length === 1 && forged.problems[0].kind === "unhashed",
+    "walkChain: unhashed entries after the chain starts are forged"
+  );
+  const recordedHead = { seq: 4, hash: chain[3].entryHash! };
+  const throughHead = startChainWalk(recordedHead);
+  walkChain(throughHead, chain);
+  finishChainWalk(throughHead);
+  const truncated = startChainWalk(recordedHead);
+  walkChain(truncated, chain.slice(0, 2));
+  finishChainWalk(truncated);
+  assert(
+    throughHead.problems.length === 0 &&
+      truncated.problems.length === 1 &&
+      truncated.problems[0].kind === "truncated" &&
+      truncated.problems[0].seq === 4,
+    "finishChainWalk: deleting the newest entries falls short of the recorded head"
+  );
+  const { isAuditAdmin } = await import("../src/lib/services/audit-service");
+  process.env.AUDIT_ADMIN_EMAILS = "ops@example.com, Audit@Example.com";
+  assert(
+    isAuditAdmin("audit@example.com") && !isAuditAdmin("owner@example.com"),
+    "isAuditAdmin: only AUDIT_ADMIN_EMAILS accounts verify the whole chain"
+  );
+  delete process.env.AUDIT_ADMIN_EMAILS;
+
+  // Saved query parameters — :name placeholders become driver parameters
+  const { checkSavedQuery, bindSavedQuery } = await import("../src/lib/query-parameters");
+  const savedSql =
+    "SELECT region, created_at::date FROM orders WHERE region = :region AND note <> ':skip' -- :comment\n AND total > :minTotal OR region = :region";
+  const savedParams = [
+    { name: "region", type: "string" as const },
+    { name: "minTotal", type: "number" as const, default: 0 },
+  ];
+  assert(checkSavedQuery(savedSql, savedParams, "postgresql") === null, "checkSavedQuery: placeholders match parameters");
+  assert(
+    checkSavedQuery(savedSql, [savedParams[0]], "postgresql")?.includes(":minTotal") === true &&
+      checkSavedQuery("SELECT * FROM t WHERE a = $1", [], "postgresql") !== null,
+    "checkSavedQuery: undeclared and positional parameters are refused"
+  );
+  const boundPg = bindSavedQuery(savedSql, savedParams, { region: "EU", minTotal: "10" }, "postgresql");
+  assert(
+    "sql" in boundPg &&
+      boundPg.sql.includes("region = $1 AND note <> ':skip' -- :comment") &&
+      boundPg.sql.includes("total > $2 OR region = $1") &&
+      JSON.stringify(boundPg.params) === '["EU",10]',
+    "bindSavedQuery: numbered parameters on PostgreSQL, literals and comments untouched"
+  );
+  const boundMy = bindSavedQuery(savedSql, savedParams, { region: "EU" }, "mysql");
+  assert(
+    "sql" in boundMy && JSON.stringify(boundMy.params) === '["EU",0,"EU"]',
+    "bindSavedQuery: one ? per use on MySQL, defaults fill in"
+  );
+  const badBind = bindSavedQuery(savedSql, savedParams, { region: "EU", minTotal: "lots" }, "postgresql");
+  const missingBind = bindSavedQuery(savedSql, savedParams, {}, "postgresql");
+  assert(
+    "error" in badBind && "error" in missingBind && missingBind.error.includes(":region"),
+    "bindSavedQuery: wrong types and missing values are errors"
+  );
+
+  // Result serialization — column types and the value contract
+  const { describeColumn, serializeValue, serializeResult } = await import("../src/lib/result-serialization");
+  const amount = describeColumn("amount", "numeric(12,2)");
+  assert(
+    amount.type === "decimal" && amount.precision === 12 && amount.scale === 2,
+    "describeColumn: numeric precision and scale"
+  );
+  assert(describeColumn("at", "timestamptz").timezone === "UTC", "describeColumn: timestamptz is UTC");
+  assert(
+    serializeValue("1234.50", amount) === 1234.5 &&
+      serializeValue("12345678901234567.89", amount) === "12345678901234567.89",
+    "serializeValue: decimals become numbers unless digits would be lost"
+  );
+  assert(
+    serializeValue("9007199254740993", describeColumn("id", "int8")) === "9007199254740993" &&
+      serializeValue("-$1,234.50", describeColumn("price", "money")) === -1234.5,
+    "serializeValue: unsafe bigints stay strings, money parses"
+  );
+  const serialized = serializeResult(
+    { columns: ["n", "email"], rows: [{ n: null, email: "a@x.com" }] },
+    { email: "partial" }
+  );
+  assert(
+    serialized.rows[0].n === null && serialized.columnTypes[1].type === "text",
+    "serializeResult: NULL stays null, masked columns are text"
+  );
+
+  // Query provenance — the tool calls behind a chat component
+  const joined = validateQuery(
+    "WITH recent AS (SELECT * FROM orders) SELECT * FROM recent JOIN users ON users.id = recent.user_id LIMIT 5",
+    ["orders", "users"]
+  );
+  assert(
+    JSON.stringify([...(joined.tables ?? [])].sort()) === '["orders","users"]',
+    "validateQuery: reports the tables read, not CTE names"
+  );
+  const { collectQueryRuns } = await import("../src/lib/query-provenance");
+  const toolCall = (id: string, toolName: string, sql: string) => ({
+    role: "assistant",
+    tool_call_id: id,
+    toolCallRequest: {
+      toolName,
+      parameters: [
+        { parameterName: "dataSourceId", parameterValue: "ds" },
+        { parameterName: "query", parameterValue: sql },
+      ],
+    },
+  });
+  const toolResult = (id: string, output: unknown) => ({
+    role: "tool",
+    tool_call_id: id,
+    content: [{ type: "text", text: JSON.stringify(output) }],
+  });
+  const provenanceThread = [
+    { role: "user", content: [{ type: "text", text: "Orders by region" }] },
+    toolCall("a", "list_tables", ""),
+    toolResult("a", { tables: [] }),
+    toolCall("b", "run_select_query", "SELECT region FROM orders"),
+    toolResult("b", {
+      rowCount: 3,
+      executionTimeMs: 12,
+      queryText: "SELECT * FROM (SELECT region FROM orders) AS q LIMIT 1001",
+      tables: ["orders"],
+      warnings: ["capped"],
+    }),
+    { role: "assistant", component: { componentName: "BarChart" } },
+    toolCall("c", "run_select_query", "SELECT 1 FROM users"),
+    toolResult("c", { rowCount: 1, executionTimeMs: 2 }),
+    { role: "assistant", component: { componentName: "KPICard" } },
+  ];
+  const [chartRun, ...extra] = collectQueryRuns(provenanceThread, 5);
+  assert(
+    extra.length === 0 &&
+      chartRun.sql?.endsWith("LIMIT 1001") === true &&
+      chartRun.executed &&
+      chartRun.tables[0] === "orders" &&
+      chartRun.rowCount === 3 &&
+      chartRun.warnings[0] === "capped",
+    "collectQueryRuns: the query calls before a component, with the executed SQL"
+  );
+  const kpiRuns = collectQueryRuns(provenanceThread, 8);
+  assert(
+    kpiRuns.length === 1 && kpiRuns[0].sql === "SELECT 1 FROM users" && !kpiRuns[0].executed,
+    "collectQueryRuns: stops at the previous component, falls back to the SQL as written"
+  );
 
   // ── 1.3 schemas.ts ──────────────────────────────────────────────────────────
   section("1.3 schemas.ts (Zod validation)");
@@ -151,6 +877,7 @@ async function phase1() {
     summaryCardPropsSchema,
     metricGridPropsSchema,
     updatePermissionsSchema,
+    auditLogQuerySchema,
   } = await import("../src/lib/schemas");
 
   // createDataSourceSchema — valid (individual fields)
@@ -177,6 +904,51 @@ async function phase1() {
   const dsInvalid = createDataSourceSchema.safeParse({ name: "X", type: "postgresql" });
   assert(!dsInvalid.success, "createDataSourceSchema: incomplete input rejected");
 
+  // createDataSourceSchema — file-backed sources only need a path
+  assert(
+    createDataSourceSchema.safeParse({ name: "Extract", type: "sqlite", database: "sales.db" }).success,
+    "createDataSourceSchema: sqlite file path passes"
+  );
+  assert(
+    !createDataSourceSchema.safeParse({ name: "Extract", type: "duckdb" }).success,
+    "createDataSourceSchema: duckdb without path rejected"
+  );
+
+  // local-files.ts — database files are confined to the data directory
+  const { resolveDataFile, parseFileConnectionString, uploadOwner } = await import(
+    "../src/lib/connectors/local-files"
+  );
+  process.env.LOCAL_DATA_DIR = "/srv/lens-data";
+  assert(
+    resolveDataFile("extracts/sales.db") === "/srv/lens-data/extracts/sales.db",
+    "resolveDataFile: relative path resolves inside data dir"
+  );
+  let escaped = false;
+  try { resolveDataFile("../../etc/passwd"); } catch { escaped = true; }
+  assert(escaped, "resolveDataFile: path traversal rejected");
+  escaped = false;
+  try { resolveDataFile("/etc/passwd"); } catch { escaped = true; }
+  assert(escaped, "resolveDataFile: absolute path outside data dir rejected");
+  assert(
+    uploadOwner("/srv/lens-data/uploads/u1/a.db") === "u1" &&
+      uploadOwner("uploads/a.db") === null &&
+      uploadOwner("extracts/sales.db") === null,
+    "uploadOwner: uploads belong to the user directory they sit in"
+  );
+  delete process.env.LOCAL_DATA_DIR;
+  assert(
+    parseFileConnectionString("duckdb:///srv/lens-data/a.duckdb", "duckdb").database === "/srv/lens-data/a.duckdb",
+    "parseFileConnectionString: extracts file path"
+  );
+
+  // auditLogQuerySchema — search params are strings
+  const auditQuery = auditLogQuerySchema.safeParse({ status: "throttled", from: "2026-01-01", limit: "50" });
+  assert(
+    auditQuery.success && auditQuery.data.limit === 50 && auditQuery.data.from instanceof Date,
+    "auditLogQuerySchema: coerces dates and numbers"
+  );
+  assert(!auditLogQuerySchema.safeParse({ feature: "cron" }).success, "auditLogQuerySchema: unknown feature rejected");
+
   // queryRequestSchema
   const qr = queryRequestSchema.safeParse({
     dataSourceId: "00000000-0000-0000-0000-000000000000",
@@ -397,7 +1169,7 @@ async function phase2() {
 
   const maskedCols = await getMaskedColumns(ds.id);
   assert(
-    maskedCols["orders"]?.includes("email"),
+    maskedCols["orders"]?.email === "reject",
     "getMaskedColumns returns masked columns"
   );
 
@@ -445,6 +1217,20 @@ async function phase2() {
   );
   assert(auditRows[0]?.query_text === "SELECT 1", "Audit log entry created");
 
+  const { verifyAuditChain } = await import("../src/lib/services/audit-service");
+  await auditLogQuery({ dataSourceId: ds.id, queryText: "SELECT 2", status: "success" });
+  await query(
+    "DELETE FROM query_audit_log WHERE seq = (SELECT MAX(seq) FROM query_audit_log) AND data_source_id = $1",
+    [ds.id]
+  );
+  const truncatedReport = await verifyAuditChain();
+  assert(
+    !truncatedReport.valid && truncatedReport.problems.some((p) => p.kind === "truncated"),
+    "verifyAuditChain: deleting the newest entry fails verification"
+  );
+  // The next entry links to what is left and becomes the head again
+  await auditLogQuery({ dataSourceId: ds.id, queryText: "SELECT 3", status: "success" });
+
   // ── Cleanup ────────────────────────────────────────────────────────────
   section("2.2 Cleanup");
   await deleteDataSource(ds.id);
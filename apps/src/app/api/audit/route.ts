@@ -0,0 +1,81 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+import { auditLogQuerySchema } from "@/lib/schemas";
+import { listAuditLog, auditLogToCsv } from "@/lib/services/audit-service";
+import {
+  assertDataSourceOwnership,
+  AccessDeniedError,
+  NotFoundError,
+} from "@/lib/services/data-source-service";
+import type { ApiResponse, AuditLogEntry } from "@/lib/types";
+
+const DEFAULT_PAGE_SIZE = 100;
+const CSV_EXPORT_LIMIT = 10_000;
+
+/**
+ * GET /api/audit — Query audit log entries of the current user's data sources.
+ *
+ * Query params (all optional):
+ *   ?dataSourceId=<uuid>  ?userId=<uuid>  ?status=throttled  ?feature=chat
+ *   ?from=2026-01-01      ?to=2026-02-01  — ISO dates or timestamps; `to` is exclusive
+ *   ?limit=100&offset=0   — newest first
+ *   ?format=csv           — download as CSV (up to 10,000 entries)
+ */
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<AuditLogEntry[]>> | Response> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = auditLogQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    const { format, limit, ...filter } = parsed.data;
+    if (filter.dataSourceId) await assertDataSourceOwnership(filter.dataSourceId, userId);
+
+    const entries = await listAuditLog(userId, {
+      ...filter,
+      limit: limit ?? (format === "csv" ? CSV_EXPORT_LIMIT : DEFAULT_PAGE_SIZE),
+    });
+
+    if (format === "csv") {
+      const date = new Date().toISOString().slice(0, 10);
+      return new Response(auditLogToCsv(entries), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="query-audit-${date}.csv"`,
+          "Cache-Control": "no-store",
+        },
+      });
+    }
+    return NextResponse.json({ success: true, data: entries });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to fetch the audit log",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUser } from "@/lib/auth";
+import { isAuditAdmin, verifyAuditChain } from "@/lib/services/audit-service";
+import type { ApiResponse, AuditChainReport } from "@/lib/types";
+
+/**
+ * GET /api/audit/verify — Verify the query audit log's hash chain and report
+ * any entries that were modified or deleted. The chain covers every owner's
+ * entries, so only admins (AUDIT_ADMIN_EMAILS) may run it.
+ *
+ * Query params:
+ *   ?archives=1  — also read every archive file and check it entry by entry
+ */
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<AuditChainReport>>> {
+  try {
+    const user = await getCurrentUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    if (!isAuditAdmin(user.email)) {
+      return NextResponse.json(
+        { success: false, error: "Only audit admins can verify the audit log" },
+        { status: 403 }
+      );
+    }
+
+    const includeArchives = req.nextUrl.searchParams.get("archives") === "1";
+    const report = await verifyAuditChain({ includeArchives });
+    return NextResponse.json({ success: true, data: report });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to verify the audit log",
+      },
+      { status: 500 }
+    );
+  }
+}
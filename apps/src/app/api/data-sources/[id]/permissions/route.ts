@@ -10,6 +10,8 @@ import {
   NotFoundError,
 } from "@/lib/services/data-source-service";
 import { getCurrentUserId } from "@/lib/auth";
+import { getConnector } from "@/lib/connectors/registry";
+import { validateRowFilter } from "@/lib/query-guardrails";
 import type { ApiResponse, DataSourcePermissions } from "@/lib/types";
 
 /** GET /api/data-sources/[id]/permissions — Get permissions for a data source */
@@ -57,7 +59,7 @@ export async function PUT(
       );
     }
     const { id } = await params;
-    await assertDataSourceOwnership(id, userId);
+    const dataSource = await assertDataSourceOwnership(id, userId);
     const body = await req.json();
     const parsed = updatePermissionsSchema.safeParse({
       dataSourceId: id,
@@ -71,6 +73,32 @@ export async function PUT(
       );
     }
 
+    // Row filters are checked against the source's SQL grammar before they are stored
+    const filtered = parsed.data.permissions.filter((p) => p.rowFilter?.trim());
+    const grouped = parsed.data.permissions.filter((p) => p.minGroupSize !== undefined);
+    if (
+      (filtered.length > 0 || grouped.length > 0) &&
+      getConnector(dataSource.type).dialect.queryKind !== "sql"
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Row filters and minimum group sizes are only supported for SQL data sources",
+        },
+        { status: 400 }
+      );
+    }
+    const filterErrors = filtered.flatMap((p) => {
+      const error = validateRowFilter(p.rowFilter!, dataSource.type);
+      return error ? [`${p.tableName}: ${error}`] : [];
+    });
+    if (filterErrors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: filterErrors.join("; ") },
+        { status: 400 }
+      );
+    }
+
     await upsertPermissions(id, parsed.data.permissions);
     const updated = await getPermissions(id);
 
@@ -6,12 +6,21 @@ import {
   deleteDataSource,
   updateDataSourceStatus,
   assertDataSourceOwnership,
+  testDataSourceConnection,
+  checkDataSourceWriteAccess,
+  updateDataSourceSchemas,
+  updateDataSourceCostBudget,
+  updateDataSourceCacheTtl,
+  updateDataSourceQueryQuota,
+  updateDataSourceUserQueryQuota,
+  introspectDataSourceSchema,
+  cacheSchema,
   AccessDeniedError,
   NotFoundError,
 } from "@/lib/services/data-source-service";
-import { testConnection } from "@/lib/connectors/postgres";
 import { getCurrentUserId } from "@/lib/auth";
-import type { ApiResponse, DataSourceSafe } from "@/lib/types";
+import { updateDataSourceSchema } from "@/lib/schemas";
+import type { ApiResponse, DatabaseSchema, DataSourceSafe } from "@/lib/types";
 
 export async function GET(
   _req: NextRequest,
@@ -79,11 +88,101 @@ export async function DELETE(
   }
 }
 
-/** POST /api/data-sources/[id]/test — Re-test connection */
+/**
+ * PATCH /api/data-sources/[id] — Change the introspected schemas (saved
+ * only once they introspect), the query cost budget and/or the result cache TTL
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<DataSourceSafe>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    const ds = await assertDataSourceOwnership(id, userId);
+
+    const parsed = updateDataSourceSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    const { schemas, costBudget, cacheTtlSeconds, queryQuota, userQueryQuota } = parsed.data;
+    if (schemas && ds.type !== "postgresql") {
+      return NextResponse.json(
+        { success: false, error: "Schema selection is only supported for PostgreSQL sources" },
+        { status: 400 }
+      );
+    }
+
+    // Introspect the new schema list before saving anything, so a bad schema
+    // name or a connection error leaves the source exactly as it was
+    let introspected: DatabaseSchema | null = null;
+    if (schemas) {
+      try {
+        introspected = await introspectDataSourceSchema({ ...ds, schemas });
+      } catch (err) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Could not introspect the selected schemas: ${err instanceof Error ? err.message : "unknown error"}`,
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    // The schema guarantees at least one field is set
+    let updated: DataSourceSafe | null = null;
+    if (costBudget !== undefined) {
+      updated = await updateDataSourceCostBudget(id, costBudget);
+    }
+    if (cacheTtlSeconds !== undefined) {
+      updated = await updateDataSourceCacheTtl(id, cacheTtlSeconds);
+    }
+    if (queryQuota !== undefined) {
+      updated = await updateDataSourceQueryQuota(id, queryQuota);
+    }
+    if (userQueryQuota !== undefined) {
+      updated = await updateDataSourceUserQueryQuota(id, userQueryQuota);
+    }
+    if (schemas && introspected) {
+      updated = await updateDataSourceSchemas(id, schemas);
+      await cacheSchema(id, introspected);
+    }
+
+    return NextResponse.json({ success: true, data: updated! });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/data-sources/[id] — Re-test connection, and whether the credentials
+ * can write unless ?checkWriteAccess=false
+ */
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ApiResponse<{ connected: boolean; error?: string }>>> {
+): Promise<
+  NextResponse<ApiResponse<{ connected: boolean; error?: string; writeWarning?: string | null }>>
+> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
@@ -94,14 +193,18 @@ export async function POST(
     }
     const { id } = await params;
     const ds = await assertDataSourceOwnership(id, userId);
-    const result = await testConnection(ds);
+    const result = await testDataSourceConnection(ds);
     await updateDataSourceStatus(
       id,
       result.success ? "connected" : "error"
     );
+    const checkWrites = req.nextUrl.searchParams.get("checkWriteAccess") !== "false";
+    const writeWarning = result.success && checkWrites
+      ? await checkDataSourceWriteAccess(ds)
+      : undefined;
     return NextResponse.json({
       success: true,
-      data: { connected: result.success, error: result.error },
+      data: { connected: result.success, error: result.error, writeWarning },
     });
   } catch (err) {
     if (err instanceof NotFoundError) {
@@ -5,18 +5,61 @@ import {
   cacheSchema,
   getCachedSchema,
   assertDataSourceOwnership,
+  introspectDataSourceSchema,
   AccessDeniedError,
   NotFoundError,
 } from "@/lib/services/data-source-service";
-import { introspectPostgresSchema } from "@/lib/connectors/postgres";
 import { getCurrentUserId } from "@/lib/auth";
-import type { ApiResponse, DatabaseSchema } from "@/lib/types";
+import type {
+  ApiResponse,
+  DataSource,
+  DatabaseSchema,
+  SchemaStreamEvent,
+} from "@/lib/types";
 
-/** GET /api/data-sources/[id]/schema — Get cached or fresh schema */
+/**
+ * Introspect and cache a data source's schema as an NDJSON stream: "progress"
+ * lines carry partial results as the connector loads them, then a single
+ * "done" (or "error") line ends the stream.
+ */
+function streamIntrospection(ds: DataSource): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: SchemaStreamEvent) =>
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      try {
+        const schema = await introspectDataSourceSchema(ds, (progress) =>
+          send({ type: "progress", ...progress })
+        );
+        await cacheSchema(ds.id, schema);
+        send({ type: "done", schema });
+      } catch (err) {
+        send({
+          type: "error",
+          error: err instanceof Error ? err.message : "Schema introspection failed",
+        });
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
+  });
+}
+
+function wantsStream(req: NextRequest): boolean {
+  return req.nextUrl.searchParams.get("stream") === "1";
+}
+
+/**
+ * GET /api/data-sources/[id]/schema — Get cached or fresh schema.
+ * With ?stream=1 a cache miss streams progress (see streamIntrospection).
+ */
 export async function GET(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ApiResponse<DatabaseSchema>>> {
+): Promise<NextResponse<ApiResponse<DatabaseSchema>> | Response> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
@@ -32,12 +75,19 @@ export async function GET(
     if (cached) {
       // Still verify ownership even for cached results
       await assertDataSourceOwnership(id, userId);
+      if (wantsStream(req)) {
+        const event: SchemaStreamEvent = { type: "done", schema: cached };
+        return new Response(`${JSON.stringify(event)}\n`, {
+          headers: { "Content-Type": "application/x-ndjson" },
+        });
+      }
       return NextResponse.json({ success: true, data: cached });
     }
 
     // Fresh introspection — ownership check returns the full DataSource
     const ds = await assertDataSourceOwnership(id, userId);
-    const schema = await introspectPostgresSchema(ds);
+    if (wantsStream(req)) return streamIntrospection(ds);
+    const schema = await introspectDataSourceSchema(ds);
     await cacheSchema(id, schema);
 
     return NextResponse.json({ success: true, data: schema });
@@ -58,11 +108,11 @@ export async function GET(
   }
 }
 
-/** POST /api/data-sources/[id]/schema — Force re-introspect */
+/** POST /api/data-sources/[id]/schema — Force re-introspect (?stream=1 streams progress) */
 export async function POST(
-  _req: NextRequest,
+  req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
-): Promise<NextResponse<ApiResponse<DatabaseSchema>>> {
+): Promise<NextResponse<ApiResponse<DatabaseSchema>> | Response> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
@@ -73,7 +123,8 @@ export async function POST(
     }
     const { id } = await params;
     const ds = await assertDataSourceOwnership(id, userId);
-    const schema = await introspectPostgresSchema(ds);
+    if (wantsStream(req)) return streamIntrospection(ds);
+    const schema = await introspectDataSourceSchema(ds);
     await cacheSchema(id, schema);
 
     return NextResponse.json({ success: true, data: schema });
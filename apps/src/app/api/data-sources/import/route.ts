@@ -0,0 +1,145 @@
+export const runtime = "nodejs";
+
+import path from "path";
+import { unlink } from "fs/promises";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createDataSource,
+  getDataSource,
+  updateDataSourceStatus,
+  cacheSchema,
+  testDataSourceConnection,
+  introspectDataSourceSchema,
+} from "@/lib/services/data-source-service";
+import {
+  importSpreadsheets,
+  SPREADSHEET_EXTENSIONS,
+  type SpreadsheetFile,
+} from "@/lib/services/import-service";
+import { getCurrentUserId } from "@/lib/auth";
+import { runAnomalyScan } from "@/lib/services/anomaly-service";
+import { generateSuggestedQuestions } from "@/lib/services/suggestion-service";
+import type { ApiResponse, DataSourceSafe } from "@/lib/types";
+
+/**
+ * POST /api/data-sources/import
+ * Ingest CSV / XLSX files (multipart field "files", plus "name") into a
+ * managed DuckDB file and register it as a data source. Each CSV file and
+ * each XLSX worksheet becomes a table under the normal permission model.
+ */
+export async function POST(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<DataSourceSafe>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const form = await req.formData();
+    const name = form.get("name");
+    const uploads = form.getAll("files").filter((f): f is File => f instanceof File);
+
+    if (typeof name !== "string" || name.trim().length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Name is required" },
+        { status: 400 }
+      );
+    }
+    if (uploads.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "At least one CSV or XLSX file is required" },
+        { status: 400 }
+      );
+    }
+    const unsupported = uploads.filter(
+      (f) => !(SPREADSHEET_EXTENSIONS as readonly string[]).includes(path.extname(f.name).toLowerCase())
+    );
+    if (unsupported.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unsupported file type: ${unsupported.map((f) => f.name).join(", ")} (expected CSV or XLSX)`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const files: SpreadsheetFile[] = await Promise.all(
+      uploads.map(async (f) => ({
+        fileName: f.name,
+        contents: Buffer.from(await f.arrayBuffer()),
+      }))
+    );
+
+    let filePath: string;
+    try {
+      ({ filePath } = await importSpreadsheets(files, userId));
+    } catch (err) {
+      // Unparseable or oversized files are a bad request, not a server fault
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : "Import failed" },
+        { status: 400 }
+      );
+    }
+
+    let dataSource: DataSourceSafe;
+    try {
+      dataSource = await createDataSource(
+        {
+          name: name.trim().slice(0, 255),
+          type: "duckdb",
+          host: "",
+          port: 0,
+          database: filePath,
+          username: "",
+          password: "",
+        },
+        userId
+      );
+    } catch (err) {
+      await unlink(filePath).catch(() => { });
+      throw err;
+    }
+
+    // Same onboarding as POST /api/data-sources: verify, introspect, then scan
+    const fullDs = await getDataSource(dataSource.id);
+    if (fullDs) {
+      const testResult = await testDataSourceConnection(fullDs);
+      if (testResult.success) {
+        await updateDataSourceStatus(dataSource.id, "connected");
+        dataSource.status = "connected";
+
+        try {
+          const schema = await introspectDataSourceSchema(fullDs);
+          await cacheSchema(dataSource.id, schema);
+
+          runAnomalyScan(dataSource.id, userId).catch(() => {
+            // Anomaly scan failure is non-blocking
+          });
+          generateSuggestedQuestions(dataSource.id).catch(() => {
+            // Suggestion generation failure is non-blocking
+          });
+        } catch {
+          // Schema introspection failure is non-blocking
+        }
+      } else {
+        await updateDataSourceStatus(dataSource.id, "error");
+        dataSource.status = "error";
+      }
+    }
+
+    return NextResponse.json({ success: true, data: dataSource }, { status: 201 });
+  } catch (err) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to import files",
+      },
+      { status: 500 }
+    );
+  }
+}
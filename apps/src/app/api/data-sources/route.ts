@@ -6,12 +6,15 @@ import {
   createDataSource,
   getDataSources,
   updateDataSourceStatus,
+  AccessDeniedError,
 } from "@/lib/services/data-source-service";
 import {
-  testConnection,
-  introspectPostgresSchema,
-} from "@/lib/connectors/postgres";
-import { getDataSource, cacheSchema } from "@/lib/services/data-source-service";
+  getDataSource,
+  cacheSchema,
+  testDataSourceConnection,
+  introspectDataSourceSchema,
+  checkDataSourceWriteAccess,
+} from "@/lib/services/data-source-service";
 import { getCurrentUserId } from "@/lib/auth";
 import { runAnomalyScan } from "@/lib/services/anomaly-service";
 import { generateSuggestedQuestions } from "@/lib/services/suggestion-service";
@@ -54,14 +57,18 @@ export async function POST(
     // Test connectivity
     const fullDs = await getDataSource(dataSource.id);
     if (fullDs) {
-      const testResult = await testConnection(fullDs);
+      const testResult = await testDataSourceConnection(fullDs);
       if (testResult.success) {
         await updateDataSourceStatus(dataSource.id, "connected");
         dataSource.status = "connected";
 
+        if (parsed.data.checkWriteAccess) {
+          dataSource.writeWarning = await checkDataSourceWriteAccess(fullDs);
+        }
+
         // Auto-introspect schema
         try {
-          const schema = await introspectPostgresSchema(fullDs);
+          const schema = await introspectDataSourceSchema(fullDs);
           await cacheSchema(dataSource.id, schema);
 
           // Trigger proactive anomaly scan (non-blocking)
@@ -84,6 +91,9 @@ export async function POST(
 
     return NextResponse.json({ success: true, data: dataSource }, { status: 201 });
   } catch (err) {
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
     return NextResponse.json(
       {
         success: false,
@@ -0,0 +1,73 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+import {
+  MAX_UPLOAD_BYTES,
+  saveUploadedDatabaseFile,
+} from "@/lib/connectors/local-files";
+import type { ApiResponse } from "@/lib/types";
+
+/**
+ * POST /api/data-sources/upload
+ * Accepts a SQLite or DuckDB file (multipart field "file", plus "type") and
+ * stores it in the caller's upload directory. The returned path is then used
+ * as the `database` of a normal POST /api/data-sources request by the same
+ * user — once, since the file belongs to the source registered with it.
+ */
+export async function POST(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<{ filePath: string }>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const form = await req.formData();
+    const file = form.get("file");
+    const type = form.get("type");
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "A database file is required" },
+        { status: 400 }
+      );
+    }
+    if (type !== "sqlite" && type !== "duckdb") {
+      return NextResponse.json(
+        { success: false, error: "type must be sqlite or duckdb" },
+        { status: 400 }
+      );
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { success: false, error: `File exceeds the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit` },
+        { status: 413 }
+      );
+    }
+
+    const contents = Buffer.from(await file.arrayBuffer());
+    try {
+      const filePath = await saveUploadedDatabaseFile(type, contents, userId);
+      return NextResponse.json({ success: true, data: { filePath } }, { status: 201 });
+    } catch (err) {
+      // Signature / size checks — the upload itself was bad
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : "Invalid file" },
+        { status: 400 }
+      );
+    }
+  } catch (err) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to upload file",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { cancelGuardedQuery } from "@/lib/services/query-service";
+import { AccessDeniedError, NotFoundError } from "@/lib/services/data-source-service";
+import { getCurrentUserId } from "@/lib/auth";
+import type { ApiResponse } from "@/lib/types";
+
+/** DELETE /api/query/[id] — Cancel a running query by the queryId it was started with */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<{ cancelled: boolean }>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    await cancelGuardedQuery(id, userId);
+
+    return NextResponse.json({ success: true, data: { cancelled: true } });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to cancel query",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -2,19 +2,85 @@ export const runtime = "nodejs";
 
 import { NextRequest, NextResponse } from "next/server";
 import { queryRequestSchema } from "@/lib/schemas";
-import { executeGuardedQuery } from "@/lib/services/query-service";
+import {
+  executeGuardedQuery,
+  fetchQueryPage,
+  streamGuardedQuery,
+} from "@/lib/services/query-service";
 import {
   assertDataSourceOwnership,
   AccessDeniedError,
   NotFoundError,
 } from "@/lib/services/data-source-service";
 import { getCurrentUserId } from "@/lib/auth";
-import type { ApiResponse, QueryResult } from "@/lib/types";
+import type { ApiResponse, QueryAttribution, QueryResult, QueryStreamEvent } from "@/lib/types";
+
+/**
+ * Execute a guarded query as an NDJSON stream: "rows" lines carry batches
+ * read from a cursor, then a single "done" (or "error") line ends the
+ * stream. A client that disconnects cancels the query.
+ */
+function streamQuery(
+  dataSourceId: string,
+  query: string,
+  params: unknown[] | undefined,
+  options: QueryAttribution & { userId: string; queryId?: string }
+): Response {
+  const encoder = new TextEncoder();
+  const disconnected = new AbortController();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: QueryStreamEvent) => {
+        if (disconnected.signal.aborted) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+      try {
+        const { result, validation } = await streamGuardedQuery(
+          dataSourceId,
+          query,
+          params,
+          { ...options, signal: disconnected.signal },
+          ({ columns, columnTypes, rows }) => send({ type: "rows", columns, columnTypes, rows })
+        );
+        if (result) {
+          send({
+            type: "done",
+            rowCount: result.rowCount,
+            executionTimeMs: result.executionTimeMs,
+            truncated: result.truncated,
+            ...(result.warnings && { warnings: result.warnings }),
+          });
+        } else if (validation.retryAfterSeconds !== undefined) {
+          send({ type: "error", error: validation.errors.join("; ") });
+        } else {
+          send({ type: "error", error: `Query validation failed: ${validation.errors.join("; ")}` });
+        }
+      } catch (err) {
+        send({
+          type: "error",
+          error: err instanceof Error ? err.message : "Query execution failed",
+        });
+      }
+      if (!disconnected.signal.aborted) controller.close();
+    },
+    cancel() {
+      disconnected.abort();
+    },
+  });
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
+  });
+}
 
-/** POST /api/query — Execute a guarded query */
+/**
+ * POST /api/query — Execute a guarded query.
+ * With `pageSize` the result comes a page at a time: pass the returned
+ * `nextPageToken` (instead of `query`) to fetch the next. With ?stream=1
+ * all rows are streamed as NDJSON (see streamQuery).
+ */
 export async function POST(
   req: NextRequest
-): Promise<NextResponse<ApiResponse<QueryResult>>> {
+): Promise<NextResponse<ApiResponse<QueryResult>> | Response> {
   try {
     const userId = await getCurrentUserId();
     if (!userId) {
@@ -34,17 +100,38 @@ export async function POST(
       );
     }
 
-    const { dataSourceId, query, params } = parsed.data;
+    const { dataSourceId, query, params, queryId, pageSize, pageToken, threadId, feature } =
+      parsed.data;
 
     // Verify ownership before executing
     await assertDataSourceOwnership(dataSourceId, userId);
 
-    const { result, validation } = await executeGuardedQuery(
-      dataSourceId,
-      query,
-      params
-    );
+    if (req.nextUrl.searchParams.get("stream") === "1") {
+      if (query === undefined) {
+        return NextResponse.json(
+          { success: false, error: "Streaming needs a query, not a pageToken" },
+          { status: 400 }
+        );
+      }
+      return streamQuery(dataSourceId, query, params, { userId, queryId, threadId, feature });
+    }
 
+    const { result, validation } = pageToken
+      ? await fetchQueryPage(dataSourceId, pageToken, userId, pageSize)
+      : await executeGuardedQuery(dataSourceId, query!, params, {
+          userId,
+          queryId,
+          pageSize,
+          threadId,
+          feature,
+        });
+
+    if (validation.retryAfterSeconds !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join("; ") },
+        { status: 429, headers: { "Retry-After": String(validation.retryAfterSeconds) } }
+      );
+    }
     if (!validation.valid) {
       return NextResponse.json(
         {
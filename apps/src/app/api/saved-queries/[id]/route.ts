@@ -0,0 +1,126 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+import { updateSavedQuerySchema } from "@/lib/schemas";
+import { checkSavedQuery } from "@/lib/query-parameters";
+import {
+  assertSavedQueryOwnership,
+  deleteSavedQuery,
+  updateSavedQuery,
+} from "@/lib/services/saved-query-service";
+import { AccessDeniedError, NotFoundError } from "@/lib/services/data-source-service";
+import type { ApiResponse, SavedQuery } from "@/lib/types";
+
+export async function GET(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<SavedQuery>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    const savedQuery = await assertSavedQueryOwnership(id, userId);
+    return NextResponse.json({ success: true, data: savedQuery });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/saved-queries/[id] — Change the name, description, SQL,
+ * parameters and/or tags. The SQL and parameters must still agree.
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<SavedQuery>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    const savedQuery = await assertSavedQueryOwnership(id, userId);
+
+    const parsed = updateSavedQuerySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    const { sql, parameters } = parsed.data;
+    if (sql !== undefined || parameters !== undefined) {
+      const problem = checkSavedQuery(
+        sql ?? savedQuery.sql,
+        parameters ?? savedQuery.parameters,
+        savedQuery.dataSourceType
+      );
+      if (problem) {
+        return NextResponse.json({ success: false, error: problem }, { status: 400 });
+      }
+    }
+
+    const updated = await updateSavedQuery(id, parsed.data);
+    return NextResponse.json({ success: true, data: updated });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed to update saved query" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<{ deleted: boolean }>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    await assertSavedQueryOwnership(id, userId);
+    await deleteSavedQuery(id);
+    return NextResponse.json({ success: true, data: { deleted: true } });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Error" },
+      { status: 500 }
+    );
+  }
+}
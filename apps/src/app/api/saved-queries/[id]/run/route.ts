@@ -0,0 +1,73 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+import { runSavedQuerySchema } from "@/lib/schemas";
+import { assertSavedQueryOwnership, runSavedQuery } from "@/lib/services/saved-query-service";
+import { AccessDeniedError, NotFoundError } from "@/lib/services/data-source-service";
+import type { ApiResponse, QueryResult } from "@/lib/types";
+
+/**
+ * POST /api/saved-queries/[id]/run — Run a saved query with parameter
+ * values by name (`params`), through the same guardrails as /api/query.
+ * `queryId`, `pageSize`, `threadId` and `feature` work as they do there.
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<NextResponse<ApiResponse<QueryResult>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+    const { id } = await params;
+    const savedQuery = await assertSavedQueryOwnership(id, userId);
+
+    const parsed = runSavedQuerySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    const { params: values, ...options } = parsed.data;
+
+    const { result, validation } = await runSavedQuery(savedQuery, values, { ...options, userId });
+
+    if (validation.retryAfterSeconds !== undefined) {
+      return NextResponse.json(
+        { success: false, error: validation.errors.join("; ") },
+        { status: 429, headers: { "Retry-After": String(validation.retryAfterSeconds) } }
+      );
+    }
+    if (!validation.valid) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Query validation failed: ${validation.errors.join("; ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: result });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Query execution failed",
+      },
+      { status: 500 }
+    );
+  }
+}
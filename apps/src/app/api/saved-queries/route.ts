@@ -0,0 +1,107 @@
+export const runtime = "nodejs";
+
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentUserId } from "@/lib/auth";
+import { createSavedQuerySchema, savedQueryListSchema } from "@/lib/schemas";
+import { checkSavedQuery } from "@/lib/query-parameters";
+import { createSavedQuery, listSavedQueries } from "@/lib/services/saved-query-service";
+import {
+  assertDataSourceOwnership,
+  AccessDeniedError,
+  NotFoundError,
+} from "@/lib/services/data-source-service";
+import type { ApiResponse, SavedQuery } from "@/lib/types";
+
+/**
+ * GET /api/saved-queries — Saved queries on the current user's data sources.
+ *
+ * Query params (all optional):
+ *   ?dataSourceId=<uuid>  ?tag=revenue  ?search=churn — matches name and description
+ */
+export async function GET(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<SavedQuery[]>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = savedQueryListSchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams.entries())
+    );
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+    if (parsed.data.dataSourceId) await assertDataSourceOwnership(parsed.data.dataSourceId, userId);
+
+    const savedQueries = await listSavedQueries(userId, parsed.data);
+    return NextResponse.json({ success: true, data: savedQueries });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: err instanceof Error ? err.message : "Failed to fetch saved queries",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/saved-queries — Save SQL as a named query. Its `:name`
+ * placeholders must match the declared parameters.
+ */
+export async function POST(
+  req: NextRequest
+): Promise<NextResponse<ApiResponse<SavedQuery>>> {
+  try {
+    const userId = await getCurrentUserId();
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const parsed = createSavedQuerySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error.issues.map((e) => e.message).join(", ") },
+        { status: 400 }
+      );
+    }
+
+    const ds = await assertDataSourceOwnership(parsed.data.dataSourceId, userId);
+    const problem = checkSavedQuery(parsed.data.sql, parsed.data.parameters, ds.type);
+    if (problem) {
+      return NextResponse.json({ success: false, error: problem }, { status: 400 });
+    }
+
+    const savedQuery = await createSavedQuery(parsed.data, userId);
+    return NextResponse.json({ success: true, data: savedQuery }, { status: 201 });
+  } catch (err) {
+    if (err instanceof NotFoundError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 404 });
+    }
+    if (err instanceof AccessDeniedError) {
+      return NextResponse.json({ success: false, error: err.message }, { status: 403 });
+    }
+    return NextResponse.json(
+      { success: false, error: err instanceof Error ? err.message : "Failed to save query" },
+      { status: 500 }
+    );
+  }
+}
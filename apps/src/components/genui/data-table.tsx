@@ -15,16 +15,50 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2 } from "lucide-react";
+import { useQueryPages } from "@/hooks/use-query-pages";
 import type { DataTableProps } from "@/lib/types";
 
-export function DataTable({ title = "", columns = [], rows = [], totalRows }: DataTableProps) {
+const NUMERIC_TYPES = new Set(["integer", "float", "decimal", "money"]);
+
+export function DataTable({
+  title = "",
+  columns = [],
+  rows = [],
+  totalRows,
+  columnTypes,
+  dataSourceId,
+  query,
+  queryFeature,
+}: DataTableProps) {
+  // With the query behind the rows, more pages load on demand
+  const { pages, hasMore, loading, error, loadMore } = useQueryPages(
+    dataSourceId ?? undefined,
+    query ?? undefined,
+    rows.length,
+    queryFeature
+  );
+  const shown = pages ?? { columns, columnTypes: columnTypes ?? [], rows };
+  const numeric = shown.columns.map((col) =>
+    NUMERIC_TYPES.has(shown.columnTypes.find((c) => c.name === col)?.type ?? "")
+  );
+  const canLoadMore =
+    !!dataSourceId &&
+    !!query &&
+    hasMore &&
+    !(pages === null && totalRows != null && rows.length >= totalRows);
+  const countSuffix = pages
+    ? hasMore ? "+" : ""
+    : totalRows && totalRows > rows.length ? ` of ${totalRows.toLocaleString()}` : "";
+
   return (
     <Card className="w-full">
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">{title}</CardTitle>
           <Badge variant="secondary" className="text-xs">
-            {rows.length}{totalRows && totalRows > rows.length ? ` of ${totalRows.toLocaleString()}` : ""} rows
+            {shown.rows.length}{countSuffix} rows
           </Badge>
         </div>
       </CardHeader>
@@ -33,26 +67,29 @@ export function DataTable({ title = "", columns = [], rows = [], totalRows }: Da
           <Table>
             <TableHeader>
               <TableRow>
-                {columns.map((col) => (
-                  <TableHead key={col} className="font-semibold whitespace-nowrap sticky top-0 bg-background z-10">
+                {shown.columns.map((col, i) => (
+                  <TableHead
+                    key={col}
+                    className={`font-semibold whitespace-nowrap sticky top-0 bg-background z-10 ${numeric[i] ? "text-right" : ""}`}
+                  >
                     {col}
                   </TableHead>
                 ))}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {rows.map((row, i) => (
+              {shown.rows.map((row, i) => (
                 <TableRow key={i} className="hover:bg-muted/50 cursor-default">
                   {row.map((cell, j) => (
-                    <TableCell key={j} className="whitespace-nowrap">
-                      {cell ?? "—"}
+                    <TableCell key={j} className={`whitespace-nowrap ${numeric[j] ? "text-right tabular-nums" : ""}`}>
+                      {cell === null ? <span className="text-muted-foreground">—</span> : String(cell)}
                     </TableCell>
                   ))}
                 </TableRow>
               ))}
-              {rows.length === 0 && (
+              {shown.rows.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={columns.length || 1} className="text-center text-muted-foreground py-8">
+                  <TableCell colSpan={shown.columns.length || 1} className="text-center text-muted-foreground py-8">
                     No data available
                   </TableCell>
                 </TableRow>
@@ -60,6 +97,15 @@ export function DataTable({ title = "", columns = [], rows = [], totalRows }: Da
             </TableBody>
           </Table>
         </div>
+        {canLoadMore && (
+          <div className="flex items-center justify-center gap-3 pt-3">
+            <Button variant="outline" size="sm" onClick={() => void loadMore()} disabled={loading}>
+              {loading && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Load more rows
+            </Button>
+            {error && <span className="text-xs text-destructive">{error}</span>}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -8,6 +8,7 @@ import { SchemaBrowserView } from "@/components/views/schema-browser-view";
 import { PermissionsView } from "@/components/views/permissions-view";
 import { DashboardsView } from "@/components/views/dashboards-view";
 import { ReportView } from "@/components/views/report-view";
+import { AuditLogView } from "@/components/views/audit-log-view";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
@@ -54,6 +55,8 @@ export function AppShell() {
         return <PermissionsView />;
       case "dashboards":
         return <DashboardsView />;
+      case "audit":
+        return <AuditLogView />;
       case "report":
         return currentReport ? <ReportView report={currentReport} /> : <AnalyticsChat />;
       default:
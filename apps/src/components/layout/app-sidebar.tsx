@@ -16,6 +16,7 @@ import {
   TableProperties,
   Shield,
   LayoutDashboard,
+  ScrollText,
   Plus,
   ChevronLeft,
   ChevronRight,
@@ -65,6 +66,7 @@ export function AppSidebar() {
     { key: "schema" as const, label: "Schema Browser", icon: TableProperties },
     { key: "permissions" as const, label: "Permissions", icon: Shield },
     { key: "dashboards" as const, label: "Dashboards", icon: LayoutDashboard },
+    { key: "audit" as const, label: "Audit Log", icon: ScrollText },
   ];
 
   const featureItems = [
@@ -31,9 +31,14 @@ interface DataSourceContextValue {
     username: string;
     password: string;
     ssl?: boolean;
+    schemas?: string[];
   }) => Promise<DataSourceSafe | null>;
+  /** Upload a SQLite / DuckDB file; resolves to its stored path for addDataSource */
+  uploadDatabaseFile: (file: File, type: string) => Promise<string | null>;
+  /** Import CSV / XLSX files as a new data source (one table per file or sheet) */
+  importSpreadsheets: (name: string, files: File[]) => Promise<DataSourceSafe | null>;
   removeDataSource: (id: string) => Promise<boolean>;
-  testConnection: (id: string) => Promise<{ connected: boolean; error?: string }>;
+  testConnection: (id: string) => Promise<{ connected: boolean; error?: string; writeWarning?: string | null }>;
   refresh: () => Promise<void>;
 }
 
@@ -79,6 +84,7 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
       username: string;
       password: string;
       ssl?: boolean;
+      schemas?: string[];
     }): Promise<DataSourceSafe | null> => {
       try {
         const res = await fetch(`${API_BASE}/data-sources`, {
@@ -101,6 +107,55 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
     [],
   );
 
+  const uploadDatabaseFile = useCallback(
+    async (file: File, type: string): Promise<string | null> => {
+      try {
+        const body = new FormData();
+        body.append("file", file);
+        body.append("type", type);
+        const res = await fetch(`${API_BASE}/data-sources/upload`, {
+          method: "POST",
+          body,
+        });
+        const json: ApiResponse<{ filePath: string }> = await res.json();
+        if (json.success && json.data) {
+          return json.data.filePath;
+        }
+        setError(json.error || "Failed to upload file");
+        return null;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+        return null;
+      }
+    },
+    [],
+  );
+
+  const importSpreadsheets = useCallback(
+    async (name: string, files: File[]): Promise<DataSourceSafe | null> => {
+      try {
+        const body = new FormData();
+        body.append("name", name);
+        for (const file of files) body.append("files", file);
+        const res = await fetch(`${API_BASE}/data-sources/import`, {
+          method: "POST",
+          body,
+        });
+        const json: ApiResponse<DataSourceSafe> = await res.json();
+        if (json.success && json.data) {
+          setDataSources((prev) => [json.data!, ...prev]);
+          return json.data;
+        }
+        setError(json.error || "Failed to import files");
+        return null;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+        return null;
+      }
+    },
+    [],
+  );
+
   const removeDataSource = useCallback(async (id: string): Promise<boolean> => {
     try {
       const res = await fetch(`${API_BASE}/data-sources/${id}`, {
@@ -118,7 +173,7 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
   }, []);
 
   const testConnection = useCallback(
-    async (id: string): Promise<{ connected: boolean; error?: string }> => {
+    async (id: string): Promise<{ connected: boolean; error?: string; writeWarning?: string | null }> => {
       try {
         const res = await fetch(`${API_BASE}/data-sources/${id}`, {
           method: "POST",
@@ -147,6 +202,8 @@ export function DataSourceProvider({ children }: { children: ReactNode }) {
         loading,
         error,
         addDataSource,
+        uploadDatabaseFile,
+        importSpreadsheets,
         removeDataSource,
         testConnection,
         refresh: fetchDataSources,
@@ -50,7 +50,7 @@ export function TamboLensProvider({ children }: TamboLensProviderProps) {
         if (!id) return "No data source is currently selected.";
         const ds = dataSourcesRef.current.find((d) => d.id === id);
         return ds
-          ? `Active data source: name="${ds.name}", id="${ds.id}", type="${ds.type}", status="${ds.status}". Use this dataSourceId for all tool calls (list_tables, describe_table, run_select_query) unless the user explicitly asks about a different source.`
+          ? `Active data source: name="${ds.name}", id="${ds.id}", type="${ds.type}", status="${ds.status}". Use this dataSourceId for all tool calls (list_tables, describe_table, run_select_query, run_aggregation_pipeline, list_saved_queries, save_query) unless the user explicitly asks about a different source.`
           : `Active dataSourceId: "${id}". Use this for all tool calls.`;
       },
       availableDataSources: () => {
@@ -76,6 +76,12 @@ When users ask analytical questions:
 3. Write safe SELECT queries using run_select_query
 4. Present results using the appropriate visualization component
 
+SAVED QUERIES:
+- Users keep vetted SQL in a saved query library. Before writing SQL for a question, check list_saved_queries; when a saved query answers it, run it with run_saved_query rather than writing new SQL, and say which saved query you used.
+- When the user asks to save a query or answer, use save_query with the SQL exactly as it ran, turning values they may want to change into :name parameters.
+
+For MongoDB data sources (type="mongodb"), tables are collections and columns are dot-separated field paths. Use run_aggregation_pipeline with a JSON array of aggregation stages instead of run_select_query.
+
 PROACTIVE ANOMALY DETECTION:
 - The system automatically scans connected databases for anomalies (metric spikes, drops, unusual patterns).
 - Use the get_anomalies tool when users ask about anomalies, unusual changes, what's different, or "what should I know".
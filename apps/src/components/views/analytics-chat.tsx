@@ -33,12 +33,21 @@ import {
   RefreshCw,
   FileBarChart,
   Lightbulb,
+  Square,
+  ChevronDown,
+  ChevronRight,
+  Code2,
+  Copy,
+  Check,
+  Play,
 } from "lucide-react";
 import { useRef, useEffect, useState, useCallback } from "react";
 import { Markdown } from "@/components/ui/markdown";
 import { useSuggestedQuestions } from "@/hooks/use-suggested-questions";
 import { useReport } from "@/hooks/use-report";
-import type { ReportThreadMessage } from "@/lib/types";
+import { cancelInFlightQueries, rerunQuery, setQueryContext } from "@/lib/tambo/tools";
+import { collectQueryRuns } from "@/lib/query-provenance";
+import type { QueryFeature, QueryRun, ReportThreadMessage, TableCellValue } from "@/lib/types";
 
 // ── Visualization picker options ─────────────────────────────────────────────
 
@@ -147,7 +156,7 @@ function buildExplainPrompt(
     }
     case "DataTable": {
       const cols = (props.columns as string[]) ?? [];
-      const rows = (props.rows as string[][]) ?? [];
+      const rows = (props.rows as TableCellValue[][]) ?? [];
       dataSummary = `Columns: ${cols.join(", ")}\nRows shown: ${rows.length}${
         (props.totalRows as number) ? ` of ${props.totalRows} total` : ""
       }`;
@@ -155,7 +164,7 @@ function buildExplainPrompt(
         dataSummary += "\nSample data:\n";
         dataSummary += rows
           .slice(0, 5)
-          .map((r) => cols.map((c, i) => `${c}=${r[i] ?? "—"}`).join(", "))
+          .map((r) => cols.map((c, i) => `${c}=${r[i] ?? "NULL"}`).join(", "))
           .join("\n");
       }
       break;
@@ -197,7 +206,7 @@ Please act as a senior data analyst and explain WHY the data looks this way:
 }
 
 export function AnalyticsChat() {
-  const { thread, generationStage } = useTambo();
+  const { thread, generationStage, cancel } = useTambo();
   const { value, setValue, submit } = useTamboThreadInput();
   const { activeDataSourceId, setActiveView } = useAppContext();
   const { pinItem, unpinByFingerprint, isItemPinned } = useDashboard();
@@ -219,8 +228,14 @@ export function AnalyticsChat() {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [thread?.messages, generationStage]);
 
+  // Queries the AI runs are audited under the thread they were run for
+  useEffect(() => {
+    setQueryContext({ threadId: thread?.id ?? undefined });
+  }, [thread?.id]);
+
   const doSubmit = useCallback(
-    (text: string) => {
+    (text: string, feature: QueryFeature = "chat") => {
+      setQueryContext({ feature });
       setValue(text);
       requestAnimationFrame(() => {
         requestAnimationFrame(() => {
@@ -236,16 +251,22 @@ export function AnalyticsChat() {
     doSubmit(value);
   };
 
+  /** Stop the response — and any query a tool call is still waiting on */
+  const handleStop = () => {
+    cancelInFlightQueries();
+    void cancel();
+  };
+
   const handleVizSelect = (viz: VizType) => {
     const vizPrompt = `${pendingQuery}\n\nShow the result as a ${VIZ_OPTIONS.find((v) => v.key === viz)?.label ?? viz}.`;
     setShowVizPicker(false);
     setPendingQuery("");
-    doSubmit(vizPrompt);
+    doSubmit(vizPrompt, "suggestion");
   };
 
   const handleSkipViz = () => {
     setShowVizPicker(false);
-    doSubmit(pendingQuery);
+    doSubmit(pendingQuery, "suggestion");
     setPendingQuery("");
   };
 
@@ -386,7 +407,7 @@ export function AnalyticsChat() {
           )}
 
           {/* eslint-disable-next-line @typescript-eslint/no-explicit-any */}
-          {thread?.messages?.map((message: any) => (
+          {thread?.messages?.map((message: any, index: number) => (
             <div key={message.id}>
               {message.role === "user" && (
                 <div className="flex items-start gap-3">
@@ -428,55 +449,60 @@ export function AnalyticsChat() {
                           : false;
 
                         return (
-                          <div className="mt-3 relative z-10 pointer-events-auto group">
-                            {message.renderedComponent}
-                            {/* Hover action buttons — Pin + Explain */}
-                            {compName && (
-                              <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1.5">
-                                {EXPLAINABLE_COMPONENTS.has(compName) && (
+                          <>
+                            <div className="mt-3 relative z-10 pointer-events-auto group">
+                              {message.renderedComponent}
+                              {/* Hover action buttons — Pin + Explain */}
+                              {compName && (
+                                <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity flex items-center gap-1.5">
+                                  {EXPLAINABLE_COMPONENTS.has(compName) && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-7 gap-1 text-xs shadow-sm bg-background/90 backdrop-blur-sm"
+                                      disabled={isGenerating}
+                                      onClick={() => {
+                                        doSubmit(
+                                          buildExplainPrompt(
+                                            compName,
+                                            compProps,
+                                          ),
+                                        );
+                                      }}
+                                    >
+                                      <Lightbulb className="h-3 w-3" /> Why?
+                                    </Button>
+                                  )}
                                   <Button
                                     size="sm"
-                                    variant="outline"
+                                    variant={pinned ? "secondary" : "outline"}
                                     className="h-7 gap-1 text-xs shadow-sm bg-background/90 backdrop-blur-sm"
-                                    disabled={isGenerating}
                                     onClick={() => {
-                                      doSubmit(
-                                        buildExplainPrompt(
-                                          compName,
-                                          compProps,
-                                        ),
-                                      );
+                                      if (pinned) {
+                                        unpinByFingerprint(compName, compProps);
+                                      } else {
+                                        pinItem(compName, compProps);
+                                      }
                                     }}
                                   >
-                                    <Lightbulb className="h-3 w-3" /> Why?
+                                    {pinned ? (
+                                      <>
+                                        <PinOff className="h-3 w-3" /> Pinned
+                                      </>
+                                    ) : (
+                                      <>
+                                        <Pin className="h-3 w-3" /> Pin to
+                                        Dashboard
+                                      </>
+                                    )}
                                   </Button>
-                                )}
-                                <Button
-                                  size="sm"
-                                  variant={pinned ? "secondary" : "outline"}
-                                  className="h-7 gap-1 text-xs shadow-sm bg-background/90 backdrop-blur-sm"
-                                  onClick={() => {
-                                    if (pinned) {
-                                      unpinByFingerprint(compName, compProps);
-                                    } else {
-                                      pinItem(compName, compProps);
-                                    }
-                                  }}
-                                >
-                                  {pinned ? (
-                                    <>
-                                      <PinOff className="h-3 w-3" /> Pinned
-                                    </>
-                                  ) : (
-                                    <>
-                                      <Pin className="h-3 w-3" /> Pin to
-                                      Dashboard
-                                    </>
-                                  )}
-                                </Button>
-                              </div>
-                            )}
-                          </div>
+                                </div>
+                              )}
+                            </div>
+                            <QueryProvenance
+                              runs={collectQueryRuns(thread.messages, index)}
+                            />
+                          </>
                         );
                       })()}
                   </div>
@@ -558,23 +584,171 @@ export function AnalyticsChat() {
             className="min-h-[48px] max-h-[200px] pr-14 resize-none"
             rows={1}
           />
+          {isGenerating ? (
+            <Button
+              size="icon"
+              variant="outline"
+              className="absolute right-2 bottom-2 h-8 w-8"
+              onClick={handleStop}
+              title="Stop"
+            >
+              <Square className="h-3.5 w-3.5 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              className="absolute right-2 bottom-2 h-8 w-8"
+              onClick={handleSubmit}
+              disabled={!value.trim()}
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-2 text-center">
+          Tambo Lens generates safe, read-only queries on your authorized data.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+// ── "How was this computed?" panel ───────────────────────────────────────────
+
+/** The queries behind a generated component, collapsed under it */
+function QueryProvenance({ runs }: { runs: QueryRun[] }) {
+  const [open, setOpen] = useState(false);
+  if (runs.length === 0) return null;
+
+  return (
+    <div className="rounded-md border bg-muted/30 text-xs">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex w-full items-center gap-1.5 px-3 py-2 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        {open ? (
+          <ChevronDown className="h-3.5 w-3.5" />
+        ) : (
+          <ChevronRight className="h-3.5 w-3.5" />
+        )}
+        <Code2 className="h-3.5 w-3.5" />
+        How was this computed?
+        <span className="ml-auto">
+          {runs.length} {runs.length === 1 ? "query" : "queries"}
+        </span>
+      </button>
+      {open && (
+        <div className="border-t divide-y">
+          {runs.map((run, i) => (
+            <QueryRunDetails key={i} run={run} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function QueryRunDetails({ run }: { run: QueryRun }) {
+  const [copied, setCopied] = useState(false);
+  const [rerun, setRerun] = useState<QueryRun | null>(null);
+  const [rerunning, setRerunning] = useState(false);
+
+  const handleCopy = async () => {
+    if (!run.sql) return;
+    await navigator.clipboard.writeText(run.sql);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  const handleRerun = async () => {
+    setRerunning(true);
+    try {
+      setRerun(await rerunQuery(run));
+    } finally {
+      setRerunning(false);
+    }
+  };
+
+  return (
+    <div className="p-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {run.toolName === "run_saved_query" && (
+          <Badge variant="secondary" className="text-[10px] h-5">
+            Saved query
+          </Badge>
+        )}
+        {run.tables.map((table) => (
+          <Badge key={table} variant="outline" className="text-[10px] h-5 font-mono">
+            {table}
+          </Badge>
+        ))}
+        <span className="text-muted-foreground">
+          {run.error
+            ? "Failed"
+            : `${run.rowCount} ${run.rowCount === 1 ? "row" : "rows"} · ${run.executionTimeMs} ms`}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
           <Button
-            size="icon"
-            className="absolute right-2 bottom-2 h-8 w-8"
-            onClick={handleSubmit}
-            disabled={!value.trim() || isGenerating}
+            size="sm"
+            variant="ghost"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={handleCopy}
+            disabled={!run.sql}
           >
-            {isGenerating ? (
-              <Loader2 className="h-4 w-4 animate-spin" />
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 gap-1 px-2 text-xs"
+            onClick={handleRerun}
+            disabled={rerunning}
+          >
+            {rerunning ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
             ) : (
-              <Send className="h-4 w-4" />
+              <Play className="h-3 w-3" />
             )}
+            Re-run
           </Button>
         </div>
-        <p className="text-xs text-muted-foreground mt-2 text-center">
-          Tambo Lens generates safe, read-only queries on your authorized data.
-        </p>
       </div>
+
+      {run.sql ? (
+        <pre className="rounded border bg-background p-2 font-mono text-[11px] whitespace-pre-wrap break-words">
+          {run.sql}
+        </pre>
+      ) : (
+        <p className="text-muted-foreground">
+          Saved query {String(run.input.savedQueryId ?? "")}
+        </p>
+      )}
+      {run.sql && !run.executed && (
+        <p className="text-muted-foreground">
+          As written — this result didn&apos;t record the executed statement.
+        </p>
+      )}
+
+      {run.error && <p className="text-destructive">{run.error}</p>}
+      {run.warnings.map((warning, i) => (
+        <p key={i} className="flex items-start gap-1.5 text-amber-600 dark:text-amber-400">
+          <AlertTriangleIcon className="h-3 w-3 mt-0.5 shrink-0" />
+          {warning}
+        </p>
+      ))}
+
+      {rerun && (
+        <p className={rerun.error ? "text-destructive" : "text-muted-foreground"}>
+          {rerun.error
+            ? `Re-run failed: ${rerun.error}`
+            : `Re-run: ${rerun.rowCount} ${rerun.rowCount === 1 ? "row" : "rows"} in ${rerun.executionTimeMs} ms${
+                !run.error && rerun.rowCount !== run.rowCount
+                  ? ` (was ${run.rowCount})`
+                  : ""
+              }`}
+        </p>
+      )}
     </div>
   );
 }
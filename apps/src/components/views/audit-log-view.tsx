@@ -0,0 +1,239 @@
+"use client";
+
+import { Fragment, useState } from "react";
+import { useDataSourceContext } from "@/components/providers/data-source-context";
+import { useAuditLog, type AuditLogFilters } from "@/hooks/use-audit-log";
+import { AUDIT_STATUSES, QUERY_FEATURES, type AuditStatus, type QueryFeature } from "@/lib/types";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ScrollText, Download, RefreshCw, Loader2 } from "lucide-react";
+
+/** Select value that clears a filter — Radix Select can't hold "" */
+const ALL = "all";
+
+const FEATURE_LABELS: Record<QueryFeature, string> = {
+  chat: "Chat",
+  anomaly_scan: "Anomaly scan",
+  suggestion: "Suggestion",
+  dashboard_refresh: "Dashboard refresh",
+};
+
+const STATUS_VARIANTS: Record<AuditStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  error: "destructive",
+  rejected: "destructive",
+  cancelled: "secondary",
+  throttled: "outline",
+};
+
+/**
+ * Every query run against the user's data sources — by the AI, anomaly
+ * scans and dashboards — with who ran it, from where, and what became of it.
+ */
+export function AuditLogView() {
+  const { dataSources } = useDataSourceContext();
+  const [filters, setFilters] = useState<AuditLogFilters>({});
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { entries, loading, error, hasMore, loadMore, refetch, csvUrl } = useAuditLog(filters);
+
+  const setFilter = <K extends keyof AuditLogFilters>(key: K, value: string) =>
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value === ALL || value === "" ? undefined : (value as AuditLogFilters[K]),
+    }));
+
+  return (
+    <div className="flex flex-col h-full overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-6 py-3 border-b shrink-0">
+        <div className="flex items-center gap-2">
+          <ScrollText className="h-5 w-5 text-primary" />
+          <h2 className="font-semibold">Query Audit Log</h2>
+          <Badge variant="outline">
+            {entries.length}
+            {hasMore ? "+" : ""} entries
+          </Badge>
+        </div>
+        <div className="flex items-center gap-2">
+          {error && (
+            <span className="text-xs text-destructive max-w-md truncate" title={error}>
+              {error}
+            </span>
+          )}
+          <Button variant="outline" size="sm" onClick={() => void refetch()} disabled={loading}>
+            <RefreshCw className={`h-3 w-3 mr-1 ${loading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+          <Button size="sm" className="gap-1" asChild>
+            <a href={csvUrl} download>
+              <Download className="h-3 w-3" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 px-6 py-3 border-b shrink-0">
+        <Select value={filters.dataSourceId ?? ALL} onValueChange={(v) => setFilter("dataSourceId", v)}>
+          <SelectTrigger className="h-8 w-48 text-xs">
+            <SelectValue placeholder="Data source" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All data sources</SelectItem>
+            {dataSources.map((ds) => (
+              <SelectItem key={ds.id} value={ds.id}>
+                {ds.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.status ?? ALL} onValueChange={(v) => setFilter("status", v)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {AUDIT_STATUSES.map((status) => (
+              <SelectItem key={status} value={status} className="capitalize">
+                {status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.feature ?? ALL} onValueChange={(v) => setFilter("feature", v)}>
+          <SelectTrigger className="h-8 w-44 text-xs">
+            <SelectValue placeholder="Feature" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All features</SelectItem>
+            {QUERY_FEATURES.map((feature) => (
+              <SelectItem key={feature} value={feature}>
+                {FEATURE_LABELS[feature]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          className="h-8 w-36 text-xs"
+          value={filters.from ?? ""}
+          onChange={(e) => setFilter("from", e.target.value)}
+          aria-label="From date"
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <Input
+          type="date"
+          className="h-8 w-36 text-xs"
+          value={filters.to ?? ""}
+          onChange={(e) => setFilter("to", e.target.value)}
+          aria-label="To date"
+        />
+      </div>
+
+      {/* Entries */}
+      <div className="flex-1 overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="whitespace-nowrap">Time</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Source</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Feature</TableHead>
+              <TableHead className="text-right">Rows</TableHead>
+              <TableHead className="text-right">ms</TableHead>
+              <TableHead>Query</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map((entry) => (
+              <Fragment key={entry.id}>
+                <TableRow
+                  className="cursor-pointer hover:bg-muted/50"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <TableCell className="whitespace-nowrap text-xs text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_VARIANTS[entry.status] ?? "outline"} className="capitalize">
+                      {entry.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">{entry.dataSourceName ?? "—"}</TableCell>
+                  <TableCell className="text-xs">{entry.userEmail ?? "—"}</TableCell>
+                  <TableCell className="text-xs">
+                    {entry.feature ? FEATURE_LABELS[entry.feature] : "—"}
+                  </TableCell>
+                  <TableCell className="text-right text-xs tabular-nums">
+                    {entry.rowCount ?? "—"}
+                  </TableCell>
+                  <TableCell className="text-right text-xs tabular-nums">
+                    {entry.executionTimeMs ?? "—"}
+                  </TableCell>
+                  <TableCell className="max-w-md truncate font-mono text-xs" title={entry.queryText}>
+                    {entry.queryText}
+                  </TableCell>
+                </TableRow>
+                {expandedId === entry.id && (
+                  <TableRow className="bg-muted/30 hover:bg-muted/30">
+                    <TableCell colSpan={8} className="space-y-2 py-3">
+                      <pre className="whitespace-pre-wrap break-all font-mono text-xs">
+                        {entry.queryText}
+                      </pre>
+                      {entry.queryParams && entry.queryParams.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Params: <code>{JSON.stringify(entry.queryParams)}</code>
+                        </p>
+                      )}
+                      {entry.errorMessage && (
+                        <p className="text-xs text-destructive">{entry.errorMessage}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {entry.threadId && <>Thread {entry.threadId} · </>}
+                        {entry.cacheStatus && <>Cache {entry.cacheStatus} · </>}
+                        Entry {entry.id}
+                      </p>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </Fragment>
+            ))}
+            {!loading && entries.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground py-12">
+                  No queries match these filters
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+        {hasMore && (
+          <div className="flex justify-center py-4">
+            <Button variant="outline" size="sm" onClick={() => void loadMore()} disabled={loading}>
+              {loading && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Load older entries
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -45,7 +45,8 @@ function renderDashboardItem(item: DashboardItem): React.ReactNode {
       </Card>
     );
   }
-  return <Component {...item.props} />;
+  // Tables that load more rows re-run their query — audited as a dashboard refresh
+  return <Component {...item.props} queryFeature="dashboard_refresh" />;
 }
 
 // ── Size hints based on component type ───────────────────────────────────────
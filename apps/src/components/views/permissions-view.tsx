@@ -3,6 +3,12 @@
 import { useState, useEffect } from "react";
 import { useAppContext } from "@/components/providers/app-context";
 import { useSchema, usePermissions } from "@/hooks/use-data-sources";
+import {
+  TABLE_KIND_LABELS,
+  MASKING_STRATEGIES,
+  MASKING_STRATEGY_LABELS,
+  type MaskingStrategy,
+} from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -15,6 +21,13 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Shield,
   Database,
@@ -31,13 +44,19 @@ interface LocalPermission {
   tableName: string;
   allowed: boolean;
   maskedColumns: string[];
+  maskingStrategies: Record<string, MaskingStrategy>;
+  rowFilter: string;
+  minGroupSize?: number;
   rowLimit: number;
 }
 
+/** Select value for a column that is not masked */
+const UNMASKED = "visible";
+
 export function PermissionsView() {
   const { activeDataSourceId } = useAppContext();
   const { schema } = useSchema(activeDataSourceId);
-  const { permissions, updatePermissions, loading } =
+  const { permissions, updatePermissions, loading, error } =
     usePermissions(activeDataSourceId);
   const [localPerms, setLocalPerms] = useState<LocalPermission[]>([]);
   const [saving, setSaving] = useState(false);
@@ -59,6 +78,15 @@ export function PermissionsView() {
           tableName: table.name,
           allowed: existing?.allowed ?? false,
           maskedColumns: existing?.maskedColumns ?? [],
+          // Columns masked before strategies existed are rejected
+          maskingStrategies: Object.fromEntries(
+            (existing?.maskedColumns ?? []).map((column) => [
+              column,
+              existing?.maskingStrategies?.[column] ?? "reject",
+            ]),
+          ),
+          rowFilter: existing?.rowFilter ?? "",
+          minGroupSize: existing?.minGroupSize,
           rowLimit: existing?.rowLimit ?? 1000,
         };
       }),
@@ -83,6 +111,41 @@ export function PermissionsView() {
     setSaved(false);
   };
 
+  const setMinGroupSize = (tableName: string, minGroupSize?: number) => {
+    setLocalPerms((prev) =>
+      prev.map((p) =>
+        p.tableName === tableName ? { ...p, minGroupSize } : p,
+      ),
+    );
+    setSaved(false);
+  };
+
+  const setRowFilter = (tableName: string, rowFilter: string) => {
+    setLocalPerms((prev) =>
+      prev.map((p) =>
+        p.tableName === tableName ? { ...p, rowFilter } : p,
+      ),
+    );
+    setSaved(false);
+  };
+
+  const setColumnMasking = (tableName: string, column: string, value: string) => {
+    setLocalPerms((prev) =>
+      prev.map((p) => {
+        if (p.tableName !== tableName) return p;
+        const maskingStrategies = { ...p.maskingStrategies };
+        if (value === UNMASKED) delete maskingStrategies[column];
+        else maskingStrategies[column] = value as MaskingStrategy;
+        return {
+          ...p,
+          maskingStrategies,
+          maskedColumns: Object.keys(maskingStrategies),
+        };
+      }),
+    );
+    setSaved(false);
+  };
+
   const toggleAllTables = (allowed: boolean) => {
     setLocalPerms((prev) => prev.map((p) => ({ ...p, allowed })));
     setSaved(false);
@@ -123,6 +186,11 @@ export function PermissionsView() {
           </Badge>
         </div>
         <div className="flex items-center gap-2">
+          {error && (
+            <span className="text-xs text-destructive max-w-md truncate" title={error}>
+              {error}
+            </span>
+          )}
           {saved && (
             <Badge variant="default" className="gap-1">
               <CheckCircle2 className="h-3 w-3" />
@@ -209,6 +277,11 @@ export function PermissionsView() {
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
+                        {table?.kind && table.kind !== "table" && (
+                          <Badge variant="outline" className="text-xs">
+                            {TABLE_KIND_LABELS[table.kind]}
+                          </Badge>
+                        )}
                         {perm.allowed ? (
                           <Badge variant="default" className="gap-1 text-xs">
                             <Eye className="h-3 w-3" />
@@ -244,6 +317,26 @@ export function PermissionsView() {
                             max={100000}
                           />
                         </div>
+                        <div className="flex items-center gap-2">
+                          <Label className="text-xs text-muted-foreground whitespace-nowrap">
+                            Min Group Size:
+                          </Label>
+                          <Input
+                            type="number"
+                            value={perm.minGroupSize ?? ""}
+                            onChange={(e) =>
+                              setMinGroupSize(
+                                perm.tableName,
+                                parseInt(e.target.value) || undefined,
+                              )
+                            }
+                            placeholder="Off"
+                            title="Only aggregate queries are allowed; groups with fewer rows are suppressed"
+                            className="w-20 h-7 text-xs"
+                            min={2}
+                            max={1000}
+                          />
+                        </div>
                         <div className="text-xs text-muted-foreground">
                           Columns:{" "}
                           <span className="font-mono">
@@ -255,6 +348,59 @@ export function PermissionsView() {
                           </span>
                         </div>
                       </div>
+                      <div className="mt-3 flex items-center gap-2">
+                        <Label className="text-xs text-muted-foreground whitespace-nowrap">
+                          Row Filter:
+                        </Label>
+                        <Input
+                          value={perm.rowFilter}
+                          onChange={(e) =>
+                            setRowFilter(perm.tableName, e.target.value)
+                          }
+                          placeholder="e.g. region = 'EU' or tenant_id = :userTenant"
+                          className="h-7 text-xs font-mono"
+                          maxLength={1000}
+                        />
+                      </div>
+                      {!!table?.columns.length && (
+                        <div className="mt-3 space-y-2">
+                          <Label className="text-xs text-muted-foreground">
+                            Column masking — redacted values never reach the AI
+                          </Label>
+                          <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
+                            {table.columns.map((column) => (
+                              <div
+                                key={column.name}
+                                className="flex items-center justify-between gap-2"
+                              >
+                                <span className="text-xs font-mono truncate">
+                                  {column.name}
+                                </span>
+                                <Select
+                                  value={
+                                    perm.maskingStrategies[column.name] ?? UNMASKED
+                                  }
+                                  onValueChange={(v) =>
+                                    setColumnMasking(perm.tableName, column.name, v)
+                                  }
+                                >
+                                  <SelectTrigger className="h-7 w-40 text-xs">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value={UNMASKED}>Visible</SelectItem>
+                                    {MASKING_STRATEGIES.map((strategy) => (
+                                      <SelectItem key={strategy} value={strategy}>
+                                        {MASKING_STRATEGY_LABELS[strategy]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </CardContent>
                   )}
                 </Card>
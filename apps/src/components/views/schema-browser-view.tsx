@@ -28,10 +28,11 @@ import {
   Database,
 } from "lucide-react";
 import { useState } from "react";
+import { TABLE_KIND_LABELS } from "@/lib/types";
 
 export function SchemaBrowserView() {
   const { activeDataSourceId } = useAppContext();
-  const { schema, loading, refreshSchema } = useSchema(activeDataSourceId);
+  const { schema, loading, progress, refreshSchema } = useSchema(activeDataSourceId);
   const [expandedTable, setExpandedTable] = useState<string | null>(null);
 
   if (!activeDataSourceId) {
@@ -55,6 +56,12 @@ export function SchemaBrowserView() {
           {schema && (
             <Badge variant="outline">{schema.tables.length} tables</Badge>
           )}
+          {progress && (
+            <Badge variant="secondary" className="gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              Loading columns {progress.tablesDone}/{progress.tablesTotal}
+            </Badge>
+          )}
         </div>
         <Button
           variant="outline"
@@ -100,7 +107,10 @@ export function SchemaBrowserView() {
                     <div>
                       <CardTitle className="text-base flex items-center gap-2">
                         <TableProperties className="h-4 w-4" />
-                        {table.schema ? `${table.schema}.` : ""}
+                        {/* Tables outside the default schema are already named "schema.table" */}
+                        {table.schema && !table.name.startsWith(`${table.schema}.`)
+                          ? `${table.schema}.`
+                          : ""}
                         {table.name}
                       </CardTitle>
                       <CardDescription className="text-xs mt-1">
@@ -110,6 +120,11 @@ export function SchemaBrowserView() {
                       </CardDescription>
                     </div>
                     <div className="flex gap-1">
+                      {table.kind && table.kind !== "table" && (
+                        <Badge variant="secondary" className="text-xs">
+                          {TABLE_KIND_LABELS[table.kind]}
+                        </Badge>
+                      )}
                       {table.relationships && table.relationships.length > 0 && (
                         <Badge variant="outline" className="text-xs gap-1">
                           <Link2 className="h-3 w-3" />
@@ -209,6 +224,17 @@ export function SchemaBrowserView() {
                         </div>
                       </div>
                     )}
+
+                    {table.definition && (
+                      <div className="mt-3 pt-3 border-t">
+                        <p className="text-xs font-medium text-muted-foreground mb-2">
+                          Definition
+                        </p>
+                        <pre className="text-xs font-mono bg-muted rounded p-2 overflow-x-auto whitespace-pre-wrap">
+                          {table.definition}
+                        </pre>
+                      </div>
+                    )}
                   </CardContent>
                 )}
               </Card>
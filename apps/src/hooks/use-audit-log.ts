@@ -0,0 +1,96 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import type { ApiResponse, AuditLogEntry, AuditStatus, QueryFeature } from "@/lib/types";
+
+/** Entries fetched per page */
+const PAGE_SIZE = 100;
+
+export interface AuditLogFilters {
+  dataSourceId?: string;
+  status?: AuditStatus;
+  feature?: QueryFeature;
+  /** YYYY-MM-DD, inclusive */
+  from?: string;
+  /** YYYY-MM-DD, inclusive */
+  to?: string;
+}
+
+interface UseAuditLogReturn {
+  entries: AuditLogEntry[];
+  loading: boolean;
+  error: string | null;
+  /** Whether an older page may exist */
+  hasMore: boolean;
+  loadMore: () => Promise<void>;
+  refetch: () => Promise<void>;
+  /** Download URL of the filtered log as CSV */
+  csvUrl: string;
+}
+
+/** /api/audit search params for the filters; date bounds cover whole days */
+function toSearchParams(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.dataSourceId) params.set("dataSourceId", filters.dataSourceId);
+  if (filters.status) params.set("status", filters.status);
+  if (filters.feature) params.set("feature", filters.feature);
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) {
+    const end = new Date(`${filters.to}T00:00:00`);
+    end.setDate(end.getDate() + 1);
+    params.set("to", end.toISOString());
+  }
+  return params;
+}
+
+export function useAuditLog(filters: AuditLogFilters): UseAuditLogReturn {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+
+  const search = toSearchParams(filters).toString();
+
+  const fetchPage = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams(search);
+        params.set("limit", String(PAGE_SIZE));
+        params.set("offset", String(offset));
+        const res = await fetch(`/api/audit?${params}`);
+        const json: ApiResponse<AuditLogEntry[]> = await res.json();
+        if (json.success && json.data) {
+          const page = json.data;
+          setEntries((prev) => (offset === 0 ? page : [...prev, ...page]));
+          setHasMore(page.length === PAGE_SIZE);
+        } else {
+          setError(json.error || "Failed to fetch the audit log");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [search]
+  );
+
+  useEffect(() => {
+    fetchPage(0);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => fetchPage(entries.length), [fetchPage, entries.length]);
+  const refetch = useCallback(() => fetchPage(0), [fetchPage]);
+
+  return {
+    entries,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    refetch,
+    csvUrl: `/api/audit?${search ? `${search}&` : ""}format=csv`,
+  };
+}
@@ -5,6 +5,9 @@ import type {
   DataSourceSafe,
   DatabaseSchema,
   DataSourcePermissions,
+  SchemaStreamEvent,
+  TableSchema,
+  MaskingStrategy,
 } from "@/lib/types";
 import type { ApiResponse } from "@/lib/types";
 
@@ -48,6 +51,7 @@ export function useDataSources() {
     username: string;
     password: string;
     ssl?: boolean;
+    schemas?: string[];
   }): Promise<DataSourceSafe | null> => {
     try {
       const res = await fetch(`${API_BASE}/data-sources`, {
@@ -86,7 +90,7 @@ export function useDataSources() {
 
   const testConnection = async (
     id: string
-  ): Promise<{ connected: boolean; error?: string }> => {
+  ): Promise<{ connected: boolean; error?: string; writeWarning?: string | null }> => {
     try {
       const res = await fetch(`${API_BASE}/data-sources/${id}`, {
         method: "POST",
@@ -119,56 +123,87 @@ export function useDataSources() {
 
 // ──── Schema ─────────────────────────────────────────────────────────────────
 
+/**
+ * Read an NDJSON schema stream, calling `onEvent` for each complete line.
+ * Resolves with the final schema, or throws the streamed error.
+ */
+async function readSchemaStream(
+  res: Response,
+  onEvent: (event: SchemaStreamEvent) => void
+): Promise<DatabaseSchema> {
+  if (!res.body || !res.headers.get("Content-Type")?.includes("ndjson")) {
+    // Errors before streaming starts (401, 404 ...) come back as plain JSON
+    const json: ApiResponse<DatabaseSchema> = await res.json();
+    throw new Error(json.error || "Failed to fetch schema");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const event: SchemaStreamEvent = JSON.parse(line);
+      if (event.type === "done") return event.schema;
+      if (event.type === "error") throw new Error(event.error);
+      onEvent(event);
+    }
+    if (done) throw new Error("Schema stream ended unexpectedly");
+  }
+}
+
 export function useSchema(dataSourceId: string | null) {
   const [schema, setSchema] = useState<DatabaseSchema | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** Set while a fresh introspection is streaming in */
+  const [progress, setProgress] =
+    useState<{ tablesDone: number; tablesTotal: number } | null>(null);
 
-  const fetchSchema = useCallback(async () => {
-    if (!dataSourceId) return;
-    setLoading(true);
-    setError(null);
-    try {
-      const res = await fetch(
-        `${API_BASE}/data-sources/${dataSourceId}/schema`
-      );
-      const json: ApiResponse<DatabaseSchema> = await res.json();
-      if (json.success && json.data) {
-        setSchema(json.data);
-      } else {
-        setError(json.error || "Failed to fetch schema");
+  /** Fetch via the streaming endpoint, exposing partial results as they arrive */
+  const loadSchema = useCallback(
+    async (method: "GET" | "POST") => {
+      if (!dataSourceId) return;
+      setLoading(true);
+      setError(null);
+      const partial = new Map<string, TableSchema>();
+      try {
+        const res = await fetch(
+          `${API_BASE}/data-sources/${dataSourceId}/schema?stream=1`,
+          { method }
+        );
+        const finalSchema = await readSchemaStream(res, (event) => {
+          if (event.type !== "progress") return;
+          for (const table of event.tables) partial.set(table.name, table);
+          setProgress({ tablesDone: event.tablesDone, tablesTotal: event.tablesTotal });
+          setSchema({
+            dataSourceId,
+            tables: [...partial.values()],
+            fetchedAt: new Date().toISOString(),
+          });
+        });
+        setSchema(finalSchema);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Network error");
+      } finally {
+        setProgress(null);
+        setLoading(false);
       }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Network error");
-    } finally {
-      setLoading(false);
-    }
-  }, [dataSourceId]);
+    },
+    [dataSourceId]
+  );
 
   useEffect(() => {
-    fetchSchema();
-  }, [fetchSchema]);
+    loadSchema("GET");
+  }, [loadSchema]);
 
-  const refreshSchema = async () => {
-    if (!dataSourceId) return;
-    setLoading(true);
-    try {
-      const res = await fetch(
-        `${API_BASE}/data-sources/${dataSourceId}/schema`,
-        { method: "POST" }
-      );
-      const json: ApiResponse<DatabaseSchema> = await res.json();
-      if (json.success && json.data) {
-        setSchema(json.data);
-      }
-    } catch {
-      // silent
-    } finally {
-      setLoading(false);
-    }
-  };
+  const refreshSchema = () => loadSchema("POST");
 
-  return { schema, loading, error, refreshSchema };
+  return { schema, loading, error, progress, refreshSchema };
 }
 
 // ──── Permissions ────────────────────────────────────────────────────────────
@@ -177,6 +212,7 @@ export function usePermissions(dataSourceId: string | null) {
   const [permissions, setPermissions] =
     useState<DataSourcePermissions | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const fetchPermissions = useCallback(async () => {
     if (!dataSourceId) return;
@@ -205,10 +241,14 @@ export function usePermissions(dataSourceId: string | null) {
       tableName: string;
       allowed: boolean;
       maskedColumns?: string[];
+      maskingStrategies?: Record<string, MaskingStrategy>;
+      rowFilter?: string;
+      minGroupSize?: number;
       rowLimit?: number;
     }[]
   ): Promise<boolean> => {
     if (!dataSourceId) return false;
+    setError(null);
     try {
       const res = await fetch(
         `${API_BASE}/data-sources/${dataSourceId}/permissions`,
@@ -223,11 +263,12 @@ export function usePermissions(dataSourceId: string | null) {
         setPermissions(json.data);
         return true;
       }
+      setError(json.error ?? "Failed to save permissions");
       return false;
     } catch {
       return false;
     }
   };
 
-  return { permissions, loading, updatePermissions, refresh: fetchPermissions };
+  return { permissions, loading, error, updatePermissions, refresh: fetchPermissions };
 }
@@ -0,0 +1,103 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import { getQueryContext } from "@/lib/tambo/tools";
+import type { ColumnType, QueryFeature, QueryResult, TableCellValue } from "@/lib/types";
+
+/** Rows fetched per "load more" */
+const PAGE_SIZE = 100;
+
+interface LoadedPages {
+  columns: string[];
+  columnTypes: ColumnType[];
+  rows: TableCellValue[][];
+}
+
+interface UseQueryPagesReturn {
+  /** Rows loaded from the server, replacing the initial ones — null until the first load */
+  pages: LoadedPages | null;
+  /** Whether the server may have more rows */
+  hasMore: boolean;
+  loading: boolean;
+  error: string | null;
+  /** Fetch the next page */
+  loadMore: () => Promise<void>;
+}
+
+/** Serialized values pass through; JSON values (arrays, documents) become JSON text */
+function toCell(value: unknown): TableCellValue {
+  if (value === null || value === undefined) return null;
+  return typeof value === "object" ? JSON.stringify(value) : (value as TableCellValue);
+}
+
+/**
+ * Page through a query's result with /api/query's continuation tokens.
+ *
+ * `initialRows` rows are already on screen (e.g. pasted by the AI). The first
+ * load re-runs the query for those plus one page, so the table shows the
+ * query's own columns and rows from then on; later loads follow the token.
+ * An expired token restarts the same way. Loads are audited under `feature`
+ * — in the chat, under the current thread too.
+ */
+export function useQueryPages(
+  dataSourceId: string | undefined,
+  query: string | undefined,
+  initialRows: number,
+  feature: QueryFeature = "chat"
+): UseQueryPagesReturn {
+  const [pages, setPages] = useState<LoadedPages | null>(null);
+  const [pageToken, setPageToken] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMore = useCallback(async () => {
+    if (!dataSourceId || !query) return;
+    setLoading(true);
+    setError(null);
+
+    const attribution =
+      feature === "chat" ? { threadId: getQueryContext().threadId, feature } : { feature };
+    const fetchPage = async (body: Record<string, unknown>) => {
+      const res = await fetch("/api/query", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ dataSourceId, ...attribution, ...body }),
+      });
+      return { status: res.status, json: await res.json() };
+    };
+
+    try {
+      const loaded = pages?.rows.length ?? initialRows;
+      let restarted = !pageToken;
+      let { status, json } = pageToken
+        ? await fetchPage({ pageToken })
+        : await fetchPage({ query, pageSize: loaded + PAGE_SIZE });
+      if (status === 404 && pageToken) {
+        restarted = true;
+        ({ status, json } = await fetchPage({ query, pageSize: loaded + PAGE_SIZE }));
+      }
+
+      if (!json.success) {
+        setError(json.error ?? "Failed to load more rows");
+        return;
+      }
+
+      const result = json.data as QueryResult;
+      const rows = result.rows.map((row) => result.columns.map((col) => toCell(row[col])));
+      setPages((prev) =>
+        restarted || !prev
+          ? { columns: result.columns, columnTypes: result.columnTypes, rows }
+          : { ...prev, rows: [...prev.rows, ...rows] }
+      );
+      setPageToken(result.nextPageToken ?? null);
+      setHasMore(!!result.nextPageToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Network error");
+    } finally {
+      setLoading(false);
+    }
+  }, [dataSourceId, query, initialRows, feature, pages, pageToken]);
+
+  return { pages, hasMore, loading, error, loadMore };
+}
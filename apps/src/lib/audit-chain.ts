@@ -0,0 +1,192 @@
+import crypto from "crypto";
+import type { AuditChainProblem } from "./types";
+
+/**
+ * Hash chain of the query audit log. Every entry stores a hash of its own
+ * content and of the entry before it (`prev_hash`), so editing an entry
+ * changes its hash and deleting one breaks the link of the entry after it.
+ * Archived entries keep their hashes, and the archive records the hashes at
+ * its ends — the chain runs on through archives into the live table.
+ *
+ * Hashes are HMACs keyed with ENCRYPTION_KEY: write access to the metadata
+ * database alone isn't enough to rebuild the chain over an edited log.
+ *
+ * Deleting entries off the end leaves no broken link, so the newest entry —
+ * the head — is also recorded apart from the log, under a MAC of its own,
+ * and a verification must pass through it.
+ */
+
+/** prev_hash of the first chained entry */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** Advisory lock held while the chain's end moves — appending or archiving */
+export const AUDIT_CHAIN_LOCK = 7_303_001;
+
+/** The audit log fields an entry's hash covers */
+export interface ChainedAuditFields {
+  id: string;
+  dataSourceId: string | null;
+  userId: string | null;
+  threadId: string | null;
+  feature: string | null;
+  queryText: string;
+  queryParams: unknown;
+  executionTimeMs: number | null;
+  rowCount: number | null;
+  status: string;
+  errorMessage: string | null;
+  cacheStatus: string | null;
+  createdAt: Date | string;
+}
+
+/** An audit log row as stored, and as written to archive files */
+export interface ChainedAuditRow extends ChainedAuditFields {
+  /** Position in the log, ascending in insertion order; gaps are harmless */
+  seq: number;
+  prevHash: string | null;
+  /** Null for entries written before the log was chained */
+  entryHash: string | null;
+}
+
+function chainKey(): Buffer {
+  const key = process.env.ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error("ENCRYPTION_KEY environment variable is not set");
+  }
+  // A key of its own, so audit hashes can't be matched against masked values
+  return crypto.createHmac("sha256", key).update("query-audit-chain").digest();
+}
+
+/** JSON with object keys sorted — JSONB reorders keys, the hash must not notice */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object" && !(value instanceof Date)) {
+    const record = value as Record<string, unknown>;
+    const keys = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** Hash of an entry that follows the entry hashed `prevHash` */
+export function hashAuditEntry(prevHash: string, entry: ChainedAuditFields): string {
+  const content = canonicalJson([
+    entry.id,
+    entry.dataSourceId ?? null,
+    entry.userId ?? null,
+    entry.threadId ?? null,
+    entry.feature ?? null,
+    entry.queryText,
+    entry.queryParams ?? null,
+    entry.executionTimeMs ?? null,
+    entry.rowCount ?? null,
+    entry.status,
+    entry.errorMessage ?? null,
+    entry.cacheStatus ?? null,
+    new Date(entry.createdAt).toISOString(),
+  ]);
+  return crypto.createHmac("sha256", chainKey()).update(`${prevHash}\n${content}`).digest("hex");
+}
+
+/** The newest entry of the chain, as recorded in the audit_chain_head row */
+export interface ChainHead {
+  seq: number;
+  hash: string;
+}
+
+/** MAC of a recorded chain head — a head pointing elsewhere can't be forged without the key */
+export function signChainHead(head: ChainHead): string {
+  return crypto.createHmac("sha256", chainKey()).update(`head\n${head.seq}\n${head.hash}`).digest("hex");
+}
+
+/** Progress of a verification through the chain, oldest entry first */
+export interface ChainWalk {
+  /** Hash the next chained entry must link to */
+  expected: string;
+  /** Whether a chained entry has been seen — unhashed entries after one are forged */
+  chained: boolean;
+  checked: number;
+  unchained: number;
+  last: ChainedAuditRow | null;
+  /** Recorded head the walk must pass through, and whether it has */
+  head: ChainHead | null;
+  headSeen: boolean;
+  problems: AuditChainProblem[];
+}
+
+export function startChainWalk(head: ChainHead | null = null): ChainWalk {
+  return {
+    expected: AUDIT_GENESIS_HASH,
+    chained: false,
+    checked: 0,
+    unchained: 0,
+    last: null,
+    head,
+    headSeen: false,
+    problems: [],
+  };
+}
+
+/** Mark the recorded head as reached when the entry `seq` hashed `hash` is it */
+export function passChainEnd(walk: ChainWalk, seq: number, hash: string): void {
+  if (walk.head && walk.head.seq === seq && walk.head.hash === hash) walk.headSeen = true;
+}
+
+/** Report a walk that ended without reaching the recorded head */
+export function finishChainWalk(walk: ChainWalk): void {
+  if (!walk.head || walk.headSeen) return;
+  walk.problems.push({
+    kind: "truncated",
+    seq: walk.head.seq,
+    message: `The chain ends before entry #${walk.head.seq}, its recorded head — the newest entries were deleted`,
+  });
+}
+
+/**
+ * Check the next rows of the chain, in seq order. The walk continues from
+ * each row's stored hash, so one edited or missing entry is reported once
+ * rather than failing everything after it. `archive` names the file the
+ * rows were read from.
+ */
+export function walkChain(walk: ChainWalk, rows: ChainedAuditRow[], archive?: string): void {
+  const where = archive ? ` (in ${archive})` : "";
+  for (const row of rows) {
+    if (!row.entryHash) {
+      if (walk.chained) {
+        walk.problems.push({
+          kind: "unhashed",
+          seq: row.seq,
+          archive,
+          message: `Entry #${row.seq}${where} has no hash — it was written around the chain`,
+        });
+      } else {
+        walk.unchained++;
+      }
+      continue;
+    }
+
+    walk.chained = true;
+    walk.checked++;
+    if (row.prevHash !== walk.expected) {
+      walk.problems.push({
+        kind: "broken_link",
+        seq: row.seq,
+        archive,
+        message: `Entry #${row.seq}${where} doesn't link to the entry before it — entries were deleted or reordered`,
+      });
+    }
+    if (hashAuditEntry(row.prevHash ?? "", row) !== row.entryHash) {
+      walk.problems.push({
+        kind: "modified",
+        seq: row.seq,
+        archive,
+        message: `Entry #${row.seq}${where} doesn't match its hash — it was modified`,
+      });
+    }
+    walk.expected = row.entryHash;
+    walk.last = row;
+    passChainEnd(walk, row.seq, row.entryHash);
+  }
+}
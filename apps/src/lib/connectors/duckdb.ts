@@ -0,0 +1,262 @@
+import { DuckDBInstance, type DuckDBConnection } from "@duckdb/node-api";
+import { describeColumn } from "../result-serialization";
+import { createPoolCache } from "./pool-cache";
+import { parseFileConnectionString, resolveDataFile } from "./local-files";
+import type {
+  ColumnType,
+  Connector,
+  DataSource,
+  DatabaseSchema,
+  TableSchema,
+  ColumnSchema,
+  Relationship,
+  ParsedConnectionString,
+} from "../types";
+
+type DuckDBRow = Record<string, unknown>;
+
+/**
+ * Parse a DuckDB connection string.
+ * Supports: duckdb:///path/to/file.duckdb (relative paths resolve against the data directory)
+ */
+export function parseDuckDBConnectionString(url: string): ParsedConnectionString {
+  return parseFileConnectionString(url, "duckdb");
+}
+
+/**
+ * Open a read-only DuckDB instance on a file inside the data directory.
+ * External access is disabled so SQL cannot reach other files (read_csv,
+ * ATTACH, COPY ...), and the configuration is locked so it cannot be SET back.
+ */
+export function openDuckDBInstance(dataSource: DataSource): Promise<DuckDBInstance> {
+  return DuckDBInstance.create(resolveDataFile(dataSource.database), {
+    access_mode: "READ_ONLY",
+    enable_external_access: "false",
+    lock_configuration: "true",
+  });
+}
+
+async function all(
+  conn: DuckDBConnection,
+  sql: string,
+  params?: unknown[]
+): Promise<{ columns: string[]; columnTypes: ColumnType[]; rows: DuckDBRow[] }> {
+  const reader = await conn.runAndReadAll(
+    sql,
+    params as Parameters<DuckDBConnection["runAndReadAll"]>[1]
+  );
+  const columns = reader.columnNames();
+  // JSON conversion renders BIGINT / DECIMAL / timestamps as strings, matching pg's behaviour
+  return {
+    columns,
+    columnTypes: reader.columnTypes().map((type, i) => describeColumn(columns[i], type.toString())),
+    rows: reader.getRowObjectsJson(),
+  };
+}
+
+/**
+ * Test that a DuckDB data source's file exists and is a readable database.
+ */
+export async function testDuckDBConnection(
+  dataSource: DataSource
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const instance = await openDuckDBInstance(dataSource);
+    try {
+      const conn = await instance.connect();
+      await all(conn, "SELECT 1");
+      conn.closeSync();
+    } finally {
+      instance.closeSync();
+    }
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown connection error",
+    };
+  }
+}
+
+/**
+ * Introspect the tables and views in the "main" schema of a DuckDB database file.
+ * Uses the duckdb_* catalog functions for row estimates, constraints and view SQL.
+ */
+export async function introspectDuckDBSchema(
+  dataSource: DataSource
+): Promise<DatabaseSchema> {
+  const instance = await openDuckDBInstance(dataSource);
+  const conn = await instance.connect();
+
+  try {
+    const { rows: tableRows } = await all(conn, `
+      SELECT table_name, estimated_size
+      FROM duckdb_tables()
+      WHERE schema_name = 'main' AND NOT internal
+      ORDER BY table_name
+    `);
+
+    const { rows: viewRows } = await all(conn, `
+      SELECT view_name, sql
+      FROM duckdb_views()
+      WHERE schema_name = 'main' AND NOT internal
+      ORDER BY view_name
+    `);
+
+    const { rows: columnRows } = await all(conn, `
+      SELECT table_name, column_name, data_type, is_nullable, column_default
+      FROM duckdb_columns()
+      WHERE schema_name = 'main' AND NOT internal
+      ORDER BY table_name, column_index
+    `);
+
+    const { rows: constraintRows } = await all(conn, `
+      SELECT table_name, constraint_type, constraint_column_names,
+             referenced_table, referenced_column_names
+      FROM duckdb_constraints()
+      WHERE schema_name = 'main'
+        AND constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+    `);
+
+    const relations = [
+      ...tableRows.map((row) => ({ name: String(row.table_name), row, view: false })),
+      ...viewRows.map((row) => ({ name: String(row.view_name), row, view: true })),
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    const tables: TableSchema[] = relations.map(({ name: tableName, row, view }) => {
+      const constraints = constraintRows.filter((c) => c.table_name === tableName);
+
+      const pkColumns = new Set(
+        constraints
+          .filter((c) => c.constraint_type === "PRIMARY KEY")
+          .flatMap((c) => c.constraint_column_names as string[])
+      );
+
+      // Composite foreign keys are flattened to one relationship per column pair
+      const fks = constraints
+        .filter((c) => c.constraint_type === "FOREIGN KEY")
+        .flatMap((c) =>
+          (c.constraint_column_names as string[]).map((fromColumn, i) => ({
+            fromColumn,
+            toTable: String(c.referenced_table),
+            toColumn: (c.referenced_column_names as string[])[i] ?? "",
+          }))
+        );
+
+      const columns: ColumnSchema[] = columnRows
+        .filter((col) => col.table_name === tableName)
+        .map((col) => {
+          const name = String(col.column_name);
+          const fk = fks.find((f) => f.fromColumn === name);
+          return {
+            name,
+            dataType: String(col.data_type).toLowerCase(),
+            nullable: Boolean(col.is_nullable),
+            isPrimaryKey: pkColumns.has(name),
+            isForeignKey: !!fk,
+            defaultValue: col.column_default != null ? String(col.column_default) : undefined,
+            references: fk ? { table: fk.toTable, column: fk.toColumn } : undefined,
+          };
+        });
+
+      const relationships: Relationship[] = fks.map((rel) => ({
+        ...rel,
+        type: "many-to-one" as const,
+      }));
+
+      return {
+        name: tableName,
+        schema: "main",
+        kind: view ? "view" as const : "table" as const,
+        definition: view ? String(row.sql) : undefined,
+        columns,
+        relationships,
+        rowCount: view ? undefined : Number(row.estimated_size ?? 0),
+      };
+    });
+
+    return {
+      dataSourceId: dataSource.id,
+      tables,
+      fetchedAt: new Date().toISOString(),
+    };
+  } finally {
+    conn.closeSync();
+    instance.closeSync();
+  }
+}
+
+// ──── Connector ──────────────────────────────────────────────────────────────
+
+const instances = createPoolCache<Promise<DuckDBInstance>>(async (pending) => {
+  (await pending).closeSync();
+});
+
+/** In-flight executions by queryId */
+const running = new Map<string, DuckDBConnection>();
+
+export const duckdbConnector: Connector = {
+  type: "duckdb",
+
+  dialect: {
+    name: "DuckDB",
+    queryKind: "sql",
+    defaultPort: 0,
+    defaultSchema: "main",
+    quoteIdentifier: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+    daysAgo: (days) => `NOW() - INTERVAL ${Math.floor(days)} DAY`,
+  },
+
+  parseConnectionString: parseDuckDBConnectionString,
+  testConnection: testDuckDBConnection,
+  introspect: introspectDuckDBSchema,
+
+  async execute(dataSource, query, options) {
+    if (query.kind !== "sql") {
+      throw new Error("DuckDB sources only accept SQL queries");
+    }
+    const pending = instances.get(dataSource.id, () => openDuckDBInstance(dataSource));
+    let instance: DuckDBInstance;
+    try {
+      instance = await pending;
+    } catch (err) {
+      // Don't keep a failed open cached for the idle TTL
+      await instances.close(dataSource.id);
+      throw err;
+    }
+
+    // One connection per execution so interrupt() only affects this query
+    const conn = await instance.connect();
+    if (options.queryId) running.set(options.queryId, conn);
+
+    // DuckDB has no statement timeout setting — interrupt the connection instead
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      conn.interrupt();
+    }, options.timeoutMs);
+
+    try {
+      const { columns, columnTypes, rows } = await all(conn, query.sql, query.params);
+      return { columns, columnTypes, rows, rowCount: rows.length };
+    } catch (err) {
+      if (timedOut) {
+        throw new Error(`Query exceeded the ${options.timeoutMs}ms timeout`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (options.queryId) running.delete(options.queryId);
+      conn.closeSync();
+    }
+  },
+
+  async cancel(queryId) {
+    const conn = running.get(queryId);
+    if (!conn) return false;
+    conn.interrupt();
+    return true;
+  },
+
+  close: (dataSourceId) => instances.close(dataSourceId),
+};
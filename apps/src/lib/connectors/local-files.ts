@@ -0,0 +1,120 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import type { ParsedConnectionString } from "../types";
+
+/**
+ * Root directory for file-backed data sources (SQLite / DuckDB).
+ * Registered paths must resolve inside it so a data source can never point
+ * the app at arbitrary files on the server.
+ */
+export function getLocalDataDir(): string {
+  return path.resolve(process.env.LOCAL_DATA_DIR || path.join(process.cwd(), "data"));
+}
+
+/** Directory that uploaded database files are written to */
+export function getUploadDir(): string {
+  return path.join(getLocalDataDir(), "uploads");
+}
+
+/** Each user's uploads live in their own subdirectory, named after them */
+export function getUserUploadDir(userId: string): string {
+  if (!/^[A-Za-z0-9_-]+$/.test(userId)) {
+    throw new Error("Invalid user id for an upload directory");
+  }
+  return path.join(getUploadDir(), userId);
+}
+
+/**
+ * Resolve a data source's file path against the data directory.
+ * Relative paths are taken relative to it; anything escaping it is rejected.
+ */
+export function resolveDataFile(filePath: string): string {
+  const dataDir = getLocalDataDir();
+  const resolved = path.resolve(dataDir, filePath);
+  const relative = path.relative(dataDir, resolved);
+  if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error(`Database files must be inside the data directory (${dataDir})`);
+  }
+  return resolved;
+}
+
+/** True when the file was uploaded through the app (and is owned by it) */
+export function isUploadedFile(filePath: string): boolean {
+  const relative = path.relative(getUploadDir(), path.resolve(getLocalDataDir(), filePath));
+  return !!relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+}
+
+/**
+ * The user an uploaded file belongs to — the upload subdirectory it sits
+ * in — or null for files outside one (including uploads from before files
+ * were kept per user).
+ */
+export function uploadOwner(filePath: string): string | null {
+  if (!isUploadedFile(filePath)) return null;
+  const relative = path.relative(getUploadDir(), path.resolve(getLocalDataDir(), filePath));
+  const parts = relative.split(path.sep);
+  return parts.length === 2 ? parts[0] : null;
+}
+
+/**
+ * Parse a file connection string into individual components.
+ * Supports: sqlite:///abs/path/file.db, sqlite://relative/file.db, or a bare path.
+ * The file path is stored in `database`; the network fields are unused.
+ */
+export function parseFileConnectionString(
+  url: string,
+  scheme: string
+): ParsedConnectionString {
+  const prefix = `${scheme}://`;
+  const filePath = url.startsWith(prefix)
+    ? decodeURIComponent(url.slice(prefix.length))
+    : url;
+  if (!filePath.trim()) {
+    throw new Error(`Missing file path in ${scheme} connection string`);
+  }
+  return {
+    host: "",
+    port: 0,
+    database: filePath.trim(),
+    username: "",
+    password: "",
+    ssl: false,
+  };
+}
+
+// ──── Uploads ────────────────────────────────────────────────────────────────
+
+/** Largest database file accepted through the upload endpoint */
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024; // 200 MB
+
+/** File header each engine writes, used to reject mislabelled uploads */
+const FILE_SIGNATURES: Record<"sqlite" | "duckdb", { offset: number; magic: string }> = {
+  sqlite: { offset: 0, magic: "SQLite format 3\0" },
+  duckdb: { offset: 8, magic: "DUCK" },
+};
+
+/**
+ * Store an uploaded SQLite / DuckDB file under the user's upload directory
+ * and return its path. Files get random names so uploads can never collide
+ * with, or overwrite, anything already on disk.
+ */
+export async function saveUploadedDatabaseFile(
+  type: "sqlite" | "duckdb",
+  contents: Buffer,
+  userId: string
+): Promise<string> {
+  if (contents.length > MAX_UPLOAD_BYTES) {
+    throw new Error(`File exceeds the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit`);
+  }
+  const { offset, magic } = FILE_SIGNATURES[type];
+  if (contents.subarray(offset, offset + magic.length).toString("latin1") !== magic) {
+    throw new Error(`File is not a ${type === "sqlite" ? "SQLite" : "DuckDB"} database`);
+  }
+
+  const uploadDir = getUserUploadDir(userId);
+  await mkdir(uploadDir, { recursive: true });
+  const filePath = path.join(uploadDir, `${randomUUID()}.${type === "sqlite" ? "db" : "duckdb"}`);
+  await writeFile(filePath, contents, { flag: "wx" });
+  return filePath;
+}
@@ -0,0 +1,40 @@
+const POOL_TTL_MS = 5 * 60 * 1000; // 5 minutes idle TTL
+
+/**
+ * Per-data-source cache of driver pools/clients so queries reuse connections.
+ * Stale entries are evicted lazily on each access instead of via setInterval.
+ */
+export function createPoolCache<T>(closePool: (pool: T) => Promise<void>) {
+  const cache = new Map<string, { pool: T; lastUsed: number }>();
+
+  function evictStale() {
+    const now = Date.now();
+    for (const [id, entry] of cache) {
+      if (now - entry.lastUsed > POOL_TTL_MS) {
+        closePool(entry.pool).catch(() => { });
+        cache.delete(id);
+      }
+    }
+  }
+
+  return {
+    get(dataSourceId: string, create: () => T): T {
+      evictStale();
+      const cached = cache.get(dataSourceId);
+      if (cached) {
+        cached.lastUsed = Date.now();
+        return cached.pool;
+      }
+      const pool = create();
+      cache.set(dataSourceId, { pool, lastUsed: Date.now() });
+      return pool;
+    },
+
+    async close(dataSourceId: string): Promise<void> {
+      const cached = cache.get(dataSourceId);
+      if (!cached) return;
+      cache.delete(dataSourceId);
+      await closePool(cached.pool).catch(() => { });
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import { postgresConnector } from "./postgres";
+import { mysqlConnector } from "./mysql";
+import { mongoConnector } from "./mongodb";
+import { sqliteConnector } from "./sqlite";
+import { duckdbConnector } from "./duckdb";
+import type { Connector, DatabaseType } from "../types";
+
+/**
+ * Connector registry keyed by DatabaseType.
+ * Built-in connectors are registered below; in-house connectors call
+ * registerConnector() once at startup instead of touching the services.
+ */
+const connectors = new Map<DatabaseType, Connector>();
+
+export function registerConnector(connector: Connector): void {
+  connectors.set(connector.type, connector);
+}
+
+/**
+ * Look up the connector for a data source type. Throws if none is registered.
+ */
+export function getConnector(type: DatabaseType): Connector {
+  const connector = connectors.get(type);
+  if (!connector) {
+    throw new Error(`Unsupported data source type: ${type}`);
+  }
+  return connector;
+}
+
+export function listConnectors(): Connector[] {
+  return [...connectors.values()];
+}
+
+registerConnector(postgresConnector);
+registerConnector(mysqlConnector);
+registerConnector(mongoConnector);
+registerConnector(sqliteConnector);
+registerConnector(duckdbConnector);
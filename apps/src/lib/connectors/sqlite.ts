@@ -0,0 +1,242 @@
+import sqlite3 from "sqlite3";
+import { parseFileConnectionString, resolveDataFile } from "./local-files";
+import type {
+  Connector,
+  DataSource,
+  DatabaseSchema,
+  TableSchema,
+  ColumnSchema,
+  Relationship,
+  ParsedConnectionString,
+} from "../types";
+
+type SqliteRow = Record<string, unknown>;
+
+/**
+ * Parse a SQLite connection string.
+ * Supports: sqlite:///path/to/file.db (relative paths resolve against the data directory)
+ */
+export function parseSqliteConnectionString(url: string): ParsedConnectionString {
+  return parseFileConnectionString(url, "sqlite");
+}
+
+/**
+ * Open a read-only handle on a SQLite file inside the data directory.
+ * OPEN_READONLY makes every write fail at the engine level, and without
+ * OPEN_CREATE a missing file is an error instead of a new empty database.
+ */
+export function openSqliteDatabase(dataSource: DataSource): Promise<sqlite3.Database> {
+  const filePath = resolveDataFile(dataSource.database);
+  return new Promise((resolve, reject) => {
+    const db = new sqlite3.Database(filePath, sqlite3.OPEN_READONLY, (err) =>
+      err ? reject(err) : resolve(db)
+    );
+  });
+}
+
+function all(db: sqlite3.Database, sql: string, params: unknown[] = []): Promise<SqliteRow[]> {
+  return new Promise((resolve, reject) => {
+    db.all<SqliteRow>(sql, params, (err, rows) => (err ? reject(err) : resolve(rows)));
+  });
+}
+
+function closeDatabase(db: sqlite3.Database): Promise<void> {
+  return new Promise((resolve) => db.close(() => resolve()));
+}
+
+/**
+ * Test that a SQLite data source's file exists and is a readable database.
+ */
+export async function testSqliteConnection(
+  dataSource: DataSource
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const db = await openSqliteDatabase(dataSource);
+    try {
+      // Opening is lazy — reading the schema verifies the file is actually SQLite
+      await all(db, "SELECT COUNT(*) FROM sqlite_master");
+    } finally {
+      await closeDatabase(db);
+    }
+    return { success: true };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown connection error",
+    };
+  }
+}
+
+/**
+ * Introspect the tables and views of a SQLite database file.
+ * Column and foreign key metadata come from the pragma table-valued functions
+ * joined against sqlite_master, so each is a single query for the whole file.
+ */
+export async function introspectSqliteSchema(
+  dataSource: DataSource
+): Promise<DatabaseSchema> {
+  const db = await openSqliteDatabase(dataSource);
+
+  try {
+    const tableRows = await all(db, `
+      SELECT name, type, sql FROM sqlite_master
+      WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%'
+      ORDER BY name
+    `);
+
+    const columnRows = await all(db, `
+      SELECT m.name AS table_name, p.name AS column_name, p.type AS data_type,
+             p."notnull" AS not_null, p.dflt_value AS column_default, p.pk AS pk
+      FROM sqlite_master m
+      JOIN pragma_table_info(m.name) p
+      WHERE m.type IN ('table', 'view') AND m.name NOT LIKE 'sqlite_%'
+      ORDER BY m.name, p.cid
+    `);
+
+    const fkRows = await all(db, `
+      SELECT m.name AS table_name, f."from" AS from_column,
+             f."table" AS to_table, f."to" AS to_column
+      FROM sqlite_master m
+      JOIN pragma_foreign_key_list(m.name) f
+      WHERE m.type = 'table' AND m.name NOT LIKE 'sqlite_%'
+    `);
+
+    const tables: TableSchema[] = [];
+
+    for (const tableRow of tableRows) {
+      const tableName = String(tableRow.name);
+      const fks = fkRows.filter((fk) => fk.table_name === tableName);
+
+      const columns: ColumnSchema[] = columnRows
+        .filter((col) => col.table_name === tableName)
+        .map((col) => {
+          const fk = fks.find((f) => f.from_column === col.column_name);
+          return {
+            name: String(col.column_name),
+            // Columns declared without a type have no affinity
+            dataType: String(col.data_type || "any").toLowerCase(),
+            nullable: !col.not_null && !col.pk,
+            isPrimaryKey: Number(col.pk) > 0,
+            isForeignKey: !!fk,
+            defaultValue: col.column_default != null ? String(col.column_default) : undefined,
+            references: fk
+              ? { table: String(fk.to_table), column: String(fk.to_column ?? "") }
+              : undefined,
+          };
+        });
+
+      const relationships: Relationship[] = fks.map((rel) => ({
+        fromColumn: String(rel.from_column),
+        toTable: String(rel.to_table),
+        toColumn: String(rel.to_column ?? ""),
+        type: "many-to-one" as const,
+      }));
+
+      if (tableRow.type === "view") {
+        // Counting a view would run its query — leave the row count unknown
+        tables.push({
+          name: tableName,
+          schema: "main",
+          kind: "view",
+          definition: String(tableRow.sql),
+          columns,
+          relationships,
+        });
+        continue;
+      }
+
+      // SQLite keeps no row estimates outside ANALYZE, so count directly
+      const [countRow] = await all(
+        db,
+        `SELECT COUNT(*) AS count FROM "${tableName.replace(/"/g, '""')}"`
+      );
+
+      tables.push({
+        name: tableName,
+        schema: "main",
+        kind: "table",
+        columns,
+        relationships,
+        rowCount: Number(countRow?.count ?? 0),
+      });
+    }
+
+    return {
+      dataSourceId: dataSource.id,
+      tables,
+      fetchedAt: new Date().toISOString(),
+    };
+  } finally {
+    await closeDatabase(db);
+  }
+}
+
+// ──── Connector ──────────────────────────────────────────────────────────────
+
+/**
+ * In-flight executions by queryId. Each execution opens its own handle —
+ * opening a file is cheap, and interrupt() aborts everything running on a
+ * handle, so sharing one would let a cancel hit unrelated queries.
+ */
+const running = new Map<string, sqlite3.Database>();
+
+export const sqliteConnector: Connector = {
+  type: "sqlite",
+
+  dialect: {
+    name: "SQLite",
+    queryKind: "sql",
+    defaultPort: 0,
+    defaultSchema: "main",
+    quoteIdentifier: (identifier) => `"${identifier.replace(/"/g, '""')}"`,
+    daysAgo: (days) => `datetime('now', '-${Math.floor(days)} days')`,
+  },
+
+  parseConnectionString: parseSqliteConnectionString,
+  testConnection: testSqliteConnection,
+  introspect: introspectSqliteSchema,
+
+  async execute(dataSource, query, options) {
+    if (query.kind !== "sql") {
+      throw new Error("SQLite sources only accept SQL queries");
+    }
+    const db = await openSqliteDatabase(dataSource);
+    if (options.queryId) running.set(options.queryId, db);
+
+    // SQLite has no statement timeout — interrupt the handle instead
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      db.interrupt();
+    }, options.timeoutMs);
+
+    try {
+      const rows = await all(db, query.sql, query.params);
+      return {
+        // node-sqlite3 exposes no column metadata, so empty results have no columns
+        columns: rows.length > 0 ? Object.keys(rows[0]) : [],
+        rows,
+        rowCount: rows.length,
+      };
+    } catch (err) {
+      if (timedOut) {
+        throw new Error(`Query exceeded the ${options.timeoutMs}ms timeout`);
+      }
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      if (options.queryId) running.delete(options.queryId);
+      await closeDatabase(db);
+    }
+  },
+
+  async cancel(queryId) {
+    const db = running.get(queryId);
+    if (!db) return false;
+    db.interrupt();
+    return true;
+  },
+
+  // Handles are per-execution, so there is nothing pooled to release
+  close: async () => { },
+};
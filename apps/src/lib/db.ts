@@ -1,5 +1,7 @@
 import { Pool, type PoolConfig } from "pg";
 import "./env"; // Validate env vars on first server-side import
+import { DATABASE_TYPES } from "./types";
+import { signChainHead, type ChainHead } from "./audit-chain";
 
 /**
  * Internal PostgreSQL connection pool for Tambo Lens metadata.
@@ -63,6 +65,7 @@ export async function initializeDatabase(): Promise<void> {
         password_hash TEXT NOT NULL,
         name VARCHAR(255) NOT NULL,
         is_demo BOOLEAN DEFAULT false,
+        attributes JSONB DEFAULT '{}',
         created_at TIMESTAMPTZ DEFAULT NOW()
       );
     `);
@@ -71,15 +74,21 @@ export async function initializeDatabase(): Promise<void> {
       CREATE TABLE IF NOT EXISTS data_sources (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         name VARCHAR(255) NOT NULL,
-        type VARCHAR(50) NOT NULL CHECK (type IN ('postgresql', 'mysql', 'mongodb')),
+        type VARCHAR(50) NOT NULL CHECK (type IN (${DATABASE_TYPES.map((t) => `'${t}'`).join(", ")})),
         host VARCHAR(500) NOT NULL,
         port INTEGER NOT NULL,
         database_name VARCHAR(255) NOT NULL,
         username VARCHAR(255) NOT NULL,
         encrypted_password TEXT NOT NULL,
         ssl BOOLEAN DEFAULT false,
+        schemas TEXT[] DEFAULT '{public}',
         status VARCHAR(50) DEFAULT 'disconnected',
         read_only BOOLEAN DEFAULT true,
+        write_warning TEXT,
+        cost_budget JSONB,
+        cache_ttl_seconds INTEGER,
+        query_quota JSONB,
+        user_query_quota JSONB,
         user_id UUID REFERENCES users(id) ON DELETE CASCADE,
         created_at TIMESTAMPTZ DEFAULT NOW(),
         updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -91,6 +100,9 @@ export async function initializeDatabase(): Promise<void> {
         table_name VARCHAR(500) NOT NULL,
         allowed BOOLEAN DEFAULT false,
         masked_columns TEXT[] DEFAULT '{}',
+        masking_strategies JSONB DEFAULT '{}',
+        row_filter TEXT,
+        min_group_size INTEGER,
         row_limit INTEGER DEFAULT 1000,
         created_at TIMESTAMPTZ DEFAULT NOW(),
         updated_at TIMESTAMPTZ DEFAULT NOW(),
@@ -126,7 +138,39 @@ export async function initializeDatabase(): Promise<void> {
         row_count INTEGER,
         status VARCHAR(50) DEFAULT 'success',
         error_message TEXT,
-        created_at TIMESTAMPTZ DEFAULT NOW()
+        cache_status VARCHAR(10),
+        thread_id VARCHAR(500),
+        feature VARCHAR(50),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        seq BIGSERIAL UNIQUE,
+        prev_hash CHAR(64),
+        entry_hash CHAR(64)
+      );
+
+      CREATE TABLE IF NOT EXISTS audit_archives (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        file_name VARCHAR(255) NOT NULL UNIQUE,
+        first_seq BIGINT NOT NULL,
+        last_seq BIGINT NOT NULL,
+        entry_count INTEGER NOT NULL,
+        prev_hash CHAR(64),
+        last_hash CHAR(64),
+        file_sha256 CHAR(64) NOT NULL,
+        archived_at TIMESTAMPTZ DEFAULT NOW()
+      );
+
+      CREATE TABLE IF NOT EXISTS saved_queries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        data_source_id UUID NOT NULL REFERENCES data_sources(id) ON DELETE CASCADE,
+        user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        name VARCHAR(255) NOT NULL,
+        description TEXT,
+        sql_text TEXT NOT NULL,
+        parameters JSONB DEFAULT '[]',
+        tags TEXT[] DEFAULT '{}',
+        thread_id VARCHAR(500),
+        created_at TIMESTAMPTZ DEFAULT NOW(),
+        updated_at TIMESTAMPTZ DEFAULT NOW()
       );
     `);
 
@@ -219,6 +263,174 @@ export async function initializeDatabase(): Promise<void> {
       END $$;
     `);
 
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'data_sources' AND column_name = 'schemas'
+        ) THEN
+          ALTER TABLE data_sources ADD COLUMN schemas TEXT[] DEFAULT '{public}';
+        END IF;
+      END $$;
+    `);
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'data_sources' AND column_name = 'write_warning'
+        ) THEN
+          ALTER TABLE data_sources ADD COLUMN write_warning TEXT;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'data_sources' AND column_name = 'cost_budget'
+        ) THEN
+          ALTER TABLE data_sources ADD COLUMN cost_budget JSONB;
+        END IF;
+      END $$;
+    `);
+
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'table_permissions' AND column_name = 'masking_strategies'
+        ) THEN
+          ALTER TABLE table_permissions ADD COLUMN masking_strategies JSONB DEFAULT '{}';
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'table_permissions' AND column_name = 'row_filter'
+        ) THEN
+          ALTER TABLE table_permissions ADD COLUMN row_filter TEXT;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'table_permissions' AND column_name = 'min_group_size'
+        ) THEN
+          ALTER TABLE table_permissions ADD COLUMN min_group_size INTEGER;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'data_sources' AND column_name = 'cache_ttl_seconds'
+        ) THEN
+          ALTER TABLE data_sources ADD COLUMN cache_ttl_seconds INTEGER;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'data_sources' AND column_name = 'query_quota'
+        ) THEN
+          ALTER TABLE data_sources ADD COLUMN query_quota JSONB;
+          ALTER TABLE data_sources ADD COLUMN user_query_quota JSONB;
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'query_audit_log' AND column_name = 'cache_status'
+        ) THEN
+          ALTER TABLE query_audit_log ADD COLUMN cache_status VARCHAR(10);
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'query_audit_log' AND column_name = 'thread_id'
+        ) THEN
+          ALTER TABLE query_audit_log ADD COLUMN thread_id VARCHAR(500);
+          ALTER TABLE query_audit_log ADD COLUMN feature VARCHAR(50);
+        END IF;
+      END $$;
+    `);
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'query_audit_log' AND column_name = 'entry_hash'
+        ) THEN
+          ALTER TABLE query_audit_log ADD COLUMN seq BIGSERIAL UNIQUE;
+          ALTER TABLE query_audit_log ADD COLUMN prev_hash CHAR(64);
+          ALTER TABLE query_audit_log ADD COLUMN entry_hash CHAR(64);
+        END IF;
+      END $$;
+    `);
+
+    // ── Chain head, kept apart from the log. Seeded from the chain's current
+    //    end when the table is first created; never re-seeded, so deleting
+    //    the row shows up when the chain is verified ──
+    const { rows: headTable } = await client.query<{ exists: boolean }>(
+      "SELECT to_regclass('audit_chain_head') IS NOT NULL AS exists"
+    );
+    if (!headTable[0].exists) {
+      await client.query(`
+        CREATE TABLE audit_chain_head (
+          id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+          last_seq BIGINT NOT NULL,
+          last_hash CHAR(64) NOT NULL,
+          mac CHAR(64) NOT NULL,
+          updated_at TIMESTAMPTZ DEFAULT NOW()
+        );
+      `);
+      // The chain ends at the newest chained entry, live or archived
+      const { rows: ends } = await client.query<ChainHead>(`
+        SELECT seq, hash FROM (
+          SELECT seq::float8 AS seq, entry_hash AS hash FROM query_audit_log WHERE entry_hash IS NOT NULL
+          UNION ALL
+          SELECT last_seq::float8, last_hash FROM audit_archives WHERE last_hash IS NOT NULL
+        ) chain_ends
+        ORDER BY seq DESC LIMIT 1
+      `);
+      const head = ends[0];
+      if (head) {
+        await client.query(
+          "INSERT INTO audit_chain_head (id, last_seq, last_hash, mac) VALUES (true, $1, $2, $3)",
+          [head.seq, head.hash, signChainHead(head)]
+        );
+      }
+    }
+    await client.query(`
+      DO $$ BEGIN
+        IF NOT EXISTS (
+          SELECT 1 FROM information_schema.columns
+          WHERE table_name = 'users' AND column_name = 'attributes'
+        ) THEN
+          ALTER TABLE users ADD COLUMN attributes JSONB DEFAULT '{}';
+        END IF;
+      END $$;
+    `);
+
+    // ── Keep the data source type CHECK in sync with the registered connector types ──
+    await client.query(`
+      ALTER TABLE data_sources DROP CONSTRAINT IF EXISTS data_sources_type_check;
+      ALTER TABLE data_sources ADD CONSTRAINT data_sources_type_check
+        CHECK (type IN (${DATABASE_TYPES.map((t) => `'${t}'`).join(", ")}));
+    `);
+
     await client.query("COMMIT");
   } catch (err) {
     await client.query("ROLLBACK");
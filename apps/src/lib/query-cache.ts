@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import type { DatabaseType, QueryResult } from "./types";
+import { scanSql } from "./sql-lexer";
+
+/**
+ * In-process cache of guarded query results. Identical questions — from
+ * chat, dashboard refreshes, "explain this" prompts — are answered without
+ * running the SQL against the source again.
+ *
+ * Keys cover everything that shapes a result: the data source, the
+ * normalized query and its params, the source's permissions and the
+ * querying user (row filters bind their attributes). Entries expire after
+ * the source's TTL and are dropped whenever its schema is re-introspected
+ * or its permissions change.
+ */
+
+/** TTL for sources that have not set their own; 0 turns caching off */
+export const DEFAULT_QUERY_CACHE_TTL_SECONDS = 60;
+
+const MAX_ENTRIES = 200;
+/** Larger results are not worth the memory — they are re-run instead */
+const MAX_CACHED_ROWS = 10_000;
+
+interface CacheEntry {
+  dataSourceId: string;
+  result: QueryResult;
+  /** The SQL that produced the result, for the audit log */
+  queryText: string;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Collapse whitespace in the SQL's code — string literals, quoted
+ * identifiers and comments are kept verbatim, since a newline can end a
+ * comment — and drop a trailing semicolon, so formatting differences share
+ * an entry.
+ */
+export function normalizeSql(sql: string, databaseType: DatabaseType = "postgresql"): string {
+  const text = sql.trim();
+  const segments = scanSql(text, databaseType);
+  let out = "";
+  segments.forEach((segment, i) => {
+    let part = text.slice(segment.start, segment.end);
+    if (segment.kind === "code") {
+      part = part.replace(/\s+/g, " ");
+      if (i === segments.length - 1) part = part.replace(/\s*;\s*$/, "");
+    }
+    out += part;
+  });
+  return out;
+}
+
+export function queryCacheKey(parts: {
+  dataSourceId: string;
+  /** The source's type, for how its SQL is tokenized (see normalizeSql) */
+  databaseType?: DatabaseType;
+  sql: string;
+  params?: unknown[];
+  /** Fingerprint of the source's permissions (see getPermissionFingerprint) */
+  permissions: string;
+  /** Who the query runs for, with the attributes row filters may bind */
+  user: Record<string, unknown> | null;
+}): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        parts.dataSourceId,
+        normalizeSql(parts.sql, parts.databaseType),
+        parts.params ?? [],
+        parts.permissions,
+        parts.user,
+      ])
+    )
+    .digest("hex");
+}
+
+export function getCachedResult(key: string): { result: QueryResult; queryText: string } | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  // Re-insert so eviction drops the least recently used entry
+  cache.delete(key);
+  cache.set(key, entry);
+  return { result: entry.result, queryText: entry.queryText };
+}
+
+export function setCachedResult(
+  key: string,
+  entry: { dataSourceId: string; result: QueryResult; queryText: string },
+  ttlSeconds: number
+): void {
+  if (ttlSeconds <= 0 || entry.result.rows.length > MAX_CACHED_ROWS) return;
+  cache.delete(key);
+  cache.set(key, { ...entry, expiresAt: Date.now() + ttlSeconds * 1000 });
+  while (cache.size > MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+/** Drop every cached result of a data source */
+export function invalidateQueryCache(dataSourceId: string): void {
+  for (const [key, entry] of cache) {
+    if (entry.dataSourceId === dataSourceId) cache.delete(key);
+  }
+}
@@ -1,146 +1,1554 @@
-import type { QueryValidation } from "./types";
-
-/** Reserved SQL keywords that are NEVER allowed in AI-generated queries. */
-const FORBIDDEN_KEYWORDS = [
-  "INSERT",
-  "UPDATE",
-  "DELETE",
-  "DROP",
-  "ALTER",
-  "CREATE",
-  "TRUNCATE",
-  "GRANT",
-  "REVOKE",
-  "EXECUTE",
-  "EXEC",
-  "CALL",
-  "MERGE",
-  "REPLACE",
-  "COPY",
-  "VACUUM",
-  "REINDEX",
-  "CLUSTER",
-  "COMMENT",
-  "LOCK",
-  "RESET",
-  "BEGIN",
-  "COMMIT",
-  "ROLLBACK",
-  "SAVEPOINT",
-  "PREPARE",
-  "DEALLOCATE",
-  "LISTEN",
-  "NOTIFY",
-  "LOAD",
-  "SECURITY",
-];
+import { Parser } from "node-sql-parser";
+import { scanSql } from "./sql-lexer";
+import type {
+  CostBudget,
+  DatabaseType,
+  MaskingStrategy,
+  QueryPlanEstimate,
+  QueryValidation,
+  SqlAccessRules,
+} from "./types";
 
 const MAX_QUERY_LENGTH = 5000;
 const DEFAULT_ROW_LIMIT = 1000;
+const MAX_SUBQUERY_DEPTH = 3;
+
+// ──── SQL Parsing ────────────────────────────────────────────────────────────
+// Guardrails work on the parsed statement rather than the raw text, so string
+// literals and comments can never trip a check, CTE names are told apart from
+// real tables, and every relation is seen however it is joined.
+
+const parser = new Parser();
+
+/** node-sql-parser grammar per source type — DuckDB's SQL is close to PostgreSQL's */
+const PARSER_DIALECTS: Partial<Record<DatabaseType, string>> = {
+  postgresql: "PostgresQL",
+  mysql: "MySQL",
+  sqlite: "Sqlite",
+  duckdb: "PostgresQL",
+};
+
+type AstNode = Record<string, unknown>;
+
+/**
+ * MySQL runs the body of `/*! ... *\/` comments and reads `/*+ ... *\/` as
+ * optimizer hints, while the parser drops both as comments — so the AST the
+ * guardrails check would not be what MySQL executes.
+ */
+function hasExecutableComment(sql: string, databaseType: DatabaseType): boolean {
+  if (databaseType !== "mysql") return false;
+  return scanSql(sql, databaseType).some(
+    (segment) => segment.kind === "comment" && /^\/\*[!+]/.test(sql.slice(segment.start, segment.end))
+  );
+}
+
+/** A column read by the query, with the relations it may come from */
+interface ColumnReference {
+  /** Column name, or "*" for star and whole-row references */
+  column: string;
+  relations: string[];
+  /** Inside an aggregate that never returns raw values (see isSafeAggregate) */
+  aggregated: boolean;
+  /** Select-list item the reference sits in: a result column, or a subquery / CTE's */
+  output?: OutputSlot | "nested";
+  /** A row as one value (`row_to_json(u)`, `SELECT u`) rather than a select-list `*` */
+  wholeRow?: boolean;
+}
+
+/** An item in the select list of a statement that produces the result */
+interface OutputSlot {
+  /** UNION branch (0 = first SELECT) and position in its select list */
+  branch: number;
+  index: number;
+  /** Result column name — the alias, or the column of a plain reference */
+  name: string | null;
+}
+
+/** Context a reference is walked in */
+interface RefContext {
+  aggregated: boolean;
+  output?: OutputSlot | "nested";
+  /** Walking a select-list item that is itself `*` or `t.*` */
+  starItem?: boolean;
+}
+
+/** Everything a statement reads, collected by walking its AST */
+interface SqlReferences {
+  /** Base relations, named per the introspection convention (CTEs excluded) */
+  tables: Set<string>;
+  columns: ColumnReference[];
+  /** Called functions, lower-cased and schema-qualified when written so */
+  functions: Set<string>;
+  /** Statement types other than SELECT found anywhere in the tree */
+  nonSelect: Set<string>;
+  selectInto: boolean;
+  lockingRead: boolean;
+  maxDepth: number;
+  /** Result column names per UNION branch (null for unaliased expressions and stars) */
+  resultBranches: { names: (string | null)[]; hasStar: boolean }[];
+}
+
+/** Name resolution state for one SELECT (correlated subqueries see their parents) */
+interface Scope {
+  parent?: Scope;
+  /** CTE names visible here */
+  ctes: Set<string>;
+  /** Alias (or bare table name) → relation name; null for CTEs and derived tables */
+  aliases: Map<string, string | null>;
+  relations: string[];
+  depth: number;
+}
+
+function parseStatements(sql: string, databaseType: DatabaseType): AstNode[] {
+  const ast = parser.astify(sql, {
+    database: PARSER_DIALECTS[databaseType] ?? "PostgresQL",
+  }) as unknown;
+  const statements = (Array.isArray(ast) ? ast : [ast]) as AstNode[];
+  repairJoinKeywords(statements);
+  repairDistinctFrom(statements, distinctFromOperands(sql, databaseType));
+  return statements;
+}
+
+const JOIN_KEYWORDS = new Set(["cross", "natural"]);
+
+/**
+ * The grammars read an unaliased `t CROSS JOIN u` as `t AS "CROSS" INNER JOIN u`
+ * with no ON clause — which prints back as a different, invalid query. Put
+ * the keyword back where it belongs.
+ */
+function repairJoinKeywords(node: unknown): void {
+  if (Array.isArray(node)) {
+    for (const child of node) repairJoinKeywords(child);
+    return;
+  }
+  const obj = asNode(node);
+  if (!obj) return;
+  if (Array.isArray(obj.from)) {
+    const from = obj.from as AstNode[];
+    from.forEach((item, i) => {
+      const next = from[i + 1];
+      const keyword = typeof item.as === "string" ? item.as.toLowerCase() : null;
+      if (keyword && JOIN_KEYWORDS.has(keyword) && next?.join === "INNER JOIN" && !next.on && !next.using) {
+        item.as = null;
+        next.join = `${keyword.toUpperCase()} JOIN`;
+      }
+    });
+  }
+  for (const value of Object.values(obj)) repairJoinKeywords(value);
+}
+
+/** One quoted or bare name in an `IS DISTINCT FROM` operand */
+const OPERAND_PART = `(?:"(?:[^"]|"")*"|'(?:[^']|'')*'|[A-Za-z_][A-Za-z0-9_$]*)`;
+const DISTINCT_FROM = new RegExp(
+  `\\bIS\\s+DISTINCT\\s+FROM\\s+(${OPERAND_PART}(?:\\s*\\.\\s*${OPERAND_PART})*)`,
+  "gi"
+);
+
+/**
+ * The operands of `a IS DISTINCT FROM <operand>` in `sql`, in order, as
+ * written — found outside literals and comments.
+ */
+function distinctFromOperands(sql: string, databaseType: DatabaseType): string[] {
+  // Blank out comments and the insides of quotes, keeping offsets, so only
+  // code can match while operands are still read from the original text
+  let code = "";
+  for (const segment of scanSql(sql, databaseType)) {
+    const text = sql.slice(segment.start, segment.end);
+    if (segment.kind === "code") code += text;
+    else if (segment.kind === "comment") code += " ".repeat(text.length);
+    else code += text[0] + "x".repeat(Math.max(text.length - 2, 0)) + (text.length > 1 ? text[text.length - 1] : "");
+  }
+  return [...code.matchAll(DISTINCT_FROM)].map((match) => {
+    const start = match.index! + match[0].length - match[1].length;
+    return sql.slice(start, start + match[1].length);
+  });
+}
+
+/**
+ * The PostgreSQL grammar reads `a IS DISTINCT FROM b` as `a IS <text>` with
+ * the operand folded into a quoted name — a string literal or a column
+ * alike. Rebuild the comparison from the operands as written (`operands`,
+ * in source order), so checks see the column and printing keeps it as is.
+ */
+function repairDistinctFrom(node: unknown, operands: string[]): void {
+  if (Array.isArray(node)) {
+    for (const child of node) repairDistinctFrom(child, operands);
+    return;
+  }
+  const obj = asNode(node);
+  if (!obj) return;
+  const right = asNode(obj.right);
+  if (
+    obj.type === "binary_expr" &&
+    obj.operator === "IS" &&
+    right?.type === "default" &&
+    typeof right.value === "string" &&
+    right.value.startsWith("DISTINCT FROM ")
+  ) {
+    const operand = operands.shift();
+    const parts = operand?.split(new RegExp(`(${OPERAND_PART})`)).filter((part, i) => i % 2 === 1) ?? [];
+    const unquote = (part: string) => part.slice(1, -1).replace(part[0] === '"' ? /""/g : /''/g, part[0]);
+    const printed = parts.map((part) => `"${/^["']/.test(part) ? unquote(part) : part}"`).join(".");
+    if (printed !== right.value.slice("DISTINCT FROM ".length)) {
+      throw new Error("Could not read the operand of IS DISTINCT FROM");
+    }
+    const last = parts[parts.length - 1];
+    obj.operator = "IS DISTINCT FROM";
+    if (parts.length === 1 && last.startsWith("'")) {
+      obj.right = { type: "single_quote_string", value: unquote(last) };
+    } else {
+      const names = parts.map((part) => (/^["']/.test(part) ? unquote(part) : part));
+      const column = names[names.length - 1];
+      obj.right = {
+        type: "column_ref",
+        ...(names.length > 2 && { schema: names[names.length - 3] }),
+        table: names.length > 1 ? names[names.length - 2] : null,
+        column: { expr: { type: last.startsWith('"') ? "double_quote_string" : "default", value: column } },
+      };
+    }
+  }
+  for (const value of Object.values(obj)) repairDistinctFrom(value, operands);
+}
+
+/** Condense a grammar error into "unexpected X at line L, column C" */
+function describeParseError(err: unknown): string {
+  const { found, location } = (err ?? {}) as {
+    found?: string | null;
+    location?: { start: { line: number; column: number } };
+  };
+  if (!location) return err instanceof Error ? err.message : String(err);
+  const near = found ? `unexpected "${found}"` : "unexpected end of query";
+  return `${near} at line ${location.start.line}, column ${location.start.column}`;
+}
+
+function asNode(value: unknown): AstNode | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as AstNode)
+    : null;
+}
+
+/** Identifiers appear as plain strings or as { value } / { expr: { value } } nodes */
+function identifier(value: unknown): string | null {
+  if (typeof value === "string") return value;
+  const node = asNode(value);
+  if (!node) return null;
+  if (typeof node.value === "string") return node.value;
+  return identifier(node.expr);
+}
+
+/**
+ * Aggregates whose result never repeats an input value: COUNT always, and
+ * numeric folds unless run as window functions (SUM() OVER (PARTITION BY id)
+ * would hand back each raw value).
+ */
+const SAFE_AGGREGATES = new Set([
+  "sum",
+  "avg",
+  "stddev",
+  "stddev_pop",
+  "stddev_samp",
+  "variance",
+  "var_pop",
+  "var_samp",
+]);
+
+/** Schema-qualified, lowercased name of a `function` node, e.g. "pg_catalog.pg_sleep" */
+function functionName(node: AstNode): string {
+  const name = asNode(node.name);
+  const parts = ((name?.name as unknown[] | undefined) ?? []).map(identifier);
+  const schema = identifier(name?.schema);
+  return [schema, ...parts].filter(Boolean).join(".").toLowerCase();
+}
+
+function isSafeAggregate(name: string, over: unknown): boolean {
+  return name === "count" || (SAFE_AGGREGATES.has(name) && !over);
+}
+
+/** Result column name of a select-list item, when it is knowable without running it */
+function outputName(item: AstNode): string | null {
+  const alias = identifier(item.as);
+  if (alias) return alias;
+  const expr = asNode(item.expr);
+  if (expr?.type !== "column_ref") return null;
+  const column = identifier(expr.column);
+  return column && column !== "*" ? column : null;
+}
+
+function isStarItem(item: AstNode): boolean {
+  const expr = asNode(item.expr);
+  return expr?.type === "column_ref" && identifier(expr.column) === "*";
+}
+
+/**
+ * Schema-qualified refs keep their schema unless it is the default one
+ * (public.users → users, sales.orders → sales.orders), so a grant on one
+ * schema's table never covers a same-named table in another schema.
+ */
+function relationKey(schema: string | null, table: string, defaultSchema: string): string {
+  const bare = table.toLowerCase();
+  return schema && schema.toLowerCase() !== defaultSchema.toLowerCase()
+    ? `${schema.toLowerCase()}.${bare}`
+    : bare;
+}
+
+/**
+ * Collect every relation, column and function a statement references.
+ * Throws if the SQL does not parse.
+ */
+function collectReferences(
+  statement: AstNode,
+  databaseType: DatabaseType,
+  defaultSchema: string
+): SqlReferences {
+  const refs: SqlReferences = {
+    tables: new Set(),
+    columns: [],
+    functions: new Set(),
+    nonSelect: new Set(),
+    selectInto: false,
+    lockingRead: false,
+    maxDepth: 0,
+    resultBranches: [],
+  };
+
+  const relationName = (schema: string | null, table: string): string =>
+    relationKey(schema, table, defaultSchema);
+
+  /** undefined = unknown alias, null = CTE / derived table, string = base relation */
+  const resolveAlias = (scope: Scope, alias: string): string | null | undefined => {
+    for (let s: Scope | undefined = scope; s; s = s.parent) {
+      if (s.aliases.has(alias)) return s.aliases.get(alias);
+    }
+    return undefined;
+  };
+
+  const visibleRelations = (scope: Scope): string[] => {
+    const all: string[] = [];
+    for (let s: Scope | undefined = scope; s; s = s.parent) all.push(...s.relations);
+    return all;
+  };
+
+  /** `branch` is set for the statement producing the result and its UNION branches */
+  const walkStatement = (
+    stmt: AstNode | null,
+    parent: Scope | undefined,
+    ctes: Set<string>,
+    branch?: number
+  ) => {
+    if (!stmt || stmt.type !== "select") {
+      refs.nonSelect.add(String(stmt?.type ?? "unknown"));
+      return;
+    }
+    if (asNode(stmt.into)?.expr) refs.selectInto = true;
+    if (stmt.locking_read) refs.lockingRead = true;
+
+    // A CTE body sees the CTEs defined before it — and itself, if recursive —
+    // so `WITH users AS (SELECT * FROM users)` still checks the real table
+    const visibleCtes = new Set(ctes);
+    for (const cte of (stmt.with as AstNode[] | undefined) ?? []) {
+      const name = (identifier(cte.name) ?? "").toLowerCase();
+      if (cte.recursive) visibleCtes.add(name);
+      const body = asNode(cte.stmt);
+      walkStatement(asNode(body?.ast) ?? body, parent, new Set(visibleCtes));
+      visibleCtes.add(name);
+    }
+
+    const scope: Scope = {
+      parent,
+      ctes: visibleCtes,
+      aliases: new Map(),
+      relations: [],
+      depth: (parent?.depth ?? -1) + 1,
+    };
+    refs.maxDepth = Math.max(refs.maxDepth, scope.depth);
+
+    const joinConditions: unknown[] = [];
+    for (const item of (stmt.from as AstNode[] | undefined) ?? []) {
+      const alias = typeof item.as === "string" ? item.as.toLowerCase() : null;
+      const table = identifier(item.table);
+      if (table) {
+        const schema = identifier(item.schema) ?? identifier(item.db);
+        const bare = table.toLowerCase();
+        if (!schema && visibleCtes.has(bare)) {
+          scope.aliases.set(alias ?? bare, null);
+        } else {
+          const relation = relationName(schema, table);
+          refs.tables.add(relation);
+          scope.relations.push(relation);
+          scope.aliases.set(alias ?? bare, relation);
+        }
+      } else if (item.expr) {
+        // Derived tables and table functions (LATERAL ones may read this scope)
+        walkNode(item.expr, scope);
+        if (alias) scope.aliases.set(alias, null);
+      }
+      if (item.on) joinConditions.push(item.on);
+    }
+    walkNode(joinConditions, scope);
+
+    // Select-list items are walked with their position so masking can tell
+    // result columns from subquery columns
+    const columns = Array.isArray(stmt.columns) ? (stmt.columns as AstNode[]) : null;
+    if (columns && branch !== undefined) {
+      refs.resultBranches[branch] = {
+        names: columns.map(outputName),
+        hasStar: columns.some(isStarItem),
+      };
+    }
+    columns?.forEach((item, index) =>
+      walkNode(item, scope, {
+        aggregated: false,
+        output: branch === undefined ? "nested" : { branch, index, name: outputName(item) },
+        starItem: isStarItem(item),
+      })
+    );
+
+    for (const [key, value] of Object.entries(stmt)) {
+      if (key === "with" || key === "from" || key === "_next" || key === "into") continue;
+      if (key === "columns" && columns) continue;
+      walkNode(value, scope);
+    }
+
+    // UNION / INTERSECT / EXCEPT branches share this statement's WITH clause
+    if (stmt._next) {
+      walkStatement(asNode(stmt._next), parent, visibleCtes, branch === undefined ? undefined : branch + 1);
+    }
+  };
+
+  const addColumn = (node: AstNode, scope: Scope, { starItem, ...ctx }: RefContext) => {
+    const column = identifier(node.column) ?? "";
+    const qualifier = identifier(node.table);
+    const schema = identifier(node.schema);
+    // Only a select-list `*` expands into result columns that can be masked
+    // one by one; anywhere else a star packs the whole row into one value
+    const wholeRow = column === "*" && !starItem;
+
+    if (schema && qualifier) {
+      refs.columns.push({ ...ctx, column, wholeRow, relations: [relationName(schema, qualifier)] });
+      return;
+    }
+    if (qualifier) {
+      const resolved = resolveAlias(scope, qualifier.toLowerCase());
+      if (resolved === null) return; // column of a CTE / derived table — checked at its source
+      refs.columns.push({
+        ...ctx,
+        column,
+        wholeRow,
+        relations: resolved ? [resolved] : visibleRelations(scope),
+      });
+      return;
+    }
+    if (column === "*") {
+      refs.columns.push({ ...ctx, column, wholeRow, relations: [...scope.relations] });
+      return;
+    }
+    // A bare table alias as a column is a whole-row reference: `SELECT u FROM users u`
+    const rowOf = resolveAlias(scope, column.toLowerCase());
+    if (rowOf) refs.columns.push({ ...ctx, column: "*", wholeRow: true, relations: [rowOf] });
+    refs.columns.push({ ...ctx, column, relations: visibleRelations(scope) });
+  };
+
+  const walkNode = (node: unknown, scope: Scope, ctx: RefContext = { aggregated: false }): void => {
+    if (Array.isArray(node)) {
+      for (const child of node) walkNode(child, scope, ctx);
+      return;
+    }
+    const obj = asNode(node);
+    if (!obj) return;
+
+    // Subqueries come wrapped as { tableList, columnList, ast }
+    if (asNode(obj.ast)) {
+      walkStatement(asNode(obj.ast), scope, scope.ctes);
+      return;
+    }
+
+    switch (obj.type) {
+      case "select":
+        walkStatement(obj, scope, scope.ctes);
+        return;
+      case "column_ref":
+        addColumn(obj, scope, ctx);
+        return;
+      case "double_quote_string":
+        // SQLite reads "x" as the column x when one exists
+        if (databaseType === "sqlite" && typeof obj.value === "string") {
+          addColumn({ column: obj.value }, scope, ctx);
+        }
+        return;
+      case "function": {
+        const qualified = functionName(obj);
+        refs.functions.add(qualified);
+        if (isSafeAggregate(qualified, obj.over)) ctx = { ...ctx, aggregated: true };
+        break;
+      }
+      case "aggr_func":
+        if (typeof obj.name === "string") {
+          refs.functions.add(obj.name.toLowerCase());
+          if (isSafeAggregate(obj.name.toLowerCase(), obj.over)) ctx = { ...ctx, aggregated: true };
+        }
+        break;
+    }
+
+    for (const [key, value] of Object.entries(obj)) {
+      if (key === "name") continue;
+      walkNode(value, scope, ctx);
+    }
+  };
+
+  walkStatement(statement, undefined, new Set(), 0);
+  return refs;
+}
+
+/** The SELECT whose LIMIT bounds the result — the last branch of a UNION */
+function lastBranch(statement: AstNode): AstNode {
+  let node = statement;
+  while (asNode(node._next)) node = asNode(node._next)!;
+  return node;
+}
+
+/**
+ * The outermost LIMIT clause and its parts. A bare `OFFSET n` is parsed as
+ * a one-value limit too, but bounds nothing — its count is null.
+ */
+function topLevelLimit(
+  statement: AstNode
+): { clause: AstNode; values: unknown[]; count: AstNode | null; countIndex: number } | null {
+  const clause = asNode(lastBranch(statement).limit);
+  const values = Array.isArray(clause?.value) ? (clause.value as unknown[]) : [];
+  if (!clause || values.length === 0) return null;
+  if (clause.seperator === "offset" && values.length === 1) {
+    return { clause, values, count: null, countIndex: 0 };
+  }
+  // MySQL's `LIMIT offset, count` puts the count second
+  const countIndex = clause.seperator === "," ? 1 : 0;
+  return { clause, values, count: asNode(values[countIndex]), countIndex };
+}
+
+function hasTopLevelLimit(statement: AstNode): boolean {
+  return !!topLevelLimit(statement)?.count;
+}
+
+// ──── Function & Catalog Rules ───────────────────────────────────────────────
+// A SELECT can still sleep, read server files, open outbound connections,
+// change settings or read credentials through functions and system catalogs.
+// These per-dialect defaults deny that surface; callers may pass their own.
+
+export const SQL_ACCESS_RULES: Partial<Record<DatabaseType, SqlAccessRules>> = {
+  postgresql: {
+    deniedFunctions: [
+      "pg_*", // pg_sleep, pg_read_file, pg_ls_dir, pg_terminate_backend, pg_reload_conf ...
+      "lo_*", // large objects: lo_import, lo_export, lo_get ...
+      "dblink*",
+      "set_config",
+      "current_setting",
+      "nextval",
+      "setval",
+      "txid_current",
+      "inet_server_addr",
+      "inet_server_port",
+      // Run arbitrary SQL or dump whole tables from a string argument
+      "query_to_xml*",
+      "table_to_xml*",
+      "cursor_to_xml*",
+      "schema_to_xml*",
+      "database_to_xml*",
+    ],
+    deniedSchemas: ["pg_catalog", "information_schema", "pg_toast"],
+    // pg_catalog is searched before public, so unqualified pg_* names hit it
+    deniedTables: ["pg_*"],
+  },
+  mysql: {
+    deniedFunctions: [
+      "sleep",
+      "benchmark",
+      "load_file",
+      "get_lock",
+      "release_lock",
+      "release_all_locks",
+      "is_free_lock",
+      "is_used_lock",
+      "master_pos_wait",
+      "source_pos_wait",
+      "sys_exec",
+      "sys_eval",
+    ],
+    deniedSchemas: ["information_schema", "mysql", "performance_schema", "sys"],
+    deniedTables: [],
+  },
+  sqlite: {
+    deniedFunctions: ["load_extension", "readfile", "writefile", "edit", "fts3_tokenizer", "pragma_*"],
+    deniedSchemas: ["temp"],
+    deniedTables: ["sqlite_*"],
+  },
+  duckdb: {
+    deniedFunctions: [
+      "read_*", // read_csv, read_parquet, read_json, read_text, read_blob ...
+      "sniff_csv",
+      "glob",
+      "parquet_*",
+      "iceberg_*",
+      "delta_*",
+      "duckdb_*", // duckdb_settings, duckdb_secrets ...
+      "pragma_*",
+      "getenv",
+      "current_setting",
+      "query",
+      "query_table",
+    ],
+    deniedSchemas: ["information_schema", "pg_catalog", "system", "temp"],
+    deniedTables: ["duckdb_*", "sqlite_*", "pragma_*"],
+  },
+};
+
+const NO_ACCESS_RULES: SqlAccessRules = { deniedFunctions: [], deniedSchemas: [], deniedTables: [] };
+
+function matchesAny(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    pattern.endsWith("*") ? name.startsWith(pattern.slice(0, -1)) : name === pattern
+  );
+}
+
+/** Whether a relation (named per the introspection convention) is a system catalog */
+function isCatalogRelation(table: string, rules: SqlAccessRules): boolean {
+  const dot = table.indexOf(".");
+  if (dot === -1) return matchesAny(table, rules.deniedTables);
+  return rules.deniedSchemas.includes(table.slice(0, dot));
+}
+
+/** Why a function call is not allowed under `rules`, or null if it is */
+function functionDenial(fn: string, rules: SqlAccessRules): string | null {
+  const bare = fn.slice(fn.lastIndexOf(".") + 1);
+  if (matchesAny(fn, rules.deniedFunctions) || matchesAny(bare, rules.deniedFunctions)) {
+    return `Function not allowed: ${fn}`;
+  }
+  if (rules.allowedFunctions && !matchesAny(bare, rules.allowedFunctions)) {
+    return `Function not in the allowlist: ${fn}`;
+  }
+  return null;
+}
+
+// ──── SQL Validation ─────────────────────────────────────────────────────────
+
+/** When several masked columns feed one result column, the strongest wins */
+const REDACTION_STRENGTH: Record<MaskingStrategy, number> = {
+  partial: 1,
+  hash: 2,
+  null: 3,
+  aggregate_only: 4,
+  reject: 5,
+};
+
+const REDACTION_VERBS: Record<MaskingStrategy, string> = {
+  partial: "partially redacted",
+  hash: "hashed",
+  null: "nulled out",
+  aggregate_only: "aggregates only",
+  reject: "rejected",
+};
 
 /**
  * Validate that a query is safe for read-only execution.
- * Enforces SELECT-only, no DDL/DML, row limits, and complexity checks.
+ * Parses the query with the source's SQL grammar and enforces a single
+ * SELECT statement, the dialect's function and catalog rules, the table
+ * allowlist, masked columns and row limits.
+ *
+ * `maskedColumns` maps tables to masked columns — a plain list rejects them,
+ * a column → strategy map applies each strategy (see MaskingStrategy).
+ *
+ * Table names follow the introspection convention: bare for tables in
+ * `defaultSchema`, "schema.table" for everything else.
  */
 export function validateQuery(
   sql: string,
   allowedTables: string[],
-  maskedColumns: Record<string, string[]> = {},
-  maxRows: number = DEFAULT_ROW_LIMIT
+  maskedColumns: Record<string, string[] | Record<string, MaskingStrategy>> = {},
+  maxRows: number = DEFAULT_ROW_LIMIT,
+  defaultSchema: string = "public",
+  databaseType: DatabaseType = "postgresql",
+  accessRules: SqlAccessRules = SQL_ACCESS_RULES[databaseType] ?? NO_ACCESS_RULES
 ): QueryValidation {
   const errors: string[] = [];
   const warnings: string[] = [];
-  const normalizedSql = sql.trim().toUpperCase();
 
   // 1. Length check
   if (sql.length > MAX_QUERY_LENGTH) {
     errors.push(`Query exceeds maximum length of ${MAX_QUERY_LENGTH} characters`);
     return { valid: false, errors, warnings };
   }
+  if (hasExecutableComment(sql, databaseType)) {
+    errors.push("MySQL executable comments and optimizer hints (/*! */, /*+ */) are not allowed");
+    return { valid: false, errors, warnings };
+  }
+
+  // 2. Parse — anything the grammar can't read is rejected rather than guessed at
+  let statements: AstNode[];
+  try {
+    statements = parseStatements(sql, databaseType);
+  } catch (err) {
+    errors.push(`Could not parse query: ${describeParseError(err)}`);
+    return { valid: false, errors, warnings };
+  }
+
+  // 3. Exactly one statement (SQL injection vector)
+  if (statements.length > 1) {
+    errors.push("Multiple statements are not allowed");
+    return { valid: false, errors, warnings };
+  }
 
-  // 2. Must be a SELECT statement
-  if (!normalizedSql.startsWith("SELECT")) {
+  // 4. SELECT only — including inside CTEs and subqueries
+  const statement = statements[0];
+  const refs = collectReferences(statement, databaseType, defaultSchema);
+  if (refs.nonSelect.size > 0) {
     errors.push("Only SELECT queries are permitted");
     return { valid: false, errors, warnings };
   }
+  if (refs.selectInto) {
+    errors.push("SELECT INTO is not allowed");
+  }
+  if (refs.lockingRead) {
+    errors.push("Row-locking clauses (FOR UPDATE / FOR SHARE) are not allowed");
+  }
+
+  // 5. Function rules — sleeps, file / network access, settings, dynamic SQL
+  for (const fn of refs.functions) {
+    const denial = functionDenial(fn, accessRules);
+    if (denial) errors.push(denial);
+  }
+
+  // 6. Check table access authorization — system catalogs are never readable,
+  //    even if a granted table shares a catalog's name
+  const allowedTablesLower = allowedTables.map((t) => t.toLowerCase());
+  for (const table of refs.tables) {
+    if (isCatalogRelation(table, accessRules)) {
+      errors.push(`Access to system catalog denied: ${table}`);
+    } else if (!allowedTablesLower.includes(table)) {
+      errors.push(`Access denied to table: ${table}`);
+    }
+  }
+
+  // 7. Masked columns, by strategy. "reject" refuses any mention, including
+  //    via * and whole-row refs; redacting strategies are resolved to the
+  //    result columns they end up in, for applyResultMasks after execution —
+  //    a select-list * by column, whole-row values not at all
+  const masksByTable = new Map(
+    Object.entries(maskedColumns).map(([table, columns]) => [
+      table.toLowerCase(),
+      new Map<string, MaskingStrategy>(
+        Array.isArray(columns)
+          ? columns.map((c) => [c.toLowerCase(), "reject"])
+          : Object.entries(columns).map(([c, strategy]) => [c.toLowerCase(), strategy])
+      ),
+    ])
+  );
+  const resultMasks: Record<string, MaskingStrategy> = {};
+  const reported = new Set<string>();
+  const report = (message: string) => {
+    if (!reported.has(message)) {
+      reported.add(message);
+      errors.push(message);
+    }
+  };
+
+  for (const ref of refs.columns) {
+    for (const table of ref.relations) {
+      const masks = masksByTable.get(table);
+      if (!masks || masks.size === 0) continue;
+      const star = ref.column === "*";
+      const exposed = star
+        ? [...masks]
+        : masks.has(ref.column.toLowerCase())
+          ? [[ref.column, masks.get(ref.column.toLowerCase())!] as const]
+          : [];
+
+      for (const [column, strategy] of exposed) {
+        if (strategy === "reject") {
+          report(
+            star
+              ? `Selecting all columns of "${table}" would expose masked columns — list the columns explicitly`
+              : `Access to masked column "${column}" in table "${table}" is not allowed`
+          );
+          continue;
+        }
+        if (ref.aggregated) continue;
+        // row_to_json(u), to_jsonb(users), json_agg(t): the masked values are
+        // inside one result value, under no column name they could be masked by
+        if (ref.wholeRow) {
+          report(
+            `Whole-row references to "${table}" would expose its masked columns — select the columns explicitly`
+          );
+          continue;
+        }
+        if (strategy === "aggregate_only") {
+          report(
+            star
+              ? `Selecting all columns of "${table}" would expose aggregate-only columns — list the columns explicitly`
+              : `Masked column "${column}" in table "${table}" can only be used inside COUNT(), SUM() or AVG()`
+          );
+          continue;
+        }
+        // Filtering, joining and grouping on a redacted column is fine — only
+        // values that reach the result need redacting
+        if (!ref.output) continue;
+        if (ref.output === "nested") {
+          report(
+            `Masked column "${column}" in table "${table}" can only be selected in the outermost SELECT, where its values are redacted`
+          );
+          continue;
+        }
+
+        // Later UNION branches take their column names from the first one
+        const first = refs.resultBranches[0];
+        const name = ref.output.branch === 0
+          ? star ? column : ref.output.name
+          : star || first?.hasStar ? null : first?.names[ref.output.index] ?? null;
+        if (!name) {
+          report(
+            ref.output.branch === 0
+              ? `Give the expression using masked column "${column}" in table "${table}" an alias so its values can be redacted`
+              : `Masked column "${column}" in table "${table}" cannot be redacted in this UNION — select it by name in the first SELECT`
+          );
+          continue;
+        }
+        const key = name.toLowerCase();
+        const current = resultMasks[key];
+        if (!current || REDACTION_STRENGTH[strategy] > REDACTION_STRENGTH[current]) {
+          resultMasks[key] = strategy;
+        }
+      }
+    }
+  }
+  for (const [column, strategy] of Object.entries(resultMasks)) {
+    warnings.push(`Values in result column "${column}" are masked (${REDACTION_VERBS[strategy]})`);
+  }
+
+  // 8. Auto-LIMIT enforcement
+  if (!hasTopLevelLimit(statement)) {
+    warnings.push(
+      `No LIMIT clause detected. Results will be capped at ${maxRows} rows.`
+    );
+  }
+
+  // 9. Subquery depth check
+  if (refs.maxDepth > MAX_SUBQUERY_DEPTH) {
+    warnings.push("Complex subquery nesting detected. Consider simplifying.");
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+    tables: [...refs.tables],
+    ...(Object.keys(resultMasks).length > 0 && { resultMasks }),
+  };
+}
+
+/**
+ * Cap a query at maxRows rows, on its outermost SELECT — a LIMIT inside a
+ * subquery, CTE or UNION branch never counts. A literal LIMIT within the cap
+ * is left as written, a query without one gets one appended, and a larger
+ * literal (or LIMIT ALL, or a bare OFFSET) is clamped in the parsed
+ * statement. Only queries that can't be handled that way — a bound
+ * parameter as the count, or SQL that doesn't parse — are wrapped in an
+ * outer SELECT, which fails on duplicate column names.
+ */
+export function enforceLimit(
+  sql: string,
+  maxRows: number = DEFAULT_ROW_LIMIT,
+  databaseType: DatabaseType = "postgresql",
+  defaultSchema: string = "public",
+  knownTables: string[] = []
+): string {
+  // Own lines, so a trailing -- comment can't swallow what follows
+  const inner = sql.trim().replace(/;$/, "");
+  const wrapped = `SELECT * FROM (\n${inner}\n) AS lens_capped LIMIT ${maxRows}`;
+
+  let statement: AstNode;
+  try {
+    statement = parseStatements(sql, databaseType)[0];
+  } catch {
+    // Validation rejects unparseable SQL; wrapping it is safe regardless
+    return wrapped;
+  }
+  const limit = topLevelLimit(statement);
+  if (!limit) return `${inner}\nLIMIT ${maxRows}`;
+
+  const { clause, values, count, countIndex } = limit;
+  if (count?.type === "number" && typeof count.value === "number" && count.value <= maxRows) return sql;
+  const unbounded = count?.type === "origin" && String(count.value).toLowerCase() === "all";
+  if (count && count.type !== "number" && !unbounded) return wrapped;
+
+  const capped = { type: "number", value: maxRows };
+  clause.value = count ? values.map((v, i) => (i === countIndex ? capped : v)) : [capped, values[0]];
+  try {
+    return printStatement(statement, databaseType, defaultSchema, knownTables, [sql]);
+  } catch {
+    return wrapped;
+  }
+}
+
+/**
+ * The row cap for a query: the lowest rowLimit among the tables it reads.
+ * `rowLimits` maps table names (introspection convention) to their limit;
+ * a query that reads none of them — or does not parse — gets `fallback`.
+ */
+export function effectiveRowLimit(
+  sql: string,
+  rowLimits: Record<string, number>,
+  databaseType: DatabaseType = "postgresql",
+  defaultSchema: string = "public",
+  fallback: number = DEFAULT_ROW_LIMIT
+): number {
+  let tables: Set<string>;
+  try {
+    tables = collectReferences(parseStatements(sql, databaseType)[0], databaseType, defaultSchema).tables;
+  } catch {
+    return fallback;
+  }
+  const limits = Object.entries(rowLimits)
+    .filter(([table]) => tables.has(table.toLowerCase()))
+    .map(([, limit]) => limit);
+  return limits.length > 0 ? Math.min(...limits) : fallback;
+}
+
+// ──── Row-Level Security ─────────────────────────────────────────────────────
+// Row filters are injected by rewriting the parsed statement: every read of a
+// filtered table — in joins, subqueries and CTE bodies alike — becomes a
+// derived table holding only the rows its filter admits, under the name the
+// query already uses for the table. Queries that read no filtered table are
+// passed through untouched.
+
+/** Values a row filter's :placeholders can be bound to */
+export type RowFilterValues = Record<string, string | number | boolean>;
+
+/** Grammars that fold unquoted identifiers to lower case */
+const FOLDS_IDENTIFIERS: DatabaseType[] = ["postgresql", "duckdb"];
+
+/** Parse a row filter into `SELECT * FROM t WHERE <filter>`, or throw why it isn't one */
+function parseRowFilter(filter: string, databaseType: DatabaseType): AstNode {
+  let statements: AstNode[];
+  try {
+    statements = parseStatements(`SELECT * FROM t WHERE ${filter}`, databaseType);
+  } catch (err) {
+    throw new Error(`Could not parse row filter: ${describeParseError(err)}`);
+  }
+  const [select] = statements;
+  if (
+    statements.length !== 1 ||
+    select.type !== "select" ||
+    select._next ||
+    select.groupby ||
+    select.having ||
+    select.orderby ||
+    select.window ||
+    hasTopLevelLimit(select)
+  ) {
+    throw new Error("A row filter must be a single boolean condition, as written after WHERE");
+  }
+
+  const refs = collectReferences(select, databaseType, "");
+  if (refs.nonSelect.size > 0) {
+    throw new Error("Row filters may only contain SELECT subqueries");
+  }
+  return select;
+}
+
+/** Replace :placeholders with literals; positional parameters are refused */
+function bindPlaceholders(
+  node: unknown,
+  values: RowFilterValues,
+  databaseType: DatabaseType
+): unknown {
+  if (Array.isArray(node)) return node.map((child) => bindPlaceholders(child, values, databaseType));
+  const obj = asNode(node);
+  if (!obj) return node;
+
+  if ((obj.type === "var" && obj.prefix === "$") || (obj.type === "origin" && obj.value === "?")) {
+    throw new Error("Row filters cannot use positional parameters — use :name placeholders");
+  }
+  if (obj.type === "param" && typeof obj.value === "string") {
+    const value = values[obj.value];
+    if (value === undefined) {
+      throw new Error(`Row filter placeholder :${obj.value} has no value for this user`);
+    }
+    if (typeof value === "boolean") return { type: "bool", value };
+    if (typeof value === "number") {
+      if (!Number.isFinite(value)) throw new Error(`Row filter placeholder :${obj.value} is not a finite number`);
+      return { type: "number", value };
+    }
+    // The parser keeps string literals in their escaped form, so escape here
+    let text = value.replace(/'/g, "''");
+    if (databaseType === "mysql") text = text.replace(/\\/g, "\\\\");
+    return { type: "single_quote_string", value: text };
+  }
+
+  return Object.fromEntries(
+    Object.entries(obj).map(([key, value]) => [key, bindPlaceholders(value, values, databaseType)])
+  );
+}
+
+/**
+ * Check a row filter before it is saved. Returns a description of the
+ * problem, or null if the filter can be applied. Placeholders are not bound,
+ * since their values depend on who runs the query.
+ */
+export function validateRowFilter(filter: string, databaseType: DatabaseType): string | null {
+  try {
+    const select = parseRowFilter(filter, databaseType);
+    const sample = new Proxy({} as RowFilterValues, { get: () => "" });
+    bindPlaceholders(select.where, sample, databaseType);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/** Identifiers `sql` writes in double quotes, as written (`"Total"` → Total) */
+function quotedIdentifiers(sql: string, databaseType: DatabaseType): Set<string> {
+  return new Set(
+    scanSql(sql, databaseType)
+      .filter((segment) => segment.kind === "quoted" && sql[segment.start] === '"')
+      .map((segment) => sql.slice(segment.start + 1, segment.end - 1).replace(/""/g, '"'))
+  );
+}
+
+/**
+ * Grammars that fold identifiers would read the printed, quoted names case-
+ * sensitively — so spell tables as introspected and fold the names the
+ * query left unquoted, as the database would have. Names in `quoted` were
+ * written in double quotes and keep their case.
+ */
+function foldIdentifiers(
+  node: unknown,
+  knownTables: Map<string, string>,
+  quoted: Set<string>,
+  defaultSchema: string,
+  databaseType: DatabaseType
+): void {
+  if (Array.isArray(node)) {
+    for (const child of node) foldIdentifiers(child, knownTables, quoted, defaultSchema, databaseType);
+    return;
+  }
+  const obj = asNode(node);
+  if (!obj) return;
+  const fold = (name: string) => (quoted.has(name) ? name : name.toLowerCase());
+
+  if (obj.type === "select") {
+    for (const cte of (obj.with as AstNode[] | undefined) ?? []) {
+      const name = asNode(cte.name);
+      if (typeof name?.value === "string") name.value = fold(name.value);
+    }
+    for (const item of (obj.from as AstNode[] | undefined) ?? []) {
+      const table = identifier(item.table);
+      if (table && typeof item.table === "string") {
+        const schema = identifier(item.schema) ?? identifier(item.db);
+        const known = knownTables.get(relationKey(schema, table, defaultSchema));
+        if (known) item.table = known.includes(".") ? known.slice(known.indexOf(".") + 1) : known;
+        else item.table = fold(table);
+        item.as = fold(typeof item.as === "string" ? item.as : table);
+      } else if (typeof item.as === "string") {
+        item.as = fold(item.as);
+      }
+    }
+    // PostgreSQL names unquoted result columns in lower case; DuckDB keeps them as written
+    if (databaseType === "postgresql" && Array.isArray(obj.columns)) {
+      for (const item of obj.columns as AstNode[]) {
+        if (typeof item.as === "string") item.as = fold(item.as);
+      }
+    }
+  } else if (obj.type === "column_ref" && typeof obj.table === "string") {
+    obj.table = fold(obj.table);
+    delete obj.schema;
+  }
+
+  for (const value of Object.values(obj)) {
+    foldIdentifiers(value, knownTables, quoted, defaultSchema, databaseType);
+  }
+}
+
+/**
+ * Print a rewritten statement back as SQL in the source's grammar. `sources`
+ * are the texts it was parsed from — the query, and any row filters spliced in.
+ */
+function printStatement(
+  statement: AstNode,
+  databaseType: DatabaseType,
+  defaultSchema: string,
+  knownTables: string[],
+  sources: string[]
+): string {
+  if (FOLDS_IDENTIFIERS.includes(databaseType)) {
+    const known = new Map(knownTables.map((t) => [t.toLowerCase(), t]));
+    const quoted = new Set(sources.flatMap((sql) => [...quotedIdentifiers(sql, databaseType)]));
+    foldIdentifiers(statement, known, quoted, defaultSchema, databaseType);
+  }
+  return parser.sqlify(statement as unknown as Parameters<Parser["sqlify"]>[0], {
+    database: PARSER_DIALECTS[databaseType] ?? "PostgresQL",
+  });
+}
+
+/**
+ * Restrict every read of a filtered table to the rows its filter admits.
+ * `rowFilters` maps table names (introspection convention) to filters,
+ * `values` binds their :placeholders and `knownTables` lists the tables
+ * as introspected. Expects SQL that passed validateQuery; throws if a
+ * filter cannot be applied — most often a placeholder without a value.
+ */
+export function applyRowFilters(
+  sql: string,
+  rowFilters: Record<string, string>,
+  values: RowFilterValues,
+  databaseType: DatabaseType = "postgresql",
+  defaultSchema: string = "public",
+  knownTables: string[] = []
+): string {
+  const filters = new Map(
+    Object.entries(rowFilters).map(([table, filter]) => [table.toLowerCase(), filter])
+  );
+  if (filters.size === 0) return sql;
+
+  const statement = parseStatements(sql, databaseType)[0];
+  const bound = new Map<string, unknown>();
+  let applied = false;
+
+  /** A derived table standing in for `item`, keeping its alias and join */
+  const filteredRelation = (item: AstNode, relation: string, table: string): AstNode => {
+    if (!bound.has(relation)) {
+      const select = parseRowFilter(filters.get(relation)!, databaseType);
+      bound.set(relation, bindPlaceholders(select.where, values, databaseType));
+    }
+    const select = parseStatements("SELECT * FROM t", databaseType)[0];
+    const { db, schema, table: name } = item;
+    select.from = [{ db: db ?? null, ...(schema !== undefined && { schema }), table: name, as: null }];
+    select.where = structuredClone(bound.get(relation));
+    applied = true;
+
+    const { join, on, using } = item;
+    return {
+      expr: { ast: select, parentheses: true },
+      as: typeof item.as === "string" ? item.as : table,
+      ...(join !== undefined && { join }),
+      ...(on !== undefined && { on }),
+      ...(using !== undefined && { using }),
+    };
+  };
+
+  // CTE visibility follows collectReferences: a CTE named like a filtered
+  // table shadows it, but its own body still reads (and filters) the table
+  const rewriteStatement = (stmt: AstNode | null, ctes: Set<string>): void => {
+    if (!stmt || stmt.type !== "select") return;
+
+    const visibleCtes = new Set(ctes);
+    for (const cte of (stmt.with as AstNode[] | undefined) ?? []) {
+      const name = (identifier(cte.name) ?? "").toLowerCase();
+      if (cte.recursive) visibleCtes.add(name);
+      const body = asNode(cte.stmt);
+      rewriteStatement(asNode(body?.ast) ?? body, new Set(visibleCtes));
+      visibleCtes.add(name);
+    }
+
+    const from = (stmt.from as AstNode[] | undefined) ?? [];
+    from.forEach((item, i) => {
+      const table = identifier(item.table);
+      if (table) {
+        const schema = identifier(item.schema) ?? identifier(item.db);
+        const relation = relationKey(schema, table, defaultSchema);
+        if ((schema || !visibleCtes.has(table.toLowerCase())) && filters.has(relation)) {
+          from[i] = filteredRelation(item, relation, table);
+        }
+      } else if (item.expr) {
+        rewriteNode(item.expr, visibleCtes);
+      }
+      if (item.on) rewriteNode(item.on, visibleCtes);
+    });
+
+    for (const [key, value] of Object.entries(stmt)) {
+      if (key === "with" || key === "from" || key === "_next") continue;
+      rewriteNode(value, visibleCtes);
+    }
+    if (stmt._next) rewriteStatement(asNode(stmt._next), visibleCtes);
+  };
+
+  const rewriteNode = (node: unknown, ctes: Set<string>): void => {
+    if (Array.isArray(node)) {
+      for (const child of node) rewriteNode(child, ctes);
+      return;
+    }
+    const obj = asNode(node);
+    if (!obj) return;
+    if (asNode(obj.ast)) {
+      rewriteStatement(asNode(obj.ast), ctes);
+      return;
+    }
+    if (obj.type === "select") {
+      rewriteStatement(obj, ctes);
+      return;
+    }
+    for (const value of Object.values(obj)) rewriteNode(value, ctes);
+  };
+
+  rewriteStatement(statement, new Set());
+  return applied
+    ? printStatement(statement, databaseType, defaultSchema, knownTables, [sql, ...filters.values()])
+    : sql;
+}
+
+// ──── Minimum Group Size ─────────────────────────────────────────────────────
+// Tables with a minimum group size (k) only answer aggregate questions, and
+// every group in the answer must stand for at least k rows. The outermost
+// SELECT gets an extra COUNT(*) column; suppressSmallGroups drops the groups
+// under k — and the column — after execution. COUNT(*) only counts rows of
+// the table if nothing repeats them, so the table must be read once, alone
+// in the outermost FROM: no joins, table functions or self-references.
+
+/** Result column carrying each group's row count; removed before results are returned */
+export const GROUP_SIZE_COLUMN = "lens_group_size";
+
+/**
+ * Whether an aggregate never hands back a row's value: COUNT and the
+ * numeric folds (see isSafeAggregate), or MIN / MAX of a numeric column.
+ * Collecting aggregates (array_agg, string_agg, json_agg, group_concat ...)
+ * and MIN / MAX of text or dates return raw values and are not.
+ */
+function foldsSafely(node: AstNode, numericColumns: Set<string>): boolean {
+  if (node.type !== "aggr_func" && node.type !== "function") return false;
+  const name = typeof node.name === "string" ? node.name.toLowerCase() : functionName(node);
+  if (isSafeAggregate(name, node.over)) return true;
+  if ((name !== "min" && name !== "max") || node.over) return false;
+  const arg = asNode(asNode(node.args)?.expr);
+  return arg?.type === "column_ref" && numericColumns.has(identifier(arg.column)?.toLowerCase() ?? "");
+}
+
+/** Columns a select-list item reads other than through an aggregate that folds them safely */
+function rawColumnReads(node: unknown, numericColumns: Set<string>): string[] {
+  if (Array.isArray(node)) return node.flatMap((child) => rawColumnReads(child, numericColumns));
+  const obj = asNode(node);
+  if (!obj || asNode(obj.ast)) return [];
+  if (obj.type === "column_ref") return [identifier(obj.column)?.toLowerCase() ?? "*"];
+  if (foldsSafely(obj, numericColumns)) return [];
+  return Object.values(obj).flatMap((value) => rawColumnReads(value, numericColumns));
+}
+
+/** FROM items anywhere in the statement that name one of `relations` */
+function countRelationReads(node: unknown, relations: Set<string>, defaultSchema: string): number {
+  if (Array.isArray(node)) {
+    return node.reduce((sum: number, child) => sum + countRelationReads(child, relations, defaultSchema), 0);
+  }
+  const obj = asNode(node);
+  if (!obj) return 0;
+  let reads = 0;
+  for (const item of Array.isArray(obj.from) ? (obj.from as AstNode[]) : []) {
+    const table = identifier(item.table);
+    const schema = identifier(item.schema) ?? identifier(item.db);
+    if (table && relations.has(relationKey(schema, table, defaultSchema))) reads++;
+  }
+  for (const value of Object.values(obj)) reads += countRelationReads(value, relations, defaultSchema);
+  return reads;
+}
+
+/**
+ * Whether a FROM item yields each row of a protected table at most once:
+ * the table itself, or `SELECT * FROM <such an item> WHERE ...` — the shape
+ * applyRowFilters gives filtered tables.
+ */
+function readsRowsOnce(item: AstNode, relations: Set<string>, defaultSchema: string): boolean {
+  const table = identifier(item.table);
+  if (table) {
+    return relations.has(relationKey(identifier(item.schema) ?? identifier(item.db), table, defaultSchema));
+  }
+  const select = asNode(asNode(item.expr)?.ast);
+  const columns = Array.isArray(select?.columns) ? (select.columns as AstNode[]) : [];
+  const from = Array.isArray(select?.from) ? (select.from as AstNode[]) : [];
+  return (
+    !!select &&
+    select.type === "select" &&
+    !select._next &&
+    !select.with &&
+    !asNode(select.groupby)?.columns &&
+    columns.length === 1 &&
+    isStarItem(columns[0]) &&
+    from.length === 1 &&
+    readsRowsOnce(from[0], relations, defaultSchema)
+  );
+}
 
-  // 3. Check for forbidden keywords
-  for (const keyword of FORBIDDEN_KEYWORDS) {
-    // Use word boundary regex to avoid false positives (e.g. "RESET" in "PRESET")
-    const regex = new RegExp(`\\b${keyword}\\b`, "i");
-    if (regex.test(sql)) {
-      errors.push(`Forbidden keyword detected: ${keyword}`);
+/**
+ * Prepare a query on tables with a minimum group size. Returns the SQL with
+ * a GROUP_SIZE_COLUMN added and the strictest k of the tables it reads, or
+ * the SQL unchanged (and k null) when it reads none. Throws when the query
+ * isn't an aggregate whose groups can be counted, or reads a column other
+ * than as a group key or through COUNT, SUM, AVG and the like.
+ *
+ * `numericColumns` lists each table's numeric columns, the only ones MIN
+ * and MAX may read.
+ */
+export function enforceMinGroupSize(
+  sql: string,
+  minGroupSizes: Record<string, number>,
+  databaseType: DatabaseType = "postgresql",
+  defaultSchema: string = "public",
+  knownTables: string[] = [],
+  numericColumns: Record<string, string[]> = {}
+): { sql: string; minGroupSize: number | null } {
+  const statement = parseStatements(sql, databaseType)[0];
+  const { tables } = collectReferences(statement, databaseType, defaultSchema);
+  const protectedTables = Object.entries(minGroupSizes).filter(([table]) =>
+    tables.has(table.toLowerCase())
+  );
+  if (protectedTables.length === 0) return { sql, minGroupSize: null };
+
+  const minGroupSize = Math.max(...protectedTables.map(([, k]) => k));
+  const names = protectedTables.map(([table]) => `"${table}"`).join(", ");
+  if (statement._next) {
+    throw new Error(
+      `${names} can't be queried with UNION / INTERSECT / EXCEPT — group sizes must be counted in a single SELECT`
+    );
+  }
+  const relations = new Set(protectedTables.map(([table]) => table.toLowerCase()));
+  const from = (statement.from as AstNode[] | undefined) ?? [];
+  if (
+    from.length !== 1 ||
+    !readsRowsOnce(from[0], relations, defaultSchema) ||
+    countRelationReads(statement, relations, defaultSchema) !== 1
+  ) {
+    throw new Error(
+      `${names} must be read once, on its own in the outermost FROM (minimum group size ${minGroupSize}) — joins, table functions and subqueries could repeat its rows and inflate group sizes`
+    );
+  }
+  // Outside safe aggregates, only GROUP BY columns may be read — by name,
+  // or as the select-list item a GROUP BY position or alias points at
+  const groupBy = asNode(statement.groupby);
+  const groupKeys = Array.isArray(groupBy?.columns) ? (groupBy.columns as AstNode[]) : [];
+  const columns = Array.isArray(statement.columns) ? (statement.columns as AstNode[]) : [];
+  const numeric = new Set(
+    protectedTables.flatMap(([table]) => (numericColumns[table] ?? []).map((c) => c.toLowerCase()))
+  );
+  const groupedColumns = new Set(rawColumnReads(groupKeys, new Set()));
+  const groupedItem = (item: AstNode, index: number) =>
+    groupKeys.some(
+      (key) =>
+        (key.type === "number" && key.value === index + 1) ||
+        (key.type === "column_ref" &&
+          !key.table &&
+          typeof item.as === "string" &&
+          identifier(key.column)?.toLowerCase() === item.as.toLowerCase())
+    );
+  const rawRead = columns.some(
+    (item, index) =>
+      !groupedItem(item, index) && rawColumnReads(item.expr, numeric).some((column) => !groupedColumns.has(column))
+  );
+  if (columns.length === 0 || rawRead) {
+    throw new Error(
+      `${names} only allows aggregate queries (minimum group size ${minGroupSize}) — the outermost SELECT may read columns only as GROUP BY keys or through COUNT, SUM, AVG and the like (MIN / MAX of numeric columns); array_agg, string_agg, json_agg and group_concat would list individual values`
+    );
+  }
+
+  const [countItem] = parseStatements(
+    `SELECT COUNT(*) AS ${GROUP_SIZE_COLUMN} FROM t`,
+    databaseType
+  )[0].columns as AstNode[];
+  statement.columns = [...columns, countItem];
+  return { sql: printStatement(statement, databaseType, defaultSchema, knownTables, [sql]), minGroupSize };
+}
+
+// ──── Cost Budgets ───────────────────────────────────────────────────────────
+
+/**
+ * Budget for sources that have not set their own. Generous enough for
+ * aggregates over tables of a few million rows; a cross join of two large
+ * tables blows through maxRows long before the statement timeout would fire.
+ */
+export const DEFAULT_COST_BUDGET: CostBudget = {
+  maxTotalCost: 10_000_000,
+  maxRows: 50_000_000,
+  maxSeqScanRows: 10_000_000,
+  onExceed: "reject",
+};
+
+function formatEstimate(value: number): string {
+  return Math.round(value).toLocaleString("en-US");
+}
+
+/**
+ * Compare a query's plan estimate with a data source's budget. Every exceeded
+ * limit becomes an error (or a warning, with onExceed "warn") phrased so the
+ * AI can rewrite the query.
+ */
+export function checkQueryCost(
+  estimate: QueryPlanEstimate,
+  budget: CostBudget = DEFAULT_COST_BUDGET
+): QueryValidation {
+  const problems: string[] = [];
+
+  if (estimate.totalCost > budget.maxTotalCost) {
+    problems.push(
+      `Estimated query cost ${formatEstimate(estimate.totalCost)} exceeds this source's budget of ${formatEstimate(budget.maxTotalCost)} — add selective WHERE filters or aggregate before joining`
+    );
+  }
+  if (estimate.maxRows > budget.maxRows) {
+    problems.push(
+      `The plan processes an estimated ${formatEstimate(estimate.maxRows)} rows in one step (budget ${formatEstimate(budget.maxRows)}) — check join conditions, a missing one multiplies rows`
+    );
+  }
+  for (const scan of estimate.seqScans) {
+    if (scan.rows > budget.maxSeqScanRows) {
+      problems.push(
+        `Full scan of "${scan.table}" reads ~${formatEstimate(scan.rows)} rows (budget ${formatEstimate(budget.maxSeqScanRows)}) — filter on an indexed column or a narrower time range`
+      );
     }
   }
 
-  // 4. Check for multiple statements (SQL injection vector)
-  // Strip string literals (handle PostgreSQL '' escape and multi-line), then check semicolons
-  const stringStripped = sql
-    .replace(/'(?:[^']|'')*'/g, "''")     // PostgreSQL single-quoted strings (with '' escapes)
-    .replace(/"(?:[^"]|"")*"/g, '""')     // Double-quoted identifiers
-    .replace(/--[^\n]*/g, "")             // Single-line comments
-    .replace(/\/\*[\s\S]*?\*\//g, "");    // Block comments
-  if (stringStripped.includes(";")) {
-    const statementsCount = stringStripped.split(";").filter((s) => s.trim()).length;
-    if (statementsCount > 1) {
-      errors.push("Multiple statements are not allowed");
+  const reject = budget.onExceed === "reject";
+  return {
+    valid: !reject || problems.length === 0,
+    errors: reject ? problems : [],
+    warnings: reject ? [] : problems,
+  };
+}
+
+// ──── MongoDB Aggregation Pipelines ──────────────────────────────────────────
+
+/** Stages and operators that write data or run server-side JavaScript. */
+const FORBIDDEN_PIPELINE_OPERATORS = [
+  "$out",
+  "$merge",
+  "$where",
+  "$function",
+  "$accumulator",
+  "$currentOp",
+  "$listSessions",
+  "$listLocalSessions",
+  "$planCacheStats",
+];
+
+/** Stages that read from another collection, mapped to the key naming it. */
+const CROSS_COLLECTION_STAGES: Record<string, string> = {
+  $lookup: "from",
+  $graphLookup: "from",
+  $unionWith: "coll",
+};
+
+const MAX_PIPELINE_STAGES = 20;
+
+/** Stages MongoDB only accepts at the start of a pipeline */
+const FIRST_STAGE_ONLY = ["$geoNear", "$search", "$vectorSearch", "$collStats", "$indexStats"];
+
+/**
+ * Validate that an aggregation pipeline is safe for read-only execution.
+ * Mirrors validateQuery: no writes or server-side JS, collection allowlist,
+ * masked field checks and a row limit.
+ */
+export function validatePipeline(
+  collection: string,
+  pipeline: Record<string, unknown>[],
+  allowedTables: string[],
+  maskedColumns: Record<string, string[]> = {},
+  maxRows: number = DEFAULT_ROW_LIMIT
+): QueryValidation {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  // 1. Size checks
+  if (JSON.stringify(pipeline).length > MAX_QUERY_LENGTH) {
+    errors.push(`Pipeline exceeds maximum length of ${MAX_QUERY_LENGTH} characters`);
+    return { valid: false, errors, warnings };
+  }
+  if (pipeline.length > MAX_PIPELINE_STAGES) {
+    errors.push(`Pipeline exceeds maximum of ${MAX_PIPELINE_STAGES} stages`);
+    return { valid: false, errors, warnings };
+  }
+
+  // 2. Each stage must be an object with exactly one stage operator
+  for (const [i, stage] of pipeline.entries()) {
+    const keys = stage && typeof stage === "object" ? Object.keys(stage) : [];
+    if (keys.length !== 1 || !keys[0].startsWith("$")) {
+      errors.push(`Stage ${i} must be an object with a single $-prefixed stage name`);
     }
   }
+  if (errors.length > 0) return { valid: false, errors, warnings };
 
-  // 5. Check table access authorization
-  // Match FROM/JOIN followed by an identifier (skip subqueries & CTEs)
-  const tableRefRegex = /\b(?:FROM|JOIN)\s+(?!\(|LATERAL\b)([a-zA-Z_][a-zA-Z0-9_]*)(?:\.([a-zA-Z_][a-zA-Z0-9_]*))?/gi;
-  const referencedTables: string[] = [];
-  let tableMatch: RegExpExecArray | null;
+  // 3. Walk the whole tree (including nested $lookup / $facet pipelines)
+  const joinedCollections = new Set<string>();
+  const referencedFields = new Set<string>();
+  const forbiddenFound = new Set<string>();
 
-  while ((tableMatch = tableRefRegex.exec(sql)) !== null) {
-    // If schema-qualified (e.g. public.users), take the table part; otherwise take the first capture
-    const tableName = (tableMatch[2] ?? tableMatch[1]).replace(/"/g, "").toLowerCase();
-    // Skip SQL keywords that can follow FROM in CTEs: WITH ... AS
-    if (["select", "lateral", "unnest", "generate_series"].includes(tableName)) continue;
-    if (tableName && !referencedTables.includes(tableName)) {
-      referencedTables.push(tableName);
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+      return;
     }
+    if (typeof node === "string") {
+      // "$field.path" references — "$$var" are pipeline variables
+      if (node.startsWith("$") && !node.startsWith("$$")) {
+        referencedFields.add(node.slice(1).toLowerCase());
+      }
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+
+    for (const [key, value] of Object.entries(node as Record<string, unknown>)) {
+      if (FORBIDDEN_PIPELINE_OPERATORS.includes(key)) {
+        forbiddenFound.add(key);
+      }
+      const collectionKey = CROSS_COLLECTION_STAGES[key];
+      if (collectionKey) {
+        const target =
+          typeof value === "string"
+            ? value
+            : (value as Record<string, unknown> | null)?.[collectionKey];
+        if (typeof target === "string") {
+          joinedCollections.add(target.toLowerCase());
+        }
+      }
+      if (!key.startsWith("$")) {
+        referencedFields.add(key.toLowerCase());
+      }
+      walk(value);
+    }
+  };
+  walk(pipeline);
+
+  for (const op of forbiddenFound) {
+    errors.push(`Forbidden pipeline operator detected: ${op}`);
   }
 
+  // 4. Collection access authorization
+  const referencedCollections = new Set([collection.toLowerCase(), ...joinedCollections]);
   const allowedTablesLower = allowedTables.map((t) => t.toLowerCase());
-
-  for (const table of referencedTables) {
-    if (table && !allowedTablesLower.includes(table)) {
-      errors.push(`Access denied to table: ${table}`);
+  for (const coll of referencedCollections) {
+    if (!allowedTablesLower.includes(coll)) {
+      errors.push(`Access denied to collection: ${coll}`);
     }
   }
 
-  // 6. Check for masked column exposure (scoped to referenced tables)
+  // 5. Masked field exposure (scoped to referenced collections). Joined
+  //    documents skip the masking stage, so that includes self-joins
   for (const [table, columns] of Object.entries(maskedColumns)) {
-    // Only check columns from tables that are actually referenced in the query
     const tableLower = table.toLowerCase();
-    if (!referencedTables.includes(tableLower)) continue;
+    if (!referencedCollections.has(tableLower)) continue;
+    if (joinedCollections.has(tableLower)) {
+      errors.push(
+        `Collection "${table}" has masked fields and cannot be joined via $lookup/$unionWith`
+      );
+      continue;
+    }
     for (const col of columns) {
-      // Match column name as a word boundary, but also look for table-qualified refs
-      const colRegex = new RegExp(
-        `\\b(?:${table}\\.)?${col}\\b`,
-        "i"
+      const colLower = col.toLowerCase();
+      const exposed = [...referencedFields].some(
+        (f) => f === colLower || f.startsWith(`${colLower}.`)
       );
-      if (colRegex.test(sql)) {
-        errors.push(`Access to masked column "${col}" in table "${table}" is not allowed`);
+      if (exposed) {
+        errors.push(`Access to masked field "${col}" in collection "${table}" is not allowed`);
       }
     }
   }
 
-  // 7. Auto-LIMIT enforcement
-  if (!normalizedSql.includes("LIMIT")) {
+  // 6. Auto-$limit enforcement
+  if (!pipeline.some((stage) => "$limit" in stage)) {
     warnings.push(
-      `No LIMIT clause detected. A default LIMIT ${maxRows} will be added.`
+      `No $limit stage detected. A default $limit of ${maxRows} will be added.`
     );
   }
 
-  // 8. Subquery depth check (simple heuristic)
-  const openParens = (sql.match(/\(/g) || []).length;
-  if (openParens > 5) {
-    warnings.push("Complex subquery nesting detected. Consider simplifying.");
-  }
-
   return {
     valid: errors.length === 0,
     errors,
@@ -149,14 +1557,21 @@ export function validateQuery(
 }
 
 /**
- * Add a LIMIT clause to a query if one is not already present.
+ * Append a $limit stage so a pipeline can never return more than maxRows
+ * documents. Masked fields are stripped before the first user stage that
+ * sees documents, so no $$ROOT, $replaceRoot or $getField can copy them
+ * somewhere a trailing $unset would miss.
  */
-export function enforceLimit(sql: string, maxRows: number = DEFAULT_ROW_LIMIT): string {
-  const normalizedSql = sql.trim().toUpperCase();
-  if (!normalizedSql.includes("LIMIT")) {
-    // Remove trailing semicolon if present
-    const cleanSql = sql.replace(/;\s*$/, "");
-    return `${cleanSql} LIMIT ${maxRows}`;
+export function enforcePipelineLimit(
+  pipeline: Record<string, unknown>[],
+  maxRows: number = DEFAULT_ROW_LIMIT,
+  maskedFields: string[] = []
+): Record<string, unknown>[] {
+  const safe = [...pipeline];
+  if (maskedFields.length > 0) {
+    const leading = safe.length > 0 && FIRST_STAGE_ONLY.includes(Object.keys(safe[0])[0]) ? 1 : 0;
+    safe.splice(leading, 0, { $unset: maskedFields });
   }
-  return sql;
+  safe.push({ $limit: maxRows });
+  return safe;
 }
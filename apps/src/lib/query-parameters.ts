@@ -0,0 +1,179 @@
+import type {
+  DatabaseType,
+  SavedQueryParameter,
+  SavedQueryParameterValue,
+} from "./types";
+import { scanSql } from "./sql-lexer";
+
+/**
+ * Named parameters of saved queries. Saved SQL refers to its parameters as
+ * `:name`, like row filters do; when it runs they become the driver's own
+ * positional parameters — values are never spliced into the SQL text, so
+ * the statement the guardrails check is the one that was saved.
+ */
+
+/** Sources whose drivers number parameters ($1, $2 ...); the rest take `?` */
+const NUMBERED_PARAMETERS: DatabaseType[] = ["postgresql", "duckdb"];
+
+const IDENTIFIER_START = /[A-Za-z_]/;
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+
+interface Placeholder {
+  name: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The `:name` placeholders of a query, in order, outside string literals,
+ * quoted identifiers and comments — `::` casts are not placeholders.
+ * `positional` is set when the query uses driver parameters of its own.
+ */
+export function findPlaceholders(
+  sql: string,
+  databaseType: DatabaseType
+): { placeholders: Placeholder[]; positional: boolean } {
+  const placeholders: Placeholder[] = [];
+  let positional = false;
+
+  for (const segment of scanSql(sql, databaseType)) {
+    if (segment.kind !== "code") continue;
+    let i = segment.start;
+    while (i < segment.end) {
+      const c = sql[i];
+      const next = sql[i + 1] ?? "";
+      const afterIdentifier = i > 0 && IDENTIFIER_CHAR.test(sql[i - 1]);
+
+      if (c === "$" && !afterIdentifier && /[0-9]/.test(next)) {
+        positional = true;
+        i++;
+      } else if (c === "?" && !NUMBERED_PARAMETERS.includes(databaseType)) {
+        positional = true;
+        i++;
+      } else if (c === ":" && next === ":") {
+        i += 2;
+      } else if (c === ":" && IDENTIFIER_START.test(next) && !afterIdentifier) {
+        let end = i + 1;
+        while (end < segment.end && /[A-Za-z0-9_]/.test(sql[end])) end++;
+        placeholders.push({ name: sql.slice(i + 1, end), start: i, end });
+        i = end;
+      } else {
+        i++;
+      }
+    }
+  }
+  return { placeholders, positional };
+}
+
+/**
+ * Check a saved query's SQL against its declared parameters before it is
+ * saved. Returns a description of the problem, or null if they agree.
+ */
+export function checkSavedQuery(
+  sql: string,
+  parameters: SavedQueryParameter[],
+  databaseType: DatabaseType
+): string | null {
+  if (databaseType === "mongodb") {
+    return "Saved queries are SQL — MongoDB data sources aren't supported";
+  }
+  const { placeholders, positional } = findPlaceholders(sql, databaseType);
+  if (positional) {
+    return "Saved queries cannot use positional parameters — use :name placeholders";
+  }
+
+  const declared = new Set<string>();
+  for (const parameter of parameters) {
+    if (declared.has(parameter.name)) return `Parameter :${parameter.name} is declared twice`;
+    declared.add(parameter.name);
+    if (parameter.default !== undefined) {
+      const coerced = coerceValue(parameter, parameter.default);
+      if (coerced !== null && typeof coerced === "object") return `Invalid default: ${coerced.error}`;
+    }
+  }
+  const used = new Set(placeholders.map((p) => p.name));
+  const undeclared = [...used].filter((name) => !declared.has(name));
+  if (undeclared.length > 0) {
+    return `Undeclared parameters: ${undeclared.map((name) => `:${name}`).join(", ")}`;
+  }
+  const unused = [...declared].filter((name) => !used.has(name));
+  if (unused.length > 0) {
+    return `Parameters not used in the SQL: ${unused.map((name) => `:${name}`).join(", ")}`;
+  }
+  return null;
+}
+
+/** A value as its parameter's type, or an error message */
+function coerceValue(
+  parameter: SavedQueryParameter,
+  value: SavedQueryParameterValue
+): SavedQueryParameterValue | { error: string } {
+  if (value === null) return null;
+  const invalid = { error: `:${parameter.name} must be a ${parameter.type}` };
+  switch (parameter.type) {
+    case "number": {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      return typeof n === "number" && Number.isFinite(n) ? n : invalid;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      return value === "true" ? true : value === "false" ? false : invalid;
+    case "date":
+      // YYYY-MM-DD or an ISO 8601 timestamp, passed on as written
+      return typeof value === "string" &&
+        /^\d{4}-\d{2}-\d{2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value) &&
+        !Number.isNaN(Date.parse(value))
+        ? value
+        : { error: `:${parameter.name} must be a date (YYYY-MM-DD)` };
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Bind a saved query's parameters: `:name` placeholders become the source's
+ * positional parameters, and `values` (by name) are checked against their
+ * declared types. Parameters without a value take their default; a missing
+ * required value or an unknown name is an error.
+ */
+export function bindSavedQuery(
+  sql: string,
+  parameters: SavedQueryParameter[],
+  values: Record<string, SavedQueryParameterValue>,
+  databaseType: DatabaseType
+): { sql: string; params: unknown[] } | { error: string } {
+  const unknown = Object.keys(values).filter((name) => !parameters.some((p) => p.name === name));
+  if (unknown.length > 0) {
+    return { error: `Unknown parameters: ${unknown.map((name) => `:${name}`).join(", ")}` };
+  }
+
+  const bound = new Map<string, SavedQueryParameterValue>();
+  for (const parameter of parameters) {
+    const value = values[parameter.name] !== undefined ? values[parameter.name] : parameter.default;
+    if (value === undefined) {
+      return { error: `Missing value for parameter :${parameter.name}` };
+    }
+    const coerced = coerceValue(parameter, value);
+    if (coerced !== null && typeof coerced === "object") return coerced;
+    bound.set(parameter.name, coerced);
+  }
+
+  // Replace from the end so earlier offsets stay valid; numbered parameters
+  // are assigned in order of first use, `?` takes a value per occurrence
+  const { placeholders } = findPlaceholders(sql, databaseType);
+  const numbered = NUMBERED_PARAMETERS.includes(databaseType);
+  const order = [...new Set(placeholders.map((p) => p.name))];
+  const params: unknown[] = numbered
+    ? order.map((name) => bound.get(name))
+    : placeholders.map((p) => bound.get(p.name));
+
+  let text = sql;
+  for (const placeholder of [...placeholders].reverse()) {
+    if (!bound.has(placeholder.name)) {
+      return { error: `Undeclared parameter :${placeholder.name}` };
+    }
+    const marker = numbered ? `$${order.indexOf(placeholder.name) + 1}` : "?";
+    text = text.slice(0, placeholder.start) + marker + text.slice(placeholder.end);
+  }
+  return { sql: text, params };
+}
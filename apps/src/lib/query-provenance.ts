@@ -0,0 +1,97 @@
+import { QUERY_RUN_TOOLS } from "./types";
+import type { QueryRun, QueryRunTool } from "./types";
+
+/**
+ * Where a chat answer's numbers came from. Every query the AI runs is a
+ * tool call in the thread — the assistant message carrying the request,
+ * then a "tool" message carrying the result as JSON text — so the queries
+ * behind a component are the query tool calls between it and the user's
+ * message.
+ */
+
+/** The parts of a Tambo thread message read here */
+interface ThreadMessageLike {
+  role: string;
+  content?: { type: string; text?: string }[];
+  toolCallRequest?: {
+    toolName: string;
+    parameters: { parameterName: string; parameterValue: unknown }[];
+  };
+  tool_call_id?: string;
+  component?: { componentName?: string | null } | null;
+}
+
+function isQueryRunTool(name: string): name is QueryRunTool {
+  return (QUERY_RUN_TOOLS as readonly string[]).includes(name);
+}
+
+/** A message's text parts parsed as JSON, or null if they aren't */
+function parseJsonContent(message: ThreadMessageLike): unknown {
+  const text = (message.content ?? [])
+    .filter((part) => part.type === "text")
+    .map((part) => part.text ?? "")
+    .join("");
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/** A query tool's output (see run_select_query) as a QueryRun */
+export function readQueryOutput(
+  toolName: QueryRunTool,
+  input: Record<string, unknown>,
+  output: unknown
+): QueryRun {
+  const data = (output && typeof output === "object" ? output : {}) as Record<string, unknown>;
+  const strings = (value: unknown) =>
+    Array.isArray(value) ? value.filter((v): v is string => typeof v === "string") : [];
+  const queryText = typeof data.queryText === "string" ? data.queryText : null;
+  const written = typeof input.query === "string" ? input.query : null;
+
+  return {
+    toolName,
+    input,
+    sql: queryText ?? written,
+    executed: queryText !== null,
+    tables: strings(data.tables),
+    rowCount: typeof data.rowCount === "number" ? data.rowCount : 0,
+    executionTimeMs: typeof data.executionTimeMs === "number" ? data.executionTimeMs : 0,
+    warnings: strings(data.warnings),
+    ...(typeof data.error === "string" && { error: data.error }),
+  };
+}
+
+/**
+ * The queries behind the component of `messages[index]`, in the order they
+ * ran: query tool calls back to the user's message or the previous
+ * component, whichever is nearer. Calls still waiting on a result are left out.
+ */
+export function collectQueryRuns(messages: ThreadMessageLike[], index: number): QueryRun[] {
+  let start = index;
+  while (start > 0) {
+    const previous = messages[start - 1];
+    if (previous.role === "user" || previous.component?.componentName) break;
+    start--;
+  }
+
+  const runs: QueryRun[] = [];
+  for (let i = start; i < index; i++) {
+    const request = messages[i].toolCallRequest;
+    if (messages[i].role !== "assistant" || !request || !isQueryRunTool(request.toolName)) {
+      continue;
+    }
+    const callId = messages[i].tool_call_id;
+    const response = messages
+      .slice(i + 1, index)
+      .find((m) => m.role === "tool" && (!callId || !m.tool_call_id || m.tool_call_id === callId));
+    if (!response) continue;
+
+    const input = Object.fromEntries(
+      request.parameters.map((p) => [p.parameterName, p.parameterValue])
+    );
+    runs.push(readQueryOutput(request.toolName, input, parseJsonContent(response)));
+  }
+  return runs;
+}
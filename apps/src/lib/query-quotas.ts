@@ -0,0 +1,188 @@
+import type { DataSource, QueryQuota } from "./types";
+
+/**
+ * Query quotas — back-pressure on data sources. Each source has limits on
+ * all of its queries together and on each user's, checked when a query is
+ * about to reach the database: cache hits and queries the guardrails reject
+ * don't count. A runaway AI loop or an eager dashboard refresh is turned
+ * away with a time to retry instead of hammering the source.
+ *
+ * Usage is tracked in-process, like the query cache — with several server
+ * instances each enforces the quotas on the traffic it serves.
+ */
+
+/** Limits on all queries to a source that has not set its own */
+export const DEFAULT_SOURCE_QUERY_QUOTA: QueryQuota = {
+  queriesPerMinute: 120,
+  rowsPerHour: 2_000_000,
+  maxConcurrent: 8,
+};
+
+/** Limits on each user's queries to a source that has not set its own */
+export const DEFAULT_USER_QUERY_QUOTA: QueryQuota = {
+  queriesPerMinute: 60,
+  rowsPerHour: 500_000,
+  maxConcurrent: 4,
+};
+
+const MINUTE_MS = 60_000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+interface Usage {
+  /** Start times of queries in the last minute, oldest first */
+  starts: number[];
+  /** Rows read in the last hour, oldest first */
+  reads: { at: number; rows: number }[];
+  running: number;
+}
+
+/**
+ * Usage by data source ID, and by `${dataSourceId}:${userId}`. Entries with
+ * nothing running and nothing left in their windows are dropped, so sources
+ * and users that stop querying don't accumulate for the life of the server.
+ */
+const usage = new Map<string, Usage>();
+
+/** When idle entries were last swept out of `usage` */
+let lastSweep = 0;
+
+/** Forget starts and reads that have left their windows */
+function prune(entry: Usage, now: number): void {
+  while (entry.starts.length > 0 && entry.starts[0] <= now - MINUTE_MS) entry.starts.shift();
+  while (entry.reads.length > 0 && entry.reads[0].at <= now - HOUR_MS) entry.reads.shift();
+}
+
+function isIdle(entry: Usage): boolean {
+  return entry.running === 0 && entry.starts.length === 0 && entry.reads.length === 0;
+}
+
+/** Drop idle entries — at most once a minute, since it visits every entry */
+function sweepIdle(now: number): void {
+  if (now - lastSweep < MINUTE_MS) return;
+  lastSweep = now;
+  for (const [key, entry] of usage) {
+    prune(entry, now);
+    if (isIdle(entry)) usage.delete(key);
+  }
+}
+
+function usageOf(key: string, now: number): Usage {
+  let entry = usage.get(key);
+  if (!entry) {
+    entry = { starts: [], reads: [], running: 0 };
+    usage.set(key, entry);
+  }
+  prune(entry, now);
+  return entry;
+}
+
+/** A query admitted under the quotas; it holds a concurrency slot until released */
+export interface QuotaTicket {
+  /** Count rows read from the source against the hourly row quotas */
+  addRows(count: number): void;
+  /** Free the concurrency slot. Safe to call twice. */
+  release(): void;
+}
+
+/** Why `entry` can't take another query under `quota`, or null if it can. `scope` completes the message. */
+function exceeded(
+  scope: string,
+  entry: Usage,
+  quota: QueryQuota,
+  now: number
+): { error: string; retryAfterSeconds: number } | null {
+  const retryIn = (ms: number) => Math.max(1, Math.ceil(ms / 1000));
+
+  if (quota.maxConcurrent !== undefined && entry.running >= quota.maxConcurrent) {
+    return {
+      error: `${entry.running} ${entry.running === 1 ? "query" : "queries"} already running ${scope} (limit ${quota.maxConcurrent})`,
+      retryAfterSeconds: 1,
+    };
+  }
+  const perMinute = quota.queriesPerMinute;
+  if (perMinute !== undefined && entry.starts.length >= perMinute) {
+    // Once enough of the oldest starts leave the window, one more fits
+    const oldest = entry.starts[entry.starts.length - perMinute];
+    return {
+      error: `${entry.starts.length} queries started ${scope} in the last minute (limit ${perMinute})`,
+      retryAfterSeconds: retryIn(oldest + MINUTE_MS - now),
+    };
+  }
+  const perHour = quota.rowsPerHour;
+  const rows = entry.reads.reduce((sum, read) => sum + read.rows, 0);
+  if (perHour !== undefined && rows >= perHour) {
+    let left = rows;
+    const freeing = entry.reads.find((read) => (left -= read.rows) < perHour)!;
+    return {
+      error: `${rows.toLocaleString("en-US")} rows read ${scope} in the last hour (limit ${perHour.toLocaleString("en-US")})`,
+      retryAfterSeconds: retryIn(freeing.at + HOUR_MS - now),
+    };
+  }
+  return null;
+}
+
+/**
+ * Admit a query to a data source, or say which quota it would exceed and
+ * when to retry. Checking and counting happen in one step, so concurrent
+ * callers can't both take the last slot. `userId` is who the query runs
+ * for; queries run for nobody only count against the source's quota.
+ */
+export function acquireQuota(
+  dataSource: Pick<DataSource, "id" | "queryQuota" | "userQueryQuota">,
+  userId: string | undefined
+): { ticket: QuotaTicket } | { error: string; retryAfterSeconds: number } {
+  const now = Date.now();
+  sweepIdle(now);
+  const scopes = [
+    {
+      key: dataSource.id,
+      label: "on this data source",
+      entry: usageOf(dataSource.id, now),
+      quota: dataSource.queryQuota ?? DEFAULT_SOURCE_QUERY_QUOTA,
+    },
+  ];
+  if (userId) {
+    const key = `${dataSource.id}:${userId}`;
+    scopes.push({
+      key,
+      label: "by you on this data source",
+      entry: usageOf(key, now),
+      quota: dataSource.userQueryQuota ?? DEFAULT_USER_QUERY_QUOTA,
+    });
+  }
+
+  for (const { label, entry, quota } of scopes) {
+    const problem = exceeded(label, entry, quota, now);
+    if (problem) {
+      return {
+        error: `Query quota exceeded: ${problem.error} — try again in ${problem.retryAfterSeconds}s`,
+        retryAfterSeconds: problem.retryAfterSeconds,
+      };
+    }
+  }
+
+  for (const { entry } of scopes) {
+    entry.starts.push(now);
+    entry.running++;
+  }
+  let released = false;
+  return {
+    ticket: {
+      addRows(count) {
+        if (count <= 0) return;
+        const at = Date.now();
+        for (const { entry } of scopes) entry.reads.push({ at, rows: count });
+      },
+      release() {
+        if (released) return;
+        released = true;
+        const at = Date.now();
+        for (const { key, entry } of scopes) {
+          entry.running--;
+          prune(entry, at);
+          if (isIdle(entry) && usage.get(key) === entry) usage.delete(key);
+        }
+      },
+    },
+  };
+}
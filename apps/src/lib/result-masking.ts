@@ -0,0 +1,103 @@
+import crypto from "crypto";
+import { GROUP_SIZE_COLUMN } from "./query-guardrails";
+import type { MaskingStrategy, QueryResult } from "./types";
+
+/**
+ * Redaction of masked columns in query results. validateQuery works out which
+ * result columns carry masked values (QueryValidation.resultMasks); these
+ * helpers rewrite the values after execution, so raw values never leave the
+ * server. Groups under a table's minimum group size are dropped here too.
+ */
+
+const HASH_LENGTH = 16;
+
+/**
+ * Hashes are keyed with ENCRYPTION_KEY: the same value always hashes the same
+ * (so it still groups and joins), but common values like e-mail addresses
+ * can't be looked up in a precomputed table.
+ */
+function hashValue(value: string): string {
+  const key = process.env.ENCRYPTION_KEY;
+  if (!key) {
+    throw new Error("ENCRYPTION_KEY environment variable is not set");
+  }
+  return crypto.createHmac("sha256", key).update(value).digest("hex").slice(0, HASH_LENGTH);
+}
+
+/** j***@x.com for e-mail addresses, first and last character for anything else */
+function redactPartially(value: string): string {
+  const at = value.indexOf("@");
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  return value.length >= 6 ? `${value[0]}***${value[value.length - 1]}` : "***";
+}
+
+/** Apply one strategy to one value. NULL stays NULL under every strategy. */
+export function maskValue(value: unknown, strategy: MaskingStrategy): unknown {
+  if (value === null || value === undefined) return null;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  switch (strategy) {
+    case "hash":
+      return hashValue(text);
+    case "partial":
+      return redactPartially(text);
+    default:
+      // "null" — and any strategy validation should have rejected outright
+      return null;
+  }
+}
+
+/**
+ * Redact the masked columns of a result. Result column names are matched
+ * case-insensitively against the keys of `masks`.
+ */
+export function applyResultMasks<T extends Pick<QueryResult, "columns" | "rows">>(
+  result: T,
+  masks: Record<string, MaskingStrategy> | undefined
+): T {
+  if (!masks) return result;
+  const masked = result.columns
+    .map((column) => [column, masks[column.toLowerCase()]] as const)
+    .filter(([, strategy]) => strategy !== undefined);
+  if (masked.length === 0) return result;
+
+  return {
+    ...result,
+    rows: result.rows.map((row) => {
+      const copy = { ...row };
+      for (const [column, strategy] of masked) copy[column] = maskValue(row[column], strategy);
+      return copy;
+    }),
+  };
+}
+
+/**
+ * Drop result rows whose group stands for fewer than `minGroupSize` rows,
+ * then the GROUP_SIZE_COLUMN enforceMinGroupSize added to count them.
+ */
+export function suppressSmallGroups<T extends Pick<QueryResult, "columns" | "rows" | "rowCount">>(
+  result: T,
+  minGroupSize: number
+): { result: T; suppressed: number } {
+  const column = result.columns.find((c) => c.toLowerCase() === GROUP_SIZE_COLUMN);
+  if (!column) {
+    // Counting failed somehow — nothing can be shown safely
+    return { result: { ...result, rows: [], rowCount: 0 }, suppressed: result.rows.length };
+  }
+
+  const rows = result.rows
+    .filter((row) => Number(row[column]) >= minGroupSize)
+    .map((row) => {
+      const copy = { ...row };
+      delete copy[column];
+      return copy;
+    });
+  return {
+    result: {
+      ...result,
+      columns: result.columns.filter((c) => c !== column),
+      rows,
+      rowCount: rows.length,
+    },
+    suppressed: result.rows.length - rows.length,
+  };
+}
@@ -0,0 +1,203 @@
+import type { ColumnType, LogicalType, MaskingStrategy, QueryResult } from "./types";
+
+/**
+ * The serialization contract of query results (see LogicalType). Drivers
+ * hand back numbers as strings, dates as Date objects in the server's local
+ * time, buffers, BSON wrappers ...; connectors describe their columns with
+ * describeColumn, and serializeResult turns every value into the one JSON
+ * shape its logical type promises — before it is cached or sent anywhere.
+ */
+
+/** Significant digits a double holds exactly */
+const MAX_EXACT_DIGITS = 15;
+
+/** Logical type of a source type name — SQL names of every dialect plus driver aliases */
+function logicalTypeOf(dbType: string): LogicalType {
+  const t = dbType.toLowerCase().trim();
+  // Arrays, structs and maps (DuckDB) come back as JSON values
+  if (/\[\]$|^(struct|map|list|union)\b/.test(t)) return "json";
+  if (t === "money") return "money";
+  if (/^(decimal|numeric|newdecimal)\b/.test(t)) return "decimal";
+  if (/^(float|double|real)/.test(t)) return "float";
+  if (/^(bool|boolean)$/.test(t)) return "boolean";
+  if (/^(u?(tiny|small|medium|big|huge)?int(eger)?\d*|serial|bigserial|long(long)?|short|tiny|int24|year|oid)\b/.test(t)) {
+    return "integer";
+  }
+  if (/^(new)?date$/.test(t)) return "date";
+  if (/^(timestamp|datetime)/.test(t)) return "timestamp";
+  if (/^time/.test(t)) return "time";
+  if (/^jsonb?$/.test(t)) return "json";
+  if (/^(bytea|blob|(tiny|medium|long)_?blob|(var)?binary|geometry)/.test(t)) return "binary";
+  if (/char|text|string|uuid|enum|^set$|^name$|^citext$/.test(t)) return "text";
+  return "unknown";
+}
+
+/**
+ * Describe a result column from its source type name, e.g.
+ * describeColumn("total", "numeric(12,2)"). `timezone` marks timestamps
+ * whose values are instants — the connector knows (MySQL's TIMESTAMP is,
+ * PostgreSQL's is not); "timestamptz" and "... with time zone" always are.
+ */
+export function describeColumn(
+  name: string,
+  dbType: string,
+  options: { timezone?: boolean } = {}
+): ColumnType {
+  const type = logicalTypeOf(dbType);
+  const column: ColumnType = { name, type, dbType };
+  if (type === "decimal") {
+    const match = /\(\s*(\d+)\s*(?:,\s*(\d+)\s*)?\)/.exec(dbType);
+    if (match) {
+      column.precision = Number(match[1]);
+      column.scale = Number(match[2] ?? 0);
+    }
+  }
+  if (
+    type === "timestamp" &&
+    (options.timezone || /^timestamptz$|with time zone/i.test(dbType.trim()))
+  ) {
+    column.timezone = "UTC";
+  }
+  return column;
+}
+
+function isBinary(value: unknown): value is Uint8Array {
+  return value instanceof Uint8Array;
+}
+
+/** BSON wrapper name (ObjectId, Decimal128, Long ...) of a MongoDB value */
+function bsonType(value: unknown): string | undefined {
+  const tag = (value as { _bsontype?: unknown } | null)?._bsontype;
+  return typeof tag === "string" ? tag : undefined;
+}
+
+/** Logical type of a column the driver doesn't describe, from its first non-null value */
+export function inferColumnType(name: string, rows: Record<string, unknown>[]): ColumnType {
+  const value = rows.map((row) => row[name]).find((v) => v !== null && v !== undefined);
+  let type: LogicalType = "unknown";
+  if (typeof value === "number") type = Number.isInteger(value) ? "integer" : "float";
+  else if (typeof value === "bigint") type = "integer";
+  else if (typeof value === "boolean") type = "boolean";
+  else if (typeof value === "string") type = "text";
+  else if (value instanceof Date) type = "timestamp";
+  else if (isBinary(value)) type = "binary";
+  else if (bsonType(value) === "Decimal128") type = "decimal";
+  else if (bsonType(value) === "Long" || bsonType(value) === "Int32") type = "integer";
+  else if (bsonType(value) === "Double") type = "float";
+  else if (bsonType(value)) type = "text";
+  else if (typeof value === "object") type = "json";
+  return { name, type, ...(value instanceof Date && { timezone: "UTC" as const }) };
+}
+
+function pad(n: number, width = 2): string {
+  return String(n).padStart(width, "0");
+}
+
+/** Calendar date of a driver Date — drivers build them at local midnight */
+function formatLocalDate(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Wall-clock timestamp of a driver Date built in local time */
+function formatLocalTimestamp(d: Date): string {
+  const ms = d.getMilliseconds();
+  return (
+    `${formatLocalDate(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}` +
+    (ms ? `.${pad(ms, 3)}` : "")
+  );
+}
+
+/** A JSON number when it keeps every digit, the decimal string otherwise */
+function exactNumber(text: string): number | string {
+  const n = Number(text);
+  if (!Number.isFinite(n)) return text;
+  const significant = text
+    .trim()
+    .replace(/^[-+]/, "")
+    .replace(/[eE].*$/, "")
+    .replace(".", "")
+    .replace(/^0+|0+$/g, "");
+  return significant.length <= MAX_EXACT_DIGITS ? n : text;
+}
+
+function serializeNumber(value: unknown, type: LogicalType): unknown {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value : String(value);
+  }
+  if (typeof value !== "string" && typeof value !== "bigint" && !bsonType(value)) return value;
+  let text = String(value);
+  if (type === "money") {
+    // PostgreSQL renders money in the server's currency format, e.g. "-$1,234.50".
+    // Formats with a decimal comma stay strings rather than being misread.
+    if (/,\d{1,2}\D*$/.test(text)) return text;
+    const negative = /^-|^\(/.test(text.trim());
+    text = `${negative ? "-" : ""}${text.replace(/[^0-9.]/g, "")}`;
+  }
+  if (type === "integer") {
+    const n = Number(text);
+    return Number.isSafeInteger(n) ? n : text;
+  }
+  return exactNumber(text);
+}
+
+/** Serialize one value to its column's contract (see LogicalType) */
+export function serializeValue(value: unknown, column: ColumnType): unknown {
+  if (value === null || value === undefined) return null;
+  switch (column.type) {
+    case "integer":
+    case "float":
+    case "decimal":
+    case "money":
+      return serializeNumber(value, column.type);
+    case "date":
+      return value instanceof Date ? formatLocalDate(value) : String(value).slice(0, 10);
+    case "timestamp":
+      if (value instanceof Date) {
+        return column.timezone ? value.toISOString() : formatLocalTimestamp(value);
+      }
+      if (column.timezone) {
+        const instant = new Date(String(value).replace(" ", "T").replace(/([+-]\d\d)$/, "$1:00"));
+        if (!Number.isNaN(instant.getTime())) return instant.toISOString();
+      }
+      return String(value).replace(" ", "T");
+    case "boolean":
+      return typeof value === "boolean" ? value : value === 1 || value === "1" || value === "t" || value === "true";
+    case "binary":
+      return isBinary(value) ? Buffer.from(value).toString("base64") : value;
+    case "json":
+      return value;
+    default:
+      if (value instanceof Date) return value.toISOString();
+      if (isBinary(value)) return Buffer.from(value).toString("base64");
+      if (typeof value === "bigint" || bsonType(value)) return String(value);
+      return value;
+  }
+}
+
+/**
+ * Attach column types to a result and serialize every value to them.
+ * Columns the driver didn't describe are inferred from their values;
+ * masked columns that now hold hashes or redactions are text.
+ */
+export function serializeResult<T extends Pick<QueryResult, "columns" | "rows">>(
+  result: T & { columnTypes?: ColumnType[] },
+  masks?: Record<string, MaskingStrategy>
+): T & { columnTypes: ColumnType[] } {
+  const columnTypes = result.columns.map((name): ColumnType => {
+    const strategy = masks?.[name.toLowerCase()];
+    if (strategy === "hash" || strategy === "partial") return { name, type: "text" };
+    return result.columnTypes?.find((c) => c.name === name) ?? inferColumnType(name, result.rows);
+  });
+
+  return {
+    ...result,
+    columnTypes,
+    rows: result.rows.map((row) => {
+      const copy: Record<string, unknown> = {};
+      columnTypes.forEach((column) => {
+        copy[column.name] = serializeValue(row[column.name], column);
+      });
+      return copy;
+    }),
+  };
+}
@@ -1,19 +1,42 @@
 import { z } from "zod";
+import {
+  AUDIT_STATUSES,
+  DATABASE_TYPES,
+  MASKING_STRATEGIES,
+  QUERY_FEATURES,
+  SAVED_QUERY_PARAMETER_TYPES,
+  isFileDatabaseType,
+} from "./types";
 
 // ──── Data Source Schemas ────────────────────────────────────────────────────
 
+/** Database schema names, e.g. ["public", "sales"] — plain identifiers only */
+const schemaListSchema = z
+  .array(
+    z
+      .string()
+      .regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/, "Schema names must be plain identifiers")
+      .max(63)
+  )
+  .min(1, "At least one schema is required")
+  .max(50);
+
 export const createDataSourceSchema = z
   .object({
     name: z.string().min(1, "Name is required").max(255),
-    type: z.enum(["postgresql", "mysql", "mongodb"]),
+    type: z.enum(DATABASE_TYPES),
     /** Direct URL connection string — when provided, host/port/database/username/password are optional */
     connectionString: z.string().optional(),
     host: z.string().optional().default(""),
-    port: z.number().int().min(1).max(65535).optional().default(5432),
+    port: z.number().int().min(0).max(65535).optional().default(5432),
     database: z.string().optional().default(""),
     username: z.string().optional().default(""),
     password: z.string().optional().default(""),
     ssl: z.boolean().optional().default(false),
+    /** Schemas to introspect (PostgreSQL) — defaults to ["public"] */
+    schemas: schemaListSchema.optional(),
+    /** Warn when the credentials can write (read-only transactions apply either way) */
+    checkWriteAccess: z.boolean().optional().default(true),
   })
   .refine(
     (data) => {
@@ -21,6 +44,10 @@ export const createDataSourceSchema = z
       if (data.connectionString && data.connectionString.trim().length > 0) {
         return true;
       }
+      // File-backed sources only need the database file path
+      if (isFileDatabaseType(data.type)) {
+        return data.database!.length > 0;
+      }
       return (
         data.host!.length > 0 &&
         data.database!.length > 0 &&
@@ -30,12 +57,50 @@ export const createDataSourceSchema = z
     },
     {
       message:
-        "Provide either a connection string or all individual fields (host, database, username, password)",
+        "Provide either a connection string or all individual fields (host, database, username, password; a file path for SQLite/DuckDB)",
     }
   );
 
 export type CreateDataSourceSchema = z.infer<typeof createDataSourceSchema>;
 
+export const costBudgetSchema = z.object({
+  maxTotalCost: z.number().positive(),
+  maxRows: z.number().int().positive(),
+  maxSeqScanRows: z.number().int().positive(),
+  onExceed: z.enum(["reject", "warn"]),
+});
+
+export const queryQuotaSchema = z.object({
+  queriesPerMinute: z.number().int().positive().optional(),
+  rowsPerHour: z.number().int().positive().optional(),
+  maxConcurrent: z.number().int().positive().optional(),
+});
+
+export const updateDataSourceSchema = z
+  .object({
+    schemas: schemaListSchema.optional(),
+    /** null restores the default budget */
+    costBudget: costBudgetSchema.nullable().optional(),
+    /** Seconds; 0 disables caching, null restores the default */
+    cacheTtlSeconds: z.number().int().min(0).max(86400).nullable().optional(),
+    /** Limits on all queries to the source; null restores the defaults */
+    queryQuota: queryQuotaSchema.nullable().optional(),
+    /** Limits on each user's queries to the source; null restores the defaults */
+    userQueryQuota: queryQuotaSchema.nullable().optional(),
+  })
+  .refine(
+    (data) =>
+      data.schemas !== undefined ||
+      data.costBudget !== undefined ||
+      data.cacheTtlSeconds !== undefined ||
+      data.queryQuota !== undefined ||
+      data.userQueryQuota !== undefined,
+    {
+      message:
+        "Nothing to update — provide schemas, costBudget, cacheTtlSeconds, queryQuota or userQueryQuota",
+    }
+  );
+
 // ──── Permission Schemas ─────────────────────────────────────────────────────
 
 export const updatePermissionsSchema = z.object({
@@ -45,6 +110,9 @@ export const updatePermissionsSchema = z.object({
       tableName: z.string().min(1),
       allowed: z.boolean(),
       maskedColumns: z.array(z.string()).optional().default([]),
+      maskingStrategies: z.record(z.string(), z.enum(MASKING_STRATEGIES)).optional().default({}),
+      rowFilter: z.string().max(1000).optional(),
+      minGroupSize: z.number().int().min(2).max(1000).optional(),
       rowLimit: z.number().int().min(1).max(100000).optional().default(1000),
     })
   ),
@@ -54,13 +122,109 @@ export type UpdatePermissionsSchema = z.infer<typeof updatePermissionsSchema>;
 
 // ──── Query Schemas ──────────────────────────────────────────────────────────
 
-export const queryRequestSchema = z.object({
+export const queryRequestSchema = z
+  .object({
+    dataSourceId: z.string().uuid(),
+    query: z.string().min(1).optional(),
+    params: z.array(z.unknown()).optional(),
+    /** Client-chosen ID, so the query can be cancelled while it runs */
+    queryId: z.string().uuid().optional(),
+    /** Return the result a page at a time, with a token for the next page */
+    pageSize: z.number().int().min(1).max(1000).optional(),
+    /** Continue a paged query instead of starting one */
+    pageToken: z.string().uuid().optional(),
+    /** Audit attribution: the Tambo thread and app feature the query came from */
+    threadId: z.string().max(500).optional(),
+    feature: z.enum(QUERY_FEATURES).optional(),
+  })
+  .refine((data) => (data.query === undefined) !== (data.pageToken === undefined), {
+    message: "Provide either a query or a pageToken",
+  });
+
+export type QueryRequestSchema = z.infer<typeof queryRequestSchema>;
+
+export const aggregateRequestSchema = z.object({
   dataSourceId: z.string().uuid(),
-  query: z.string().min(1),
-  params: z.array(z.unknown()).optional(),
+  collection: z.string().min(1),
+  pipeline: z.array(z.record(z.string(), z.unknown())),
+  queryId: z.string().uuid().optional(),
+  threadId: z.string().max(500).optional(),
+  feature: z.enum(QUERY_FEATURES).optional(),
 });
 
-export type QueryRequestSchema = z.infer<typeof queryRequestSchema>;
+export type AggregateRequestSchema = z.infer<typeof aggregateRequestSchema>;
+
+/** GET /api/audit search params */
+export const auditLogQuerySchema = z.object({
+  dataSourceId: z.string().uuid().optional(),
+  userId: z.string().uuid().optional(),
+  status: z.enum(AUDIT_STATUSES).optional(),
+  feature: z.enum(QUERY_FEATURES).optional(),
+  /** ISO date or timestamp — entries at or after it */
+  from: z.coerce.date().optional(),
+  /** ISO date or timestamp — entries before it */
+  to: z.coerce.date().optional(),
+  /** Defaults to 100 entries, or 10,000 for a CSV export */
+  limit: z.coerce.number().int().min(1).max(10_000).optional(),
+  offset: z.coerce.number().int().min(0).default(0),
+  format: z.enum(["json", "csv"]).default("json"),
+});
+
+// ──── Saved Query Schemas ────────────────────────────────────────────────────
+
+const parameterValueSchema = z.union([z.string().max(1000), z.number(), z.boolean(), z.null()]);
+
+const savedQueryParameterSchema = z.object({
+  name: z
+    .string()
+    .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Parameter names must be plain identifiers")
+    .max(63),
+  type: z.enum(SAVED_QUERY_PARAMETER_TYPES),
+  description: z.string().max(500).optional(),
+  default: parameterValueSchema.optional(),
+});
+
+const tagListSchema = z.array(z.string().trim().min(1).max(50)).max(20);
+
+export const createSavedQuerySchema = z.object({
+  dataSourceId: z.string().uuid(),
+  name: z.string().trim().min(1, "Name is required").max(255),
+  description: z.string().max(2000).optional(),
+  /** SQL with :name placeholders for the parameters */
+  sql: z.string().trim().min(1, "SQL is required").max(5000),
+  parameters: z.array(savedQueryParameterSchema).max(50).optional().default([]),
+  tags: tagListSchema.optional().default([]),
+  threadId: z.string().max(500).optional(),
+});
+
+export const updateSavedQuerySchema = z
+  .object({
+    name: z.string().trim().min(1).max(255).optional(),
+    /** null clears the description */
+    description: z.string().max(2000).nullable().optional(),
+    sql: z.string().trim().min(1).max(5000).optional(),
+    parameters: z.array(savedQueryParameterSchema).max(50).optional(),
+    tags: tagListSchema.optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "Nothing to update — provide name, description, sql, parameters or tags",
+  });
+
+/** GET /api/saved-queries search params */
+export const savedQueryListSchema = z.object({
+  dataSourceId: z.string().uuid().optional(),
+  tag: z.string().max(50).optional(),
+  search: z.string().max(200).optional(),
+});
+
+export const runSavedQuerySchema = z.object({
+  /** Parameter values by name */
+  params: z.record(z.string(), parameterValueSchema).optional().default({}),
+  queryId: z.string().uuid().optional(),
+  pageSize: z.number().int().min(1).max(1000).optional(),
+  threadId: z.string().max(500).optional(),
+  feature: z.enum(QUERY_FEATURES).optional(),
+});
 
 // ──── Generative UI Component Prop Schemas (for Tambo BYOC) ──────────────────
 
@@ -68,10 +232,20 @@ export type QueryRequestSchema = z.infer<typeof queryRequestSchema>;
 // Tambo streams partial JSON where fields can be null OR undefined at any point.
 const safeStr = () =>
   z.preprocess((v) => (v == null ? "" : v), z.string().default(""));
+// Query results carry exact decimals and big integers as numeric strings
 const safeNum = () =>
-  z.preprocess((v) => (v == null ? 0 : v), z.number().default(0));
+  z.preprocess(
+    (v) => (v == null ? 0 : typeof v === "string" ? Number(v) || 0 : v),
+    z.number().default(0)
+  );
 const safeStrArr = () =>
   z.preprocess((v) => (v == null ? [] : v), z.array(z.string()).default([]));
+// A table cell keeps its JSON type; null is SQL NULL
+const tableCell = () =>
+  z.preprocess(
+    (c) => (c === undefined ? null : typeof c === "object" && c !== null ? JSON.stringify(c) : c),
+    z.union([z.string(), z.number(), z.boolean(), z.null()])
+  );
 
 export const chartDataPointSchema = z.object({
   label: safeStr(),
@@ -96,7 +270,7 @@ export const dataTablePropsSchema = z.object({
   rows: z
     .preprocess(
       (v) => (v == null ? [] : v),
-      z.array(z.preprocess((r) => (r == null ? [] : r), z.array(z.preprocess((c) => (c == null ? "—" : String(c)), z.string())))).default([])
+      z.array(z.preprocess((r) => (r == null ? [] : r), z.array(tableCell()))).default([])
     )
     .describe("Array of rows, where each row is an array of cell values in the same order as columns"),
   totalRows: z
@@ -104,6 +278,21 @@ export const dataTablePropsSchema = z.object({
     .nullable()
     .optional()
     .describe("Total count if results are truncated"),
+  columnTypes: z
+    .array(z.object({ name: z.string(), type: z.string() }))
+    .nullable()
+    .optional()
+    .describe("The columnTypes from the query result (name and logical type) — numbers are right-aligned"),
+  dataSourceId: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The data source the rows were queried from — pass it with query"),
+  query: z
+    .string()
+    .nullable()
+    .optional()
+    .describe("The SQL query the rows came from, exactly as run with run_select_query — lets the user load more rows than you show"),
 });
 
 export const barChartPropsSchema = z.object({
@@ -1,12 +1,14 @@
 import { query, queryOne } from "../db";
-import { getCachedSchema, getAllowedTables } from "./data-source-service";
+import { getCachedSchema, getAllowedTables, getDataSource } from "./data-source-service";
 import { executeGuardedQuery } from "./query-service";
+import { getConnector } from "../connectors/registry";
 import { generateText } from "ai";
 import { openai } from "@ai-sdk/openai";
 import type {
   AnomalyAlert,
   AnomalyScan,
   AnomalySeverity,
+  ConnectorDialect,
   DatabaseSchema,
   TableSchema,
   ColumnSchema,
@@ -77,12 +79,15 @@ interface MetricCandidate {
 
 const NUMERIC_TYPES = new Set([
   "integer",
+  "int",
   "bigint",
   "smallint",
   "numeric",
   "decimal",
   "real",
   "double precision",
+  "double",
+  "float",
   "money",
 ]);
 
@@ -92,6 +97,7 @@ const TIMESTAMP_TYPES = new Set([
   "date",
   "timestamptz",
   "timestamp",
+  "datetime",
 ]);
 
 /**
@@ -108,6 +114,9 @@ function findMetricCandidates(
   for (const table of schema.tables) {
     if (!allowedSet.has(table.name.toLowerCase())) continue;
 
+    // Plain views re-run their query on every scan and have no size estimate
+    if (table.kind === "view") continue;
+
     // Skip huge tables unless they have a likely indexed timestamp
     if (table.rowCount && table.rowCount > MAX_ROW_ESTIMATE_FOR_SCAN) continue;
 
@@ -142,6 +151,18 @@ function findMetricCandidates(
 
 // ──── Query Generation ───────────────────────────────────────────────────────
 
+/**
+ * Quote a table for the dialect. Tables outside the default schema are named
+ * "schema.table" and must be quoted part by part ("sales"."orders").
+ */
+function quoteTableName(table: TableSchema, dialect: ConnectorDialect): string {
+  const q = dialect.quoteIdentifier;
+  if (table.schema && table.name.startsWith(`${table.schema}.`)) {
+    return `${q(table.schema)}.${q(table.name.slice(table.schema.length + 1))}`;
+  }
+  return q(table.name);
+}
+
 interface ComparisonQuery {
   description: string;
   sql: string;
@@ -150,15 +171,20 @@ interface ComparisonQuery {
 }
 
 /**
- * Generate week-over-week comparison queries for the given metric candidates.
+ * Generate week-over-week comparison queries for the given metric candidates,
+ * using the data source's dialect for identifier quoting and date arithmetic.
  */
 function generateComparisonQueries(
-  candidates: MetricCandidate[]
+  candidates: MetricCandidate[],
+  dialect: ConnectorDialect
 ): ComparisonQuery[] {
   const queries: ComparisonQuery[] = [];
+  const q = dialect.quoteIdentifier;
+  const daysAgo = dialect.daysAgo!;
 
   for (const { table, numericCol, timeCol } of candidates) {
     if (queries.length >= MAX_QUERIES_PER_SCAN) break;
+    const from = quoteTableName(table, dialect);
 
     // Week-over-week aggregate comparison
     queries.push({
@@ -168,18 +194,18 @@ function generateComparisonQueries(
       sql: `
         SELECT
           'this_week' AS period,
-          COALESCE(SUM("${numericCol.name}"), 0) AS total,
+          COALESCE(SUM(${q(numericCol.name)}), 0) AS total,
           COUNT(*) AS row_count
-        FROM "${table.name}"
-        WHERE "${timeCol.name}" >= NOW() - INTERVAL '7 days'
+        FROM ${from}
+        WHERE ${q(timeCol.name)} >= ${daysAgo(7)}
         UNION ALL
         SELECT
           'last_week' AS period,
-          COALESCE(SUM("${numericCol.name}"), 0) AS total,
+          COALESCE(SUM(${q(numericCol.name)}), 0) AS total,
           COUNT(*) AS row_count
-        FROM "${table.name}"
-        WHERE "${timeCol.name}" >= NOW() - INTERVAL '14 days'
-          AND "${timeCol.name}" < NOW() - INTERVAL '7 days'
+        FROM ${from}
+        WHERE ${q(timeCol.name)} >= ${daysAgo(14)}
+          AND ${q(timeCol.name)} < ${daysAgo(7)}
       `.trim(),
     });
 
@@ -193,18 +219,18 @@ function generateComparisonQueries(
       sql: `
         SELECT
           'recent_30d' AS period,
-          COALESCE(SUM("${numericCol.name}"), 0) AS total,
+          COALESCE(SUM(${q(numericCol.name)}), 0) AS total,
           COUNT(*) AS row_count
-        FROM "${table.name}"
-        WHERE "${timeCol.name}" >= NOW() - INTERVAL '30 days'
+        FROM ${from}
+        WHERE ${q(timeCol.name)} >= ${daysAgo(30)}
         UNION ALL
         SELECT
           'prior_30d' AS period,
-          COALESCE(SUM("${numericCol.name}"), 0) AS total,
+          COALESCE(SUM(${q(numericCol.name)}), 0) AS total,
           COUNT(*) AS row_count
-        FROM "${table.name}"
-        WHERE "${timeCol.name}" >= NOW() - INTERVAL '60 days'
-          AND "${timeCol.name}" < NOW() - INTERVAL '30 days'
+        FROM ${from}
+        WHERE ${q(timeCol.name)} >= ${daysAgo(60)}
+          AND ${q(timeCol.name)} < ${daysAgo(30)}
       `.trim(),
     });
   }
@@ -408,7 +434,17 @@ export async function runAnomalyScan(
       return { scanId, alerts: [] };
     }
 
-    // 2. Get allowed tables
+    // 2. Resolve the SQL dialect — scans generate SQL, so document stores are skipped
+    const dataSource = await getDataSource(dataSourceId);
+    const dialect = dataSource ? getConnector(dataSource.type).dialect : null;
+    if (!dialect || dialect.queryKind !== "sql" || !dialect.daysAgo) {
+      await updateScanStatus(scanId, "failed", {
+        errorMessage: "Anomaly scans are only supported for SQL data sources",
+      });
+      return { scanId, alerts: [] };
+    }
+
+    // 3. Get allowed tables
     const allowedTables = await getAllowedTables(dataSourceId);
     if (allowedTables.length === 0) {
       await updateScanStatus(scanId, "failed", {
@@ -417,7 +453,7 @@ export async function runAnomalyScan(
       return { scanId, alerts: [] };
     }
 
-    // 3. Find metric candidates in the schema
+    // 4. Find metric candidates in the schema
     const candidates = findMetricCandidates(schema, allowedTables);
     if (candidates.length === 0) {
       await updateScanStatus(scanId, "completed", {
@@ -428,16 +464,19 @@ export async function runAnomalyScan(
       return { scanId, alerts: [] };
     }
 
-    // 4. Generate comparison queries
-    const comparisonQueries = generateComparisonQueries(candidates);
+    // 5. Generate comparison queries
+    const comparisonQueries = generateComparisonQueries(candidates, dialect);
 
-    // 5. Execute each query through the guarded pipeline
+    // 6. Execute each query through the guarded pipeline
     const rawResults: RawResult[] = [];
     const scannedTables = new Set<string>();
 
     for (const cq of comparisonQueries) {
       try {
-        const { result } = await executeGuardedQuery(dataSourceId, cq.sql);
+        const { result } = await executeGuardedQuery(dataSourceId, cq.sql, undefined, {
+          userId,
+          feature: "anomaly_scan",
+        });
         if (result && result.rows.length > 0) {
           rawResults.push({ query: cq, rows: result.rows });
           scannedTables.add(cq.tableName);
@@ -447,16 +486,16 @@ export async function runAnomalyScan(
       }
     }
 
-    // 6. Detect anomalies via heuristics
+    // 7. Detect anomalies via heuristics
     let anomalies = heuristicDetect(rawResults);
 
-    // 7. Optionally enhance descriptions with LLM
+    // 8. Optionally enhance descriptions with LLM
     anomalies = await llmEnhance(anomalies);
 
-    // 8. Persist alerts
+    // 9. Persist alerts
     await persistAlerts(scanId, dataSourceId, anomalies);
 
-    // 9. Update scan record
+    // 10. Update scan record
     await updateScanStatus(scanId, "completed", {
       tablesScanned: scannedTables.size,
       queriesRun: comparisonQueries.length,
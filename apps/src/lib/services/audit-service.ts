@@ -0,0 +1,363 @@
+import crypto from "crypto";
+import path from "path";
+import { promisify } from "util";
+import { gzip, gunzip } from "zlib";
+import { mkdir, open, readFile, unlink } from "fs/promises";
+import { query, queryOne, getPool } from "../db";
+import {
+  AUDIT_CHAIN_LOCK,
+  finishChainWalk,
+  passChainEnd,
+  signChainHead,
+  startChainWalk,
+  walkChain,
+  type ChainHead,
+  type ChainedAuditRow,
+} from "../audit-chain";
+import type { AuditArchive, AuditChainReport, AuditLogEntry, AuditLogFilter } from "../types";
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+// ──── Audit Log Queries ──────────────────────────────────────────────────────
+
+const AUDIT_COLUMNS = `
+  l.id,
+  l.data_source_id    AS "dataSourceId",
+  ds.name             AS "dataSourceName",
+  l.user_id           AS "userId",
+  u.email             AS "userEmail",
+  l.thread_id         AS "threadId",
+  l.feature,
+  l.query_text        AS "queryText",
+  l.query_params      AS "queryParams",
+  l.execution_time_ms AS "executionTimeMs",
+  l.row_count         AS "rowCount",
+  l.status,
+  l.error_message     AS "errorMessage",
+  l.cache_status      AS "cacheStatus",
+  l.created_at        AS "createdAt"
+`;
+
+/**
+ * Audit log entries of the data sources `ownerId` owns, newest first.
+ * Every filter is optional; `limit` defaults to 100.
+ */
+export async function listAuditLog(
+  ownerId: string,
+  filter: AuditLogFilter = {}
+): Promise<AuditLogEntry[]> {
+  const params: unknown[] = [ownerId];
+  const conditions = ["ds.user_id = $1"];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replace("?", `$${params.length}`));
+  };
+
+  if (filter.dataSourceId) add("l.data_source_id = ?", filter.dataSourceId);
+  if (filter.userId) add("l.user_id = ?", filter.userId);
+  if (filter.status) add("l.status = ?", filter.status);
+  if (filter.feature) add("l.feature = ?", filter.feature);
+  if (filter.from) add("l.created_at >= ?", filter.from);
+  if (filter.to) add("l.created_at < ?", filter.to);
+
+  params.push(filter.limit ?? 100, filter.offset ?? 0);
+  return query<AuditLogEntry>(
+    `SELECT ${AUDIT_COLUMNS}
+     FROM query_audit_log l
+     JOIN data_sources ds ON ds.id = l.data_source_id
+     LEFT JOIN users u ON u.id = l.user_id
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY l.created_at DESC, l.id
+     LIMIT $${params.length - 1} OFFSET $${params.length}`,
+    params
+  );
+}
+
+// ──── CSV Export ─────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS: (keyof AuditLogEntry)[] = [
+  "createdAt",
+  "status",
+  "dataSourceName",
+  "dataSourceId",
+  "userEmail",
+  "userId",
+  "feature",
+  "threadId",
+  "queryText",
+  "queryParams",
+  "rowCount",
+  "executionTimeMs",
+  "cacheStatus",
+  "errorMessage",
+];
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text =
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** RFC 4180 CSV of audit log entries, with a header row */
+export function auditLogToCsv(entries: AuditLogEntry[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const entry of entries) {
+    lines.push(CSV_COLUMNS.map((column) => csvField(entry[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+// ──── Chain Verification ─────────────────────────────────────────────────────
+
+/** Rows read per round trip while walking the chain */
+const VERIFY_BATCH_SIZE = 1000;
+
+/** Problems listed in a report; the rest are only counted as invalid */
+const MAX_REPORTED_PROBLEMS = 100;
+
+const CHAIN_COLUMNS = `
+  seq::float8         AS seq,
+  id,
+  data_source_id      AS "dataSourceId",
+  user_id             AS "userId",
+  thread_id           AS "threadId",
+  feature,
+  query_text          AS "queryText",
+  query_params        AS "queryParams",
+  execution_time_ms   AS "executionTimeMs",
+  row_count           AS "rowCount",
+  status,
+  error_message       AS "errorMessage",
+  cache_status        AS "cacheStatus",
+  created_at          AS "createdAt",
+  prev_hash           AS "prevHash",
+  entry_hash          AS "entryHash"
+`;
+
+const ARCHIVE_COLUMNS = `
+  id,
+  file_name           AS "fileName",
+  first_seq::float8   AS "firstSeq",
+  last_seq::float8    AS "lastSeq",
+  entry_count         AS "entryCount",
+  prev_hash           AS "prevHash",
+  last_hash           AS "lastHash",
+  file_sha256         AS "fileSha256",
+  archived_at         AS "archivedAt"
+`;
+
+/** Directory audit archives are written to: AUDIT_ARCHIVE_DIR, or ./audit-archive */
+export function getAuditArchiveDir(): string {
+  return path.resolve(process.env.AUDIT_ARCHIVE_DIR || path.join(process.cwd(), "audit-archive"));
+}
+
+export async function listAuditArchives(): Promise<AuditArchive[]> {
+  return query<AuditArchive>(`SELECT ${ARCHIVE_COLUMNS} FROM audit_archives ORDER BY first_seq`);
+}
+
+/** Entries of an archive file, or why they can't be trusted */
+async function readArchive(
+  archive: AuditArchive
+): Promise<{ rows: ChainedAuditRow[] } | { problem: "archive_missing" | "archive_modified"; message: string }> {
+  let compressed: Buffer;
+  try {
+    compressed = await readFile(path.join(getAuditArchiveDir(), archive.fileName));
+  } catch {
+    return { problem: "archive_missing", message: `Archive ${archive.fileName} is missing` };
+  }
+  const sha256 = crypto.createHash("sha256").update(compressed).digest("hex");
+  if (sha256 !== archive.fileSha256) {
+    return {
+      problem: "archive_modified",
+      message: `Archive ${archive.fileName} isn't the file that was written (SHA-256 differs)`,
+    };
+  }
+  const lines = (await gunzipAsync(compressed)).toString("utf8").split("\n").filter(Boolean);
+  return { rows: lines.map((line) => JSON.parse(line) as ChainedAuditRow) };
+}
+
+/**
+ * Whether `email` belongs to an operator listed in AUDIT_ADMIN_EMAILS
+ * (comma-separated). The chain spans every owner's entries, so verifying it
+ * is an operator's job, not a data source owner's.
+ */
+export function isAuditAdmin(email: string): boolean {
+  const admins = (process.env.AUDIT_ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((admin) => admin.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.trim().toLowerCase());
+}
+
+/**
+ * Verify the whole audit log chain, oldest entry first: every entry must
+ * match its hash and link to the one before it, through archives into the
+ * live table. With `includeArchives` the archive files are read and checked
+ * entry by entry; otherwise only the hashes recorded at their ends are.
+ */
+export async function verifyAuditChain(
+  options: { includeArchives?: boolean } = {}
+): Promise<AuditChainReport> {
+  // Read before walking, so entries appended meanwhile can't hide the head
+  const recorded = await queryOne<ChainHead & { mac: string }>(
+    `SELECT last_seq::float8 AS seq, last_hash AS hash, mac FROM audit_chain_head`
+  );
+  const headProblem = !recorded
+    ? "No chain head is recorded — the head record was deleted"
+    : signChainHead(recorded) !== recorded.mac
+      ? "The chain head record doesn't match its MAC — it was modified"
+      : null;
+  const walk = startChainWalk(recorded && !headProblem ? { seq: recorded.seq, hash: recorded.hash } : null);
+  const archives = await listAuditArchives();
+
+  for (const archive of archives) {
+    const read = options.includeArchives ? await readArchive(archive) : null;
+    if (read && "rows" in read) {
+      walkChain(walk, read.rows, archive.fileName);
+      continue;
+    }
+    if (read) walk.problems.push({ kind: read.problem, archive: archive.fileName, message: read.message });
+
+    // Unread archives are taken at their recorded ends
+    if (archive.prevHash && archive.prevHash !== walk.expected) {
+      walk.problems.push({
+        kind: "broken_link",
+        seq: archive.firstSeq,
+        archive: archive.fileName,
+        message: `Archive ${archive.fileName} doesn't link to the entries before it — entries were deleted`,
+      });
+    }
+    if (archive.lastHash) {
+      walk.expected = archive.lastHash;
+      walk.chained = true;
+      passChainEnd(walk, archive.lastSeq, archive.lastHash);
+    }
+  }
+
+  let afterSeq = -1;
+  for (;;) {
+    const rows = await query<ChainedAuditRow>(
+      `SELECT ${CHAIN_COLUMNS} FROM query_audit_log WHERE seq > $1 ORDER BY seq LIMIT $2`,
+      [afterSeq, VERIFY_BATCH_SIZE]
+    );
+    walkChain(walk, rows);
+    if (rows.length < VERIFY_BATCH_SIZE) break;
+    afterSeq = rows[rows.length - 1].seq;
+  }
+  // A log that was never chained has no head to lose
+  if (headProblem && walk.chained) walk.problems.push({ kind: "head_modified", message: headProblem });
+  finishChainWalk(walk);
+
+  const head = walk.last;
+  return {
+    valid: walk.problems.length === 0,
+    checkedEntries: walk.checked,
+    unchainedEntries: walk.unchained,
+    archives: archives.length,
+    archivesVerified: !!options.includeArchives,
+    head: head?.entryHash
+      ? { seq: head.seq, hash: head.entryHash, createdAt: new Date(head.createdAt).toISOString() }
+      : null,
+    problems: walk.problems.slice(0, MAX_REPORTED_PROBLEMS),
+    verifiedAt: new Date().toISOString(),
+  };
+}
+
+// ──── Retention ──────────────────────────────────────────────────────────────
+
+/** Entries per archive file */
+const ARCHIVE_BATCH_SIZE = 50_000;
+
+/**
+ * Move the oldest entries of one archive file out of the database: those up
+ * to the newest entry created before `before`, so what stays behind is
+ * always the end of the chain. Returns null when there is nothing to archive.
+ */
+async function archiveBatch(before: Date, dir: string): Promise<AuditArchive | null> {
+  const client = await getPool().connect();
+  let filePath: string | null = null;
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock($1)", [AUDIT_CHAIN_LOCK]);
+
+    const { rows } = await client.query<ChainedAuditRow>(
+      `SELECT ${CHAIN_COLUMNS} FROM query_audit_log
+       WHERE seq <= (SELECT MAX(seq) FROM query_audit_log WHERE created_at < $1)
+       ORDER BY seq LIMIT $2`,
+      [before, ARCHIVE_BATCH_SIZE]
+    );
+    if (rows.length === 0) {
+      await client.query("ROLLBACK");
+      return null;
+    }
+
+    const first = rows[0].seq;
+    const last = rows[rows.length - 1].seq;
+    const chained = rows.filter((row) => row.entryHash);
+    const ndjson = rows
+      .map((row) => JSON.stringify({ ...row, createdAt: new Date(row.createdAt).toISOString() }))
+      .join("\n");
+    const compressed = await gzipAsync(`${ndjson}\n`);
+
+    const fileName = `query-audit-${first}-${last}.ndjson.gz`;
+    filePath = path.join(dir, fileName);
+    // Exclusive create — an archive file is never overwritten
+    const file = await open(filePath, "wx");
+    try {
+      await file.writeFile(compressed);
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    const archive = await client.query<AuditArchive>(
+      `INSERT INTO audit_archives (file_name, first_seq, last_seq, entry_count, prev_hash, last_hash, file_sha256)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${ARCHIVE_COLUMNS}`,
+      [
+        fileName,
+        first,
+        last,
+        rows.length,
+        chained[0]?.prevHash ?? null,
+        chained[chained.length - 1]?.entryHash ?? null,
+        crypto.createHash("sha256").update(compressed).digest("hex"),
+      ]
+    );
+    await client.query("DELETE FROM query_audit_log WHERE seq BETWEEN $1 AND $2", [first, last]);
+    await client.query("COMMIT");
+    return archive.rows[0];
+  } catch (err) {
+    await client.query("ROLLBACK");
+    if (filePath) await unlink(filePath).catch(() => { });
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Retention: move audit log entries created before `before` into gzipped
+ * NDJSON files in the archive directory, in order and with their hashes.
+ * Each file is written and synced before its entries are deleted, in one
+ * transaction per file. Returns the archives written.
+ */
+export async function archiveAuditLog(before: Date): Promise<AuditArchive[]> {
+  const dir = getAuditArchiveDir();
+  await mkdir(dir, { recursive: true });
+
+  const written: AuditArchive[] = [];
+  for (;;) {
+    const archive = await archiveBatch(before, dir);
+    if (!archive) return written;
+    written.push(archive);
+  }
+}
@@ -9,6 +9,8 @@ export interface User {
   name: string;
   passwordHash: string;
   isDemo: boolean;
+  /** Free-form attributes (tenant, region ...) that row filters can reference */
+  attributes: Record<string, string | number | boolean>;
   createdAt: string;
 }
 
@@ -22,6 +24,7 @@ const USER_COLUMNS = `
   name,
   password_hash AS "passwordHash",
   is_demo       AS "isDemo",
+  COALESCE(attributes, '{}') AS attributes,
   created_at    AS "createdAt"
 `;
 
@@ -81,6 +84,18 @@ export async function verifyCredentials(
   return toSafe(user);
 }
 
+/**
+ * Values a row filter's :placeholders can take for a user — their attributes
+ * plus the built-in :userId and :userEmail, which attributes cannot override.
+ */
+export async function getUserAttributes(
+  userId: string
+): Promise<Record<string, string | number | boolean>> {
+  const user = await getUserById(userId);
+  if (!user) return {};
+  return { ...user.attributes, userId: user.id, userEmail: user.email };
+}
+
 // ──── Demo User Seeding ──────────────────────────────────────────────────────
 
 export const DEMO_USER_EMAIL = "demo@tambolens.com";
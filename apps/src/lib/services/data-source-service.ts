@@ -1,10 +1,21 @@
+import type { PoolClient } from "pg";
 import { query, queryOne, getPool } from "../db";
 import { encrypt } from "../encryption";
+import { randomUUID } from "crypto";
+import { unlink } from "fs/promises";
+import { getConnector } from "../connectors/registry";
+import { resolveDataFile, isUploadedFile, uploadOwner } from "../connectors/local-files";
+import { invalidateQueryCache } from "../query-cache";
+import { describeColumn } from "../result-serialization";
 import {
-  parseConnectionString,
-  testConnection,
-  introspectPostgresSchema,
-} from "../connectors/postgres";
+  AUDIT_CHAIN_LOCK,
+  AUDIT_GENESIS_HASH,
+  hashAuditEntry,
+  signChainHead,
+  type ChainHead,
+  type ChainedAuditFields,
+} from "../audit-chain";
+import { FILE_DATABASE_TYPES, isFileDatabaseType } from "../types";
 import type {
   DataSource,
   DataSourceSafe,
@@ -12,6 +23,13 @@ import type {
   TablePermission,
   DataSourcePermissions,
   DatabaseSchema,
+  IntrospectionProgress,
+  CostBudget,
+  MaskingStrategy,
+  QueryQuota,
+  AuditStatus,
+  QueryAttribution,
+  QueryCacheStatus,
 } from "../types";
 
 // ──── Column Alias Fragment (snake_case → camelCase) ─────────────────────────
@@ -26,8 +44,14 @@ const DS_COLUMNS = `
   username,
   encrypted_password AS "encryptedPassword",
   ssl,
+  schemas,
   status,
   read_only       AS "readOnly",
+  write_warning   AS "writeWarning",
+  cost_budget     AS "costBudget",
+  cache_ttl_seconds AS "cacheTtlSeconds",
+  query_quota     AS "queryQuota",
+  user_query_quota AS "userQueryQuota",
   created_at      AS "createdAt",
   updated_at      AS "updatedAt"
 `;
@@ -41,7 +65,7 @@ export async function createDataSource(
   // If a connection string is provided, parse it to extract individual fields
   let { host, port, database, username, password, ssl } = input;
   if (input.connectionString && input.connectionString.trim().length > 0) {
-    const parsed = parseConnectionString(input.connectionString);
+    const parsed = getConnector(input.type).parseConnectionString(input.connectionString);
     host = parsed.host;
     port = parsed.port;
     database = parsed.database;
@@ -50,11 +74,30 @@ export async function createDataSource(
     ssl = parsed.ssl || input.ssl || false;
   }
 
+  // File-backed sources: validate the path up front and ignore network fields.
+  // An uploaded file belongs to the user who uploaded it and to one source.
+  if (isFileDatabaseType(input.type)) {
+    database = resolveDataFile(database);
+    if (isUploadedFile(database)) {
+      if (!userId || uploadOwner(database) !== userId) {
+        throw new AccessDeniedError("Uploaded files can only be registered by the user who uploaded them");
+      }
+      if ((await dataFileReferences(database)).length > 0) {
+        throw new AccessDeniedError("This uploaded file already belongs to another data source");
+      }
+    }
+    host = "";
+    port = 0;
+    username = "";
+    password = "";
+    ssl = false;
+  }
+
   const encryptedPassword = encrypt(password);
 
   const row = await queryOne<DataSource>(
-    `INSERT INTO data_sources (name, type, host, port, database_name, username, encrypted_password, ssl, status, read_only, user_id)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'disconnected', true, $9)
+    `INSERT INTO data_sources (name, type, host, port, database_name, username, encrypted_password, ssl, schemas, status, read_only, user_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, 'disconnected', true, $10)
      RETURNING ${DS_COLUMNS}`,
     [
       input.name,
@@ -65,6 +108,7 @@ export async function createDataSource(
       username,
       encryptedPassword,
       ssl ?? false,
+      input.schemas?.length ? input.schemas : ["public"],
       userId ?? null,
     ]
   );
@@ -111,8 +155,172 @@ export async function updateDataSourceStatus(
   );
 }
 
+/**
+ * Change which schemas are introspected. Callers introspect the new list
+ * first and cache the result once it is saved; permissions on tables in dropped schemas stay stored but no longer match
+ * anything in the cached schema.
+ */
+export async function updateDataSourceSchemas(
+  id: string,
+  schemas: string[]
+): Promise<DataSourceSafe | null> {
+  const row = await queryOne<DataSource>(
+    `UPDATE data_sources SET schemas = $1, updated_at = NOW() WHERE id = $2
+     RETURNING ${DS_COLUMNS}`,
+    [schemas, id]
+  );
+  return row ? toSafe(row) : null;
+}
+
+/** Set the plan budgets checked before each query; null restores the defaults */
+export async function updateDataSourceCostBudget(
+  id: string,
+  costBudget: CostBudget | null
+): Promise<DataSourceSafe | null> {
+  const row = await queryOne<DataSource>(
+    `UPDATE data_sources SET cost_budget = $1, updated_at = NOW() WHERE id = $2
+     RETURNING ${DS_COLUMNS}`,
+    [costBudget ? JSON.stringify(costBudget) : null, id]
+  );
+  return row ? toSafe(row) : null;
+}
+
+/** Set how long query results are cached; null restores the default */
+export async function updateDataSourceCacheTtl(
+  id: string,
+  cacheTtlSeconds: number | null
+): Promise<DataSourceSafe | null> {
+  const row = await queryOne<DataSource>(
+    `UPDATE data_sources SET cache_ttl_seconds = $1, updated_at = NOW() WHERE id = $2
+     RETURNING ${DS_COLUMNS}`,
+    [cacheTtlSeconds, id]
+  );
+  invalidateQueryCache(id);
+  return row ? toSafe(row) : null;
+}
+
+/** Set the limits on all queries to the source together; null restores the defaults */
+export async function updateDataSourceQueryQuota(
+  id: string,
+  queryQuota: QueryQuota | null
+): Promise<DataSourceSafe | null> {
+  const row = await queryOne<DataSource>(
+    `UPDATE data_sources SET query_quota = $1, updated_at = NOW() WHERE id = $2
+     RETURNING ${DS_COLUMNS}`,
+    [queryQuota ? JSON.stringify(queryQuota) : null, id]
+  );
+  return row ? toSafe(row) : null;
+}
+
+/** Set the limits on each user's queries to the source; null restores the defaults */
+export async function updateDataSourceUserQueryQuota(
+  id: string,
+  userQueryQuota: QueryQuota | null
+): Promise<DataSourceSafe | null> {
+  const row = await queryOne<DataSource>(
+    `UPDATE data_sources SET user_query_quota = $1, updated_at = NOW() WHERE id = $2
+     RETURNING ${DS_COLUMNS}`,
+    [userQueryQuota ? JSON.stringify(userQueryQuota) : null, id]
+  );
+  return row ? toSafe(row) : null;
+}
+
 export async function deleteDataSource(id: string): Promise<void> {
-  await query(`DELETE FROM data_sources WHERE id = $1`, [id]);
+  const deleted = await queryOne<Pick<DataSource, "type" | "database">>(
+    `DELETE FROM data_sources WHERE id = $1 RETURNING type, database_name AS "database"`,
+    [id]
+  );
+  // Drop any pooled connections and cached results held for the removed source
+  invalidateQueryCache(id);
+  if (deleted) {
+    await getConnector(deleted.type).close(id).catch(() => { });
+
+    // Uploaded database files belong to the source — remove them with it,
+    // unless another source still reads the file
+    if (isFileDatabaseType(deleted.type) && isUploadedFile(deleted.database)) {
+      const filePath = resolveDataFile(deleted.database);
+      if ((await dataFileReferences(filePath)).length === 0) {
+        await unlink(filePath).catch(() => { });
+      }
+    }
+  }
+}
+
+/** Ids of the file-backed data sources whose database is the file at `filePath` */
+async function dataFileReferences(filePath: string): Promise<string[]> {
+  const rows = await query<Pick<DataSource, "id" | "database">>(
+    `SELECT id, database_name AS "database" FROM data_sources WHERE type = ANY($1)`,
+    [FILE_DATABASE_TYPES]
+  );
+  // Older rows may hold paths relative to the data directory
+  return rows
+    .filter((row) => {
+      try {
+        return resolveDataFile(row.database) === filePath;
+      } catch {
+        return false;
+      }
+    })
+    .map((row) => row.id);
+}
+
+// ──── Connector Dispatch ─────────────────────────────────────────────────────
+
+/**
+ * Test connectivity using the connector registered for the data source type.
+ */
+export async function testDataSourceConnection(
+  dataSource: DataSource
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    return await getConnector(dataSource.type).testConnection(dataSource);
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown connection error",
+    };
+  }
+}
+
+/**
+ * Check whether the data source's credentials can write and store the result
+ * as its `writeWarning` (cleared when they cannot). Queries run read-only
+ * either way — this flags roles broader than Tambo Lens needs. Best-effort:
+ * a failed check keeps the previous warning and resolves null.
+ */
+export async function checkDataSourceWriteAccess(
+  dataSource: DataSource
+): Promise<string | null> {
+  const connector = getConnector(dataSource.type);
+  if (!connector.checkWriteAccess) return null;
+
+  let findings: string[];
+  try {
+    findings = await connector.checkWriteAccess(dataSource);
+  } catch {
+    return null;
+  }
+
+  const warning = findings.length
+    ? `These credentials can write to the database (${findings.join("; ")}). ` +
+      "Queries still run read-only, but a read-only role is safer."
+    : null;
+  await query(
+    `UPDATE data_sources SET write_warning = $1 WHERE id = $2`,
+    [warning, dataSource.id]
+  );
+  return warning;
+}
+
+/**
+ * Introspect the schema using the connector registered for the data source type.
+ * `onProgress` receives partial results from connectors that load in batches.
+ */
+export async function introspectDataSourceSchema(
+  dataSource: DataSource,
+  onProgress?: (progress: IntrospectionProgress) => void
+): Promise<DatabaseSchema> {
+  return getConnector(dataSource.type).introspect(dataSource, onProgress);
 }
 
 // ──── Permissions ────────────────────────────────────────────────────────────
@@ -125,6 +333,9 @@ export async function getPermissions(
     table_name: string;
     allowed: boolean;
     masked_columns: string[];
+    masking_strategies: Record<string, MaskingStrategy> | null;
+    row_filter: string | null;
+    min_group_size: number | null;
     row_limit: number;
     updated_at: string;
   }>(
@@ -139,6 +350,9 @@ export async function getPermissions(
       tableName: r.table_name,
       allowed: r.allowed,
       maskedColumns: r.masked_columns,
+      maskingStrategies: r.masking_strategies ?? {},
+      rowFilter: r.row_filter ?? undefined,
+      minGroupSize: r.min_group_size ?? undefined,
       rowLimit: r.row_limit,
     })),
     updatedAt: rows[0]?.updated_at ?? new Date().toISOString(),
@@ -154,15 +368,19 @@ export async function upsertPermissions(
     await client.query("BEGIN");
     for (const perm of permissions) {
       await client.query(
-        `INSERT INTO table_permissions (data_source_id, table_name, allowed, masked_columns, row_limit)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO table_permissions (data_source_id, table_name, allowed, masked_columns, masking_strategies, row_filter, min_group_size, row_limit)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          ON CONFLICT (data_source_id, table_name)
-         DO UPDATE SET allowed = $3, masked_columns = $4, row_limit = $5, updated_at = NOW()`,
+         DO UPDATE SET allowed = $3, masked_columns = $4, masking_strategies = $5, row_filter = $6,
+                       min_group_size = $7, row_limit = $8, updated_at = NOW()`,
         [
           dataSourceId,
           perm.tableName,
           perm.allowed,
           perm.maskedColumns ?? [],
+          JSON.stringify(perm.maskingStrategies ?? {}),
+          perm.rowFilter?.trim() || null,
+          perm.minGroupSize ?? null,
           perm.rowLimit ?? 1000,
         ]
       );
@@ -174,6 +392,22 @@ export async function upsertPermissions(
   } finally {
     client.release();
   }
+  // Cached results were produced under the old permissions
+  invalidateQueryCache(dataSourceId);
+}
+
+/**
+ * Digest of every permission row of a data source — part of the query
+ * cache key, so results never outlive the permissions they were checked
+ * against, even in another server process.
+ */
+export async function getPermissionFingerprint(dataSourceId: string): Promise<string> {
+  const row = await queryOne<{ fingerprint: string }>(
+    `SELECT md5(COALESCE(string_agg(row_to_json(tp)::text, ',' ORDER BY table_name), '')) AS fingerprint
+     FROM table_permissions tp WHERE data_source_id = $1`,
+    [dataSourceId]
+  );
+  return row?.fingerprint ?? "";
 }
 
 export async function getAllowedTables(dataSourceId: string): Promise<string[]> {
@@ -184,22 +418,82 @@ export async function getAllowedTables(dataSourceId: string): Promise<string[]>
   return rows.map((r) => r.table_name);
 }
 
+/**
+ * Masked columns of each allowed table with their strategy — columns
+ * without a configured strategy are rejected, as before strategies existed.
+ */
 export async function getMaskedColumns(
   dataSourceId: string
-): Promise<Record<string, string[]>> {
-  const rows = await query<{ table_name: string; masked_columns: string[] }>(
-    `SELECT table_name, masked_columns FROM table_permissions WHERE data_source_id = $1 AND allowed = true`,
+): Promise<Record<string, Record<string, MaskingStrategy>>> {
+  const rows = await query<{
+    table_name: string;
+    masked_columns: string[];
+    masking_strategies: Record<string, MaskingStrategy> | null;
+  }>(
+    `SELECT table_name, masked_columns, masking_strategies FROM table_permissions WHERE data_source_id = $1 AND allowed = true`,
     [dataSourceId]
   );
-  const result: Record<string, string[]> = {};
+  const result: Record<string, Record<string, MaskingStrategy>> = {};
   for (const r of rows) {
     if (r.masked_columns?.length) {
-      result[r.table_name] = r.masked_columns;
+      result[r.table_name] = Object.fromEntries(
+        r.masked_columns.map((column) => [column, r.masking_strategies?.[column] ?? "reject"])
+      );
     }
   }
   return result;
 }
 
+/** Row limit of each allowed table, by table name */
+export async function getRowLimits(dataSourceId: string): Promise<Record<string, number>> {
+  const rows = await query<{ table_name: string; row_limit: number }>(
+    `SELECT table_name, row_limit FROM table_permissions
+     WHERE data_source_id = $1 AND allowed = true AND row_limit IS NOT NULL`,
+    [dataSourceId]
+  );
+  return Object.fromEntries(rows.map((r) => [r.table_name, r.row_limit]));
+}
+
+/** Minimum group size of the allowed tables that have one, by table name */
+export async function getMinGroupSizes(dataSourceId: string): Promise<Record<string, number>> {
+  const rows = await query<{ table_name: string; min_group_size: number }>(
+    `SELECT table_name, min_group_size FROM table_permissions
+     WHERE data_source_id = $1 AND allowed = true AND min_group_size IS NOT NULL`,
+    [dataSourceId]
+  );
+  return Object.fromEntries(rows.map((r) => [r.table_name, r.min_group_size]));
+}
+
+const NUMERIC_LOGICAL_TYPES = new Set(["integer", "float", "decimal", "money"]);
+
+/** Numeric columns of `tables` in the cached schema, by table name — unknown tables have none */
+export async function getNumericColumns(
+  dataSourceId: string,
+  tables: string[]
+): Promise<Record<string, string[]>> {
+  const schema = await getCachedSchema(dataSourceId);
+  return Object.fromEntries(
+    (schema?.tables ?? [])
+      .filter((table) => tables.includes(table.name))
+      .map((table) => [
+        table.name,
+        table.columns
+          .filter((c) => NUMERIC_LOGICAL_TYPES.has(describeColumn(c.name, c.dataType).type))
+          .map((c) => c.name),
+      ])
+  );
+}
+
+/** Row filters of the allowed tables that have one, by table name */
+export async function getRowFilters(dataSourceId: string): Promise<Record<string, string>> {
+  const rows = await query<{ table_name: string; row_filter: string }>(
+    `SELECT table_name, row_filter FROM table_permissions
+     WHERE data_source_id = $1 AND allowed = true AND row_filter IS NOT NULL`,
+    [dataSourceId]
+  );
+  return Object.fromEntries(rows.map((r) => [r.table_name, r.row_filter]));
+}
+
 // ──── Schema Cache ───────────────────────────────────────────────────────────
 
 export async function cacheSchema(
@@ -213,6 +507,8 @@ export async function cacheSchema(
      DO UPDATE SET schema_data = $2, fetched_at = NOW()`,
     [dataSourceId, JSON.stringify(schema)]
   );
+  // Results may reference tables or columns that have since changed
+  invalidateQueryCache(dataSourceId);
 }
 
 export async function getCachedSchema(
@@ -296,32 +592,101 @@ export async function updateDashboard(
 
 // ──── Query Audit Log ────────────────────────────────────────────────────────
 
-export async function logQuery(entry: {
-  dataSourceId: string;
-  queryText: string;
-  queryParams?: unknown[];
-  executionTimeMs?: number;
-  rowCount?: number;
-  status: "success" | "error" | "rejected";
-  errorMessage?: string;
-  userId?: string;
-}): Promise<void> {
-  await query(
-    `INSERT INTO query_audit_log (data_source_id, query_text, query_params, execution_time_ms, row_count, status, error_message, user_id)
-     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-    [
-      entry.dataSourceId,
-      entry.queryText,
-      entry.queryParams ? JSON.stringify(entry.queryParams) : null,
-      entry.executionTimeMs ?? null,
-      entry.rowCount ?? null,
-      entry.status,
-      entry.errorMessage ?? null,
-      entry.userId ?? null,
-    ]
+/**
+ * Append an entry to the query audit log, chained to the entry before it
+ * (see audit-chain.ts). Appends are serialized by an advisory lock, so
+ * concurrent queries can't both link to the same predecessor.
+ */
+/** Record the chain's newest entry apart from the log (see audit-chain.ts) */
+async function recordChainHead(
+  client: PoolClient,
+  head: ChainHead
+): Promise<void> {
+  await client.query(
+    `INSERT INTO audit_chain_head (id, last_seq, last_hash, mac, updated_at)
+     VALUES (true, $1, $2, $3, NOW())
+     ON CONFLICT (id) DO UPDATE
+       SET last_seq = EXCLUDED.last_seq, last_hash = EXCLUDED.last_hash, mac = EXCLUDED.mac, updated_at = NOW()`,
+    [head.seq, head.hash, signChainHead(head)]
   );
 }
 
+export async function logQuery(
+  entry: QueryAttribution & {
+    dataSourceId: string;
+    queryText: string;
+    queryParams?: unknown[];
+    executionTimeMs?: number;
+    rowCount?: number;
+    status: AuditStatus;
+    errorMessage?: string;
+    cacheStatus?: QueryCacheStatus;
+  }
+): Promise<void> {
+  const client = await getPool().connect();
+  try {
+    await client.query("BEGIN");
+    await client.query("SELECT pg_advisory_xact_lock($1)", [AUDIT_CHAIN_LOCK]);
+
+    // The chain ends at the newest chained entry — or, when every entry has
+    // been archived, at the newest archive
+    const { rows } = await client.query<{ hash: string }>(
+      `SELECT COALESCE(
+         (SELECT entry_hash FROM query_audit_log WHERE entry_hash IS NOT NULL ORDER BY seq DESC LIMIT 1),
+         (SELECT last_hash FROM audit_archives WHERE last_hash IS NOT NULL ORDER BY last_seq DESC LIMIT 1)
+       ) AS hash`
+    );
+    const prevHash = rows[0]?.hash ?? AUDIT_GENESIS_HASH;
+
+    const fields: ChainedAuditFields = {
+      id: randomUUID(),
+      dataSourceId: entry.dataSourceId,
+      userId: entry.userId ?? null,
+      threadId: entry.threadId ?? null,
+      feature: entry.feature ?? null,
+      queryText: entry.queryText,
+      // Hashed as JSONB will hand them back
+      queryParams: entry.queryParams ? JSON.parse(JSON.stringify(entry.queryParams)) : null,
+      executionTimeMs: entry.executionTimeMs ?? null,
+      rowCount: entry.rowCount ?? null,
+      status: entry.status,
+      errorMessage: entry.errorMessage ?? null,
+      cacheStatus: entry.cacheStatus ?? null,
+      createdAt: new Date(),
+    };
+    const entryHash = hashAuditEntry(prevHash, fields);
+    const inserted = await client.query<{ seq: number }>(
+      `INSERT INTO query_audit_log (id, data_source_id, query_text, query_params, execution_time_ms, row_count, status, error_message, user_id, cache_status, thread_id, feature, created_at, prev_hash, entry_hash)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING seq::float8 AS seq`,
+      [
+        fields.id,
+        fields.dataSourceId,
+        fields.queryText,
+        fields.queryParams === null ? null : JSON.stringify(fields.queryParams),
+        fields.executionTimeMs,
+        fields.rowCount,
+        fields.status,
+        fields.errorMessage,
+        fields.userId,
+        fields.cacheStatus,
+        fields.threadId,
+        fields.feature,
+        fields.createdAt,
+        prevHash,
+        entryHash,
+      ]
+    );
+    await recordChainHead(client, { seq: inserted.rows[0].seq, hash: entryHash });
+    await client.query("COMMIT");
+  } catch (err) {
+    await client.query("ROLLBACK");
+    throw err;
+  } finally {
+    client.release();
+  }
+}
+
 // ──── Demo Data Source Provisioning ──────────────────────────────────────────
 
 /** Pre-configured demo database connection string */
@@ -350,7 +715,7 @@ export async function ensureDemoDataSource(
   }
 
   try {
-    const parsed = parseConnectionString(demoUrl);
+    const parsed = getConnector("postgresql").parseConnectionString(demoUrl);
 
     const ds = await createDataSource(
       {
@@ -369,14 +734,14 @@ export async function ensureDemoDataSource(
     // Test connectivity and update status
     const fullDs = await getDataSource(ds.id);
     if (fullDs) {
-      const result = await testConnection(fullDs);
+      const result = await testDataSourceConnection(fullDs);
       if (result.success) {
         await updateDataSourceStatus(ds.id, "connected");
         ds.status = "connected";
 
         // Auto-introspect schema (non-blocking failure)
         try {
-          const schema = await introspectPostgresSchema(fullDs);
+          const schema = await introspectDataSourceSchema(fullDs);
           await cacheSchema(ds.id, schema);
         } catch {
           // schema introspection failure is non-blocking
@@ -0,0 +1,181 @@
+import path from "path";
+import { randomUUID } from "crypto";
+import { mkdir, writeFile, unlink } from "fs/promises";
+import { DuckDBInstance } from "@duckdb/node-api";
+import ExcelJS, { type CellValue } from "exceljs";
+import { getUserUploadDir, MAX_UPLOAD_BYTES } from "../connectors/local-files";
+
+// ─── Spreadsheet Import ──────────────────────────────────────────────────────
+// CSV / XLSX uploads are loaded into a fresh DuckDB file under the user's
+// upload directory, which is then registered as an ordinary read-only "duckdb" data
+// source. DuckDB's CSV sniffer does the type inference, so numeric and
+// timestamp columns come out typed and the anomaly / suggestion heuristics
+// pick them up like any other table.
+
+export const SPREADSHEET_EXTENSIONS = [".csv", ".xlsx"] as const;
+
+/** Most files accepted in a single import (each becomes at least one table) */
+export const MAX_IMPORT_FILES = 20;
+
+export interface SpreadsheetFile {
+  fileName: string;
+  contents: Buffer;
+}
+
+export interface SpreadsheetImportResult {
+  /** Path of the DuckDB file holding the imported tables */
+  filePath: string;
+  tables: string[];
+}
+
+/**
+ * Import CSV / XLSX files into a new DuckDB database file.
+ * Every CSV becomes one table; every non-empty XLSX worksheet becomes one
+ * table. The database file is removed again if any file fails to load.
+ */
+export async function importSpreadsheets(
+  files: SpreadsheetFile[],
+  userId: string
+): Promise<SpreadsheetImportResult> {
+  if (files.length === 0) throw new Error("No files to import");
+  if (files.length > MAX_IMPORT_FILES) {
+    throw new Error(`At most ${MAX_IMPORT_FILES} files can be imported at once`);
+  }
+  const totalBytes = files.reduce((sum, f) => sum + f.contents.length, 0);
+  if (totalBytes > MAX_UPLOAD_BYTES) {
+    throw new Error(`Files exceed the ${MAX_UPLOAD_BYTES / 1024 / 1024} MB upload limit`);
+  }
+
+  const uploadDir = getUserUploadDir(userId);
+  await mkdir(uploadDir, { recursive: true });
+  const filePath = path.join(uploadDir, `${randomUUID()}.duckdb`);
+
+  const instance = await DuckDBInstance.create(filePath);
+  const conn = await instance.connect();
+  const tables: string[] = [];
+
+  try {
+    for (const file of files) {
+      for (const { name, csv } of await toCsvSheets(file)) {
+        const tableName = uniqueTableName(name, tables);
+        await loadCsv(conn, uploadDir, tableName, csv);
+        tables.push(tableName);
+      }
+    }
+    if (tables.length === 0) throw new Error("The uploaded files contain no data");
+  } catch (err) {
+    conn.closeSync();
+    instance.closeSync();
+    await unlink(filePath).catch(() => { });
+    await unlink(`${filePath}.wal`).catch(() => { });
+    throw err;
+  }
+
+  conn.closeSync();
+  instance.closeSync();
+  return { filePath, tables };
+}
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+type DuckDBConnection = Awaited<ReturnType<DuckDBInstance["connect"]>>;
+
+/**
+ * Load one CSV document as a table. The CSV is staged as a temp file because
+ * read_csv only reads from disk; the whole file is sampled so a late odd value
+ * widens the column type instead of failing the import. Headers are normalized
+ * ("Order Date" → order_date) so generated SQL doesn't need quoted identifiers.
+ */
+async function loadCsv(
+  conn: DuckDBConnection,
+  uploadDir: string,
+  tableName: string,
+  csv: Buffer
+): Promise<void> {
+  const tempPath = path.join(uploadDir, `.import-${randomUUID()}.csv`);
+  await writeFile(tempPath, csv, { flag: "wx" });
+  try {
+    await conn.run(
+      `CREATE TABLE "${tableName}" AS
+       SELECT * FROM read_csv('${tempPath.replace(/'/g, "''")}',
+         header = true, auto_detect = true, sample_size = -1, normalize_names = true)`
+    );
+  } catch (err) {
+    throw new Error(
+      `Could not import "${tableName}": ${err instanceof Error ? err.message : String(err)}`
+    );
+  } finally {
+    await unlink(tempPath).catch(() => { });
+  }
+}
+
+/** Split an upload into named CSV documents — XLSX workbooks yield one per sheet */
+async function toCsvSheets(file: SpreadsheetFile): Promise<{ name: string; csv: Buffer }[]> {
+  const ext = path.extname(file.fileName).toLowerCase();
+  const baseName = path.basename(file.fileName, path.extname(file.fileName));
+
+  if (ext === ".csv") {
+    return [{ name: baseName, csv: file.contents }];
+  }
+  if (ext !== ".xlsx") {
+    throw new Error(`Unsupported file type: ${file.fileName} (expected CSV or XLSX)`);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  // exceljs declares its own Buffer type — the runtime value is a plain Node Buffer
+  try {
+    await workbook.xlsx.load(file.contents as unknown as ExcelJS.Buffer);
+  } catch {
+    throw new Error(`Could not read ${file.fileName} as an Excel (.xlsx) workbook`);
+  }
+
+  const sheets = workbook.worksheets.filter((ws) => ws.actualRowCount > 0);
+  return sheets.map((ws) => {
+    const lines: string[] = [];
+    ws.eachRow({ includeEmpty: false }, (row) => {
+      const values = (row.values as CellValue[]).slice(1); // row.values is 1-indexed
+      const cells = Array.from({ length: ws.actualColumnCount }, (_, i) =>
+        csvField(cellToText(values[i]))
+      );
+      lines.push(cells.join(","));
+    });
+    return {
+      name: sheets.length === 1 ? baseName : `${baseName}_${ws.name}`,
+      csv: Buffer.from(lines.join("\n"), "utf8"),
+    };
+  });
+}
+
+/** Render a worksheet cell the way a CSV export would, keeping dates sniffable */
+function cellToText(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    // Midnight values are plain dates in spreadsheets — keep them DATE, not TIMESTAMP
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso.slice(0, 19).replace("T", " ");
+  }
+  if (typeof value !== "object") return String(value);
+  if ("result" in value) return cellToText((value.result ?? null) as CellValue);
+  if ("richText" in value) return value.richText.map((r) => r.text).join("");
+  if ("text" in value) return value.text;
+  return ""; // error values (#N/A, #REF! ...) become NULL
+}
+
+function csvField(text: string): string {
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Lower-case identifier from a file or sheet name, de-duplicated against `taken` */
+function uniqueTableName(rawName: string, taken: string[]): string {
+  let base = rawName
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 60);
+  if (!base) base = "sheet";
+  if (/^[0-9]/.test(base)) base = `t_${base}`;
+
+  let name = base;
+  for (let i = 2; taken.includes(name); i++) name = `${base}_${i}`;
+  return name;
+}
@@ -1,57 +1,505 @@
-import { Pool } from "pg";
-import { createExternalPool } from "../connectors/postgres";
-import { validateQuery, enforceLimit } from "../query-guardrails";
+import crypto from "crypto";
+import { getConnector } from "../connectors/registry";
+import {
+  validateQuery,
+  enforceLimit,
+  effectiveRowLimit,
+  validatePipeline,
+  enforcePipelineLimit,
+  checkQueryCost,
+  applyRowFilters,
+  enforceMinGroupSize,
+} from "../query-guardrails";
+import { applyResultMasks, suppressSmallGroups } from "../result-masking";
+import { serializeResult } from "../result-serialization";
+import { acquireQuota, type QuotaTicket } from "../query-quotas";
+import {
+  DEFAULT_QUERY_CACHE_TTL_SECONDS,
+  queryCacheKey,
+  getCachedResult,
+  setCachedResult,
+} from "../query-cache";
 import {
   getDataSource,
   getAllowedTables,
   getMaskedColumns,
+  getMinGroupSizes,
+  getNumericColumns,
+  getPermissionFingerprint,
+  getRowFilters,
+  getRowLimits,
   logQuery,
+  AccessDeniedError,
+  NotFoundError,
 } from "./data-source-service";
-import type { QueryResult, QueryValidation } from "../types";
-
-// ──── Pool Cache (reuse pools per data-source) ──────────────────────────────
-const poolCache = new Map<string, { pool: Pool; lastUsed: number }>();
-const POOL_TTL_MS = 5 * 60 * 1000; // 5 minutes idle TTL
-
-// Lazy cleanup: evict stale entries on each pool access instead of setInterval
-function evictStalePools() {
-  const now = Date.now();
-  for (const [id, entry] of poolCache) {
-    if (now - entry.lastUsed > POOL_TTL_MS) {
-      entry.pool.end().catch(() => { });
-      poolCache.delete(id);
-    }
-  }
-}
+import { getUserAttributes } from "./auth-service";
+import type {
+  ColumnType,
+  Connector,
+  ConnectorCursor,
+  ConnectorExecuteResult,
+  ConnectorQuery,
+  DataSource,
+  QueryAttribution,
+  QueryCacheStatus,
+  QueryResult,
+  QueryValidation,
+} from "../types";
 
-function getOrCreatePool(dataSourceId: string, dataSource: Parameters<typeof createExternalPool>[0]): Pool {
-  evictStalePools();
-  const cached = poolCache.get(dataSourceId);
-  if (cached) {
-    cached.lastUsed = Date.now();
-    return cached.pool;
-  }
-  const pool = createExternalPool(dataSource);
-  poolCache.set(dataSourceId, { pool, lastUsed: Date.now() });
-  return pool;
-}
+const STATEMENT_TIMEOUT_MS = 30000;
+/** Row limit for collections without a permission row — matches the column default */
+const DEFAULT_ROW_LIMIT = 1000;
+/** EXPLAIN only plans the query, so it gets a much shorter leash */
+const EXPLAIN_TIMEOUT_MS = 5000;
 
+/** What a guarded execution resolves to: a result, or why there is none */
+type GuardedQueryResponse = { result?: QueryResult; validation: QueryValidation };
+
+/** The logQuery fields that describe a query, whatever became of it */
+type AuditFields = Omit<Parameters<typeof logQuery>[0], "status" | "errorMessage">;
 
 /**
  * Execute a guarded, read-only query against a user's external database.
  *
  * Pipeline:
- * 1. Load data source & permissions
+ * 1. Load data source & permissions, answer from the result cache if possible
  * 2. Validate query against guardrails
- * 3. Enforce LIMIT
- * 4. Execute against external DB
- * 5. Audit log result
- * 6. Return structured results
+ * 3. Apply row-level security filters for the querying user
+ * 4. Count group sizes for tables with a minimum group size
+ * 5. Cap rows at the lowest row limit of the tables queried
+ * 6. Admit the query under the source's and the user's query quotas
+ * 7. Check the plan estimate against the source's cost budget
+ * 8. Execute against external DB, suppress small groups
+ * 9. Audit log result, cache it
+ * 10. Return structured results
+ *
+ * `userId` is who the query runs for; row filters with placeholders reject
+ * queries that have none. With `threadId` and `feature` it attributes the
+ * query in the audit log. `queryId` lets cancelGuardedQuery stop the query
+ * while it runs — one is generated if the caller doesn't pass it.
+ *
+ * With `pageSize` only the first page is returned, read through a cursor;
+ * `result.nextPageToken` fetches the next (see fetchQueryPage). Paged
+ * queries bypass the result cache.
  */
 export async function executeGuardedQuery(
   dataSourceId: string,
   sql: string,
-  params?: unknown[]
+  params?: unknown[],
+  options: QueryAttribution & { queryId?: string; pageSize?: number } = {}
+): Promise<{ result?: QueryResult; validation: QueryValidation }> {
+  return trackRunning(dataSourceId, options, (running) =>
+    options.pageSize
+      ? runPagedQuery(dataSourceId, sql, params, options, options.pageSize, running)
+      : runGuardedQuery(dataSourceId, sql, params, options, running)
+  );
+}
+
+/** A query that passed the guardrails (steps 1–7), rewritten and ready to run */
+interface PreparedQuery {
+  dataSource: DataSource;
+  connector: Connector;
+  query: ConnectorQuery;
+  rowLimit: number;
+  minGroupSize: number | null;
+  validation: QueryValidation;
+  cacheKey: string | null;
+  cacheTtl: number;
+  audit: AuditFields;
+  /** Release once the query stops reading from the source */
+  quota: QuotaTicket;
+}
+
+async function prepareGuardedQuery(
+  dataSourceId: string,
+  sql: string,
+  params: unknown[] | undefined,
+  options: QueryAttribution,
+  { cacheable }: { cacheable: boolean }
+): Promise<PreparedQuery | { response: GuardedQueryResponse }> {
+  const attribution = auditAttribution(options);
+
+  // 1. Resolve data source
+  const dataSource = await getDataSource(dataSourceId);
+  if (!dataSource) {
+    return {
+      response: {
+        validation: {
+          valid: false,
+          errors: [`Data source not found: ${dataSourceId}`],
+          warnings: [],
+        },
+      },
+    };
+  }
+
+  const connector = getConnector(dataSource.type);
+  if (connector.dialect.queryKind !== "sql") {
+    return {
+      response: {
+        validation: {
+          valid: false,
+          errors: [
+            `SQL is not supported for ${connector.dialect.name} sources — send an aggregation pipeline instead`,
+          ],
+          warnings: [],
+        },
+      },
+    };
+  }
+
+  // 2. Get permissions
+  const allowedTables = await getAllowedTables(dataSourceId);
+  const maskedColumns = await getMaskedColumns(dataSourceId);
+
+  if (allowedTables.length === 0) {
+    return {
+      response: {
+        validation: {
+          valid: false,
+          errors: ["No tables are authorized for this data source"],
+          warnings: [],
+        },
+      },
+    };
+  }
+
+  // Result cache — keyed by everything that shapes the result, including the
+  // user's attributes row filters may bind. A hit skips validation, EXPLAIN
+  // and execution: the cached result passed them under the same permissions.
+  const userAttributes = options.userId ? await getUserAttributes(options.userId) : null;
+  const cacheTtl = cacheable
+    ? (dataSource.cacheTtlSeconds ?? DEFAULT_QUERY_CACHE_TTL_SECONDS)
+    : 0;
+  const cacheKey =
+    cacheTtl > 0
+      ? queryCacheKey({
+          dataSourceId,
+          databaseType: dataSource.type,
+          sql,
+          params,
+          permissions: await getPermissionFingerprint(dataSourceId),
+          user: userAttributes,
+        })
+      : null;
+  const cacheStatus: QueryCacheStatus = cacheKey ? "miss" : "bypass";
+  const cached = cacheKey ? getCachedResult(cacheKey) : null;
+  if (cached) {
+    await logQuery({
+      dataSourceId,
+      queryText: cached.queryText,
+      queryParams: params,
+      executionTimeMs: 0,
+      rowCount: cached.result.rowCount,
+      status: "success",
+      ...attribution,
+      cacheStatus: "hit",
+    });
+    return {
+      response: {
+        result: { ...cached.result, cache: "hit" },
+        validation: { valid: true, errors: [], warnings: cached.result.warnings ?? [] },
+      },
+    };
+  }
+
+  // 3. Validate (parsed with the source's grammar; schema-qualified names are
+  //    resolved against the dialect's default schema)
+  const defaultSchema = connector.dialect.defaultSchema ?? dataSource.database;
+  const rowLimit = effectiveRowLimit(
+    sql,
+    await getRowLimits(dataSourceId),
+    dataSource.type,
+    defaultSchema
+  );
+  const validation = validateQuery(
+    sql,
+    allowedTables,
+    maskedColumns,
+    rowLimit,
+    defaultSchema,
+    dataSource.type
+  );
+
+  if (!validation.valid) {
+    await logQuery({
+      dataSourceId,
+      queryText: sql,
+      queryParams: params,
+      status: "rejected",
+      errorMessage: validation.errors.join("; "),
+      ...attribution,
+      cacheStatus,
+    });
+    return { response: { validation } };
+  }
+
+  /** A rewrite step that could not be applied rejects the query */
+  const rejectRewrite = async (step: string, err: unknown) => {
+    const errors = [`${step}: ${err instanceof Error ? err.message : "could not be applied"}`];
+    await logQuery({
+      dataSourceId,
+      queryText: sql,
+      queryParams: params,
+      status: "rejected",
+      errorMessage: errors.join("; "),
+      ...attribution,
+      cacheStatus,
+    });
+    return { response: { validation: { valid: false, errors, warnings: validation.warnings } } };
+  };
+
+  // 4. Row-level security — every read of a filtered table only sees the rows
+  //    its filter admits for this user. A filter that can't be applied fails
+  //    the query rather than being skipped.
+  let filteredSql = sql;
+  const rowFilters = await getRowFilters(dataSourceId);
+  if (Object.keys(rowFilters).length > 0) {
+    try {
+      filteredSql = applyRowFilters(
+        sql,
+        rowFilters,
+        userAttributes ?? {},
+        dataSource.type,
+        defaultSchema,
+        allowedTables
+      );
+    } catch (err) {
+      return rejectRewrite("Row-level security", err);
+    }
+  }
+
+  // 5. Minimum group size — queries on these tables must aggregate, and each
+  //    group's row count is selected so small groups can be suppressed
+  let minGroupSize: number | null = null;
+  const minGroupSizes = await getMinGroupSizes(dataSourceId);
+  if (Object.keys(minGroupSizes).length > 0) {
+    const numericColumns = await getNumericColumns(dataSourceId, Object.keys(minGroupSizes));
+    try {
+      ({ sql: filteredSql, minGroupSize } = enforceMinGroupSize(
+        filteredSql,
+        minGroupSizes,
+        dataSource.type,
+        defaultSchema,
+        allowedTables,
+        numericColumns
+      ));
+    } catch (err) {
+      return rejectRewrite("Minimum group size", err);
+    }
+  }
+
+  // 6. Row cap — one row over the limit is fetched to tell whether it was hit
+  const safeSql = enforceLimit(filteredSql, rowLimit + 1, dataSource.type, defaultSchema, allowedTables);
+  const audit: AuditFields = {
+    dataSourceId,
+    queryText: safeSql,
+    queryParams: params,
+    ...attribution,
+    cacheStatus,
+  };
+
+  // 7. Quotas — too many queries or rows recently, or too many running, turn
+  //    the query away before anything reaches the source (EXPLAIN included)
+  const admission = acquireQuota(dataSource, options.userId);
+  if ("error" in admission) return rejectThrottled(audit, admission, validation.warnings);
+  const quota = admission.ticket;
+
+  // 8. Cost gate — EXPLAIN the query and hold the estimate to the source's budget.
+  //    If EXPLAIN itself fails, executing reports the same error below.
+  if (connector.explain) {
+    const estimate = await connector
+      .explain(dataSource, { kind: "sql", sql: safeSql, params }, { timeoutMs: EXPLAIN_TIMEOUT_MS })
+      .catch(() => null);
+    if (estimate) {
+      const cost = checkQueryCost(estimate, dataSource.costBudget ?? undefined);
+      validation.warnings.push(...cost.warnings);
+      if (!cost.valid) {
+        quota.release();
+        await logQuery({ ...audit, status: "rejected", errorMessage: cost.errors.join("; ") });
+        return {
+          response: {
+            validation: { valid: false, errors: cost.errors, warnings: validation.warnings },
+          },
+        };
+      }
+    }
+  }
+
+  return {
+    dataSource,
+    connector,
+    query: { kind: "sql", sql: safeSql, params },
+    rowLimit,
+    minGroupSize,
+    validation,
+    cacheKey,
+    cacheTtl,
+    audit,
+    quota,
+  };
+}
+
+async function runGuardedQuery(
+  dataSourceId: string,
+  sql: string,
+  params: unknown[] | undefined,
+  options: QueryAttribution,
+  running: RunningQuery
+): Promise<GuardedQueryResponse> {
+  const prepared = await prepareGuardedQuery(dataSourceId, sql, params, options, {
+    cacheable: true,
+  });
+  if ("response" in prepared) return prepared.response;
+  const { validation, rowLimit, audit } = prepared;
+
+  // 9. Execute (connector reuses its pooled connections, 30s statement timeout).
+  //    A cancelled query's result is discarded even if the database finished it.
+  const startTime = Date.now();
+
+  try {
+    if (running.cancelled) return rejectCancelled(audit, validation.warnings);
+    const queryResult = await prepared.connector.execute(prepared.dataSource, prepared.query, {
+      timeoutMs: STATEMENT_TIMEOUT_MS,
+      queryId: running.queryId,
+    });
+    const executionTimeMs = Date.now() - startTime;
+    prepared.quota.addRows(queryResult.rows.length);
+    if (running.cancelled) {
+      return rejectCancelled({ ...audit, executionTimeMs }, validation.warnings);
+    }
+
+    const truncated = queryResult.rows.length > rowLimit;
+    const rows = truncated ? queryResult.rows.slice(0, rowLimit) : queryResult.rows;
+    if (truncated) validation.warnings.push(truncationWarning(rowLimit));
+
+    const { result: visible, suppressed } = protectRows(prepared, {
+      ...queryResult,
+      rows,
+      rowCount: rows.length,
+    });
+    if (suppressed > 0) validation.warnings.push(suppressionWarning(suppressed, prepared));
+    const result: QueryResult = {
+      ...visible,
+      executionTimeMs,
+      truncated,
+      cache: audit.cacheStatus,
+      ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+      queryText: audit.queryText,
+      tables: validation.tables ?? [],
+    };
+
+    // 10. Audit log
+    await logQuery({ ...audit, executionTimeMs, rowCount: result.rowCount, status: "success" });
+    if (prepared.cacheKey) {
+      setCachedResult(
+        prepared.cacheKey,
+        { dataSourceId, result, queryText: audit.queryText },
+        prepared.cacheTtl
+      );
+    }
+
+    return { result, validation };
+  } catch (err) {
+    const executionTimeMs = Date.now() - startTime;
+    if (running.cancelled) {
+      return rejectCancelled({ ...audit, executionTimeMs }, validation.warnings);
+    }
+    return rejectFailed({ ...audit, executionTimeMs }, err, validation.warnings);
+  } finally {
+    prepared.quota.release();
+  }
+}
+
+/**
+ * Drop groups too small to show, then redact masked columns — before the
+ * rows go anywhere else — and serialize the values by column type
+ */
+function protectRows<T extends ConnectorExecuteResult>(
+  prepared: PreparedQuery,
+  result: T
+): { result: T & { columnTypes: ColumnType[] }; suppressed: number } {
+  let visible = result;
+  let suppressed = 0;
+  if (prepared.minGroupSize !== null) {
+    ({ result: visible, suppressed } = suppressSmallGroups(result, prepared.minGroupSize));
+  }
+  const masks = prepared.validation.resultMasks;
+  return { result: serializeResult(applyResultMasks(visible, masks), masks), suppressed };
+}
+
+function truncationWarning(rowLimit: number): string {
+  return `Results were truncated to ${rowLimit} rows, the row limit of the tables queried — aggregate or filter to see the rest`;
+}
+
+function suppressionWarning(count: number, prepared: PreparedQuery): string {
+  return `${count} group${count === 1 ? "" : "s"} with fewer than ${prepared.minGroupSize} rows ${count === 1 ? "was" : "were"} suppressed to protect individuals — use broader groups (e.g. region instead of zip code) to see them`;
+}
+
+/** The attribution fields of a caller's options, for the audit log */
+function auditAttribution(options: QueryAttribution): QueryAttribution {
+  return { userId: options.userId, threadId: options.threadId, feature: options.feature };
+}
+
+/** Turn a query away for exceeding a quota, with when to retry */
+async function rejectThrottled(
+  entry: AuditFields,
+  throttled: { error: string; retryAfterSeconds: number },
+  warnings: string[]
+): Promise<{ response: GuardedQueryResponse }> {
+  await logQuery({ ...entry, status: "throttled", errorMessage: throttled.error });
+  return {
+    response: {
+      validation: {
+        valid: false,
+        errors: [throttled.error],
+        warnings,
+        retryAfterSeconds: throttled.retryAfterSeconds,
+      },
+    },
+  };
+}
+
+async function rejectFailed(
+  entry: AuditFields,
+  err: unknown,
+  warnings: string[]
+): Promise<GuardedQueryResponse> {
+  const errorMessage = err instanceof Error ? err.message : "Query execution failed";
+  await logQuery({ ...entry, status: "error", errorMessage });
+  return {
+    validation: {
+      valid: false,
+      errors: [`Query execution error: ${errorMessage}`],
+      warnings,
+    },
+  };
+}
+
+/**
+ * Execute a guarded, read-only aggregation pipeline against a MongoDB source.
+ *
+ * Same pipeline as executeGuardedQuery: permissions → validatePipeline →
+ * $limit enforcement → quotas → execute → audit log. Attributed and
+ * cancellable the same way.
+ */
+export async function executeGuardedPipeline(
+  dataSourceId: string,
+  collection: string,
+  pipeline: Record<string, unknown>[],
+  options: QueryAttribution & { queryId?: string } = {}
+): Promise<{ result?: QueryResult; validation: QueryValidation }> {
+  return trackRunning(dataSourceId, options, (running) =>
+    runGuardedPipeline(dataSourceId, collection, pipeline, auditAttribution(options), running)
+  );
+}
+
+async function runGuardedPipeline(
+  dataSourceId: string,
+  collection: string,
+  pipeline: Record<string, unknown>[],
+  attribution: QueryAttribution,
+  running: RunningQuery
 ): Promise<{ result?: QueryResult; validation: QueryValidation }> {
   // 1. Resolve data source
   const dataSource = await getDataSource(dataSourceId);
@@ -65,81 +513,132 @@ export async function executeGuardedQuery(
     };
   }
 
+  const connector = getConnector(dataSource.type);
+  if (connector.dialect.queryKind !== "pipeline") {
+    return {
+      validation: {
+        valid: false,
+        errors: [
+          `Aggregation pipelines are not supported for ${connector.dialect.name} sources — send SQL instead`,
+        ],
+        warnings: [],
+      },
+    };
+  }
+
   // 2. Get permissions
   const allowedTables = await getAllowedTables(dataSourceId);
-  const maskedColumns = await getMaskedColumns(dataSourceId);
+  // Pipelines can't be traced to result fields, so every masked field is rejected / stripped
+  const maskedColumns = Object.fromEntries(
+    Object.entries(await getMaskedColumns(dataSourceId)).map(([table, columns]) => [
+      table,
+      Object.keys(columns),
+    ])
+  );
 
   if (allowedTables.length === 0) {
     return {
       validation: {
         valid: false,
-        errors: ["No tables are authorized for this data source"],
+        errors: ["No collections are authorized for this data source"],
         warnings: [],
       },
     };
   }
 
   // 3. Validate
-  const validation = validateQuery(sql, allowedTables, maskedColumns);
+  const queryText = `db.${collection}.aggregate(${JSON.stringify(pipeline)})`;
+  const validation = validatePipeline(collection, pipeline, allowedTables, maskedColumns);
 
   if (!validation.valid) {
     await logQuery({
       dataSourceId,
-      queryText: sql,
-      queryParams: params,
+      queryText,
+      ...attribution,
       status: "rejected",
       errorMessage: validation.errors.join("; "),
     });
     return { validation };
   }
 
-  // 4. Enforce LIMIT
-  const safeSql = enforceLimit(sql);
+  // 4. Enforce the collection's row limit (plus one, to detect truncation) and strip masked fields
+  const maskedFields =
+    Object.entries(maskedColumns).find(
+      ([table]) => table.toLowerCase() === collection.toLowerCase()
+    )?.[1] ?? [];
+  const rowLimit =
+    Object.entries(await getRowLimits(dataSourceId)).find(
+      ([table]) => table.toLowerCase() === collection.toLowerCase()
+    )?.[1] ?? DEFAULT_ROW_LIMIT;
+  const safePipeline = enforcePipelineLimit(pipeline, rowLimit + 1, maskedFields);
+  const safeQueryText = `db.${collection}.aggregate(${JSON.stringify(safePipeline)})`;
+
+  // 5. Quotas, shared with SQL queries to the same source
+  const admission = acquireQuota(dataSource, attribution.userId);
+  if ("error" in admission) {
+    const { response } = await rejectThrottled(
+      { dataSourceId, queryText: safeQueryText, ...attribution },
+      admission,
+      validation.warnings
+    );
+    return response;
+  }
 
-  // 5. Execute (reuse pool via cache)
-  const pool = getOrCreatePool(dataSourceId, dataSource);
+  // 6. Execute (connector reuses its pooled client)
+  const cancelled = (executionTimeMs?: number) =>
+    rejectCancelled(
+      { dataSourceId, queryText: safeQueryText, ...attribution, executionTimeMs },
+      validation.warnings
+    );
   const startTime = Date.now();
 
   try {
-    const client = await pool.connect();
-    try {
-      // Set statement timeout to 30 seconds
-      await client.query("SET statement_timeout = '30000'");
-
-      const queryResult = await client.query(safeSql, params);
-      const executionTimeMs = Date.now() - startTime;
-
-      const result: QueryResult = {
-        columns: queryResult.fields?.map((f) => f.name) ?? [],
-        rows: queryResult.rows ?? [],
-        rowCount: queryResult.rowCount ?? 0,
-        executionTimeMs,
-        truncated: false,
-      };
-
-      // 6. Audit log
-      await logQuery({
-        dataSourceId,
-        queryText: safeSql,
-        queryParams: params,
-        executionTimeMs,
-        rowCount: result.rowCount,
-        status: "success",
-      });
-
-      return { result, validation };
-    } finally {
-      client.release();
+    if (running.cancelled) return cancelled();
+    const queryResult = await connector.execute(
+      dataSource,
+      { kind: "pipeline", collection, pipeline: safePipeline },
+      { timeoutMs: STATEMENT_TIMEOUT_MS, queryId: running.queryId }
+    );
+    const executionTimeMs = Date.now() - startTime;
+    admission.ticket.addRows(queryResult.rows.length);
+    if (running.cancelled) return cancelled(executionTimeMs);
+
+    const truncated = queryResult.rows.length > rowLimit;
+    const rows = truncated ? queryResult.rows.slice(0, rowLimit) : queryResult.rows;
+    if (truncated) {
+      validation.warnings.push(
+        `Results were truncated to ${rowLimit} documents, the row limit of "${collection}" — aggregate or filter to see the rest`
+      );
     }
+
+    const result: QueryResult = {
+      ...serializeResult({ ...queryResult, rows, rowCount: rows.length }),
+      executionTimeMs,
+      truncated,
+      ...(validation.warnings.length > 0 && { warnings: validation.warnings }),
+    };
+
+    // 7. Audit log
+    await logQuery({
+      dataSourceId,
+      queryText: safeQueryText,
+      ...attribution,
+      executionTimeMs,
+      rowCount: result.rowCount,
+      status: "success",
+    });
+
+    return { result, validation };
   } catch (err) {
     const executionTimeMs = Date.now() - startTime;
+    if (running.cancelled) return cancelled(executionTimeMs);
     const errorMessage =
-      err instanceof Error ? err.message : "Query execution failed";
+      err instanceof Error ? err.message : "Pipeline execution failed";
 
     await logQuery({
       dataSourceId,
-      queryText: safeSql,
-      queryParams: params,
+      queryText: safeQueryText,
+      ...attribution,
       executionTimeMs,
       status: "error",
       errorMessage,
@@ -148,9 +647,368 @@ export async function executeGuardedQuery(
     return {
       validation: {
         valid: false,
-        errors: [`Query execution error: ${errorMessage}`],
+        errors: [`Pipeline execution error: ${errorMessage}`],
         warnings: validation.warnings,
       },
     };
+  } finally {
+    admission.ticket.release();
+  }
+}
+
+// ──── Cancellation ───────────────────────────────────────────────────────────
+
+interface RunningQuery {
+  queryId: string;
+  dataSourceId: string;
+  /** Only this user may cancel the query; queries run for nobody can't be */
+  userId?: string;
+  cancelled: boolean;
+}
+
+/** Guarded queries in progress, from the first permission check to the audit log */
+const runningQueries = new Map<string, RunningQuery>();
+
+async function trackRunning(
+  dataSourceId: string,
+  options: { userId?: string; queryId?: string },
+  run: (running: RunningQuery) => Promise<GuardedQueryResponse>
+): Promise<GuardedQueryResponse> {
+  const queryId = options.queryId ?? crypto.randomUUID();
+  if (runningQueries.has(queryId)) {
+    return {
+      validation: { valid: false, errors: [`Query ID is already in use: ${queryId}`], warnings: [] },
+    };
+  }
+
+  const running: RunningQuery = { queryId, dataSourceId, userId: options.userId, cancelled: false };
+  runningQueries.set(queryId, running);
+  try {
+    return await run(running);
+  } finally {
+    runningQueries.delete(queryId);
+  }
+}
+
+async function rejectCancelled(
+  entry: AuditFields,
+  warnings: string[]
+): Promise<GuardedQueryResponse> {
+  await logQuery({ ...entry, status: "cancelled", errorMessage: "Cancelled by the user" });
+  return { validation: { valid: false, errors: ["Query was cancelled"], warnings } };
+}
+
+/**
+ * Stop a running guarded query. Before execution starts this just marks it,
+ * so it never reaches the database; during execution the connector cancels
+ * the statement (pg_cancel_backend on PostgreSQL). Either way its result is
+ * never returned, and the audit log records it as cancelled.
+ */
+export async function cancelGuardedQuery(queryId: string, userId: string): Promise<void> {
+  const running = runningQueries.get(queryId);
+  if (!running) throw new NotFoundError("Running query");
+  if (running.userId !== userId) throw new AccessDeniedError();
+
+  running.cancelled = true;
+  const dataSource = await getDataSource(running.dataSourceId);
+  if (dataSource) {
+    // false just means execution hasn't started (or already finished)
+    await getConnector(dataSource.type).cancel(queryId);
   }
 }
+
+// ──── Paging ─────────────────────────────────────────────────────────────────
+
+/** Rows per NDJSON line of a streamed query */
+const STREAM_BATCH_SIZE = 500;
+/** Paged queries nobody fetched a page of for this long are closed */
+const PAGE_IDLE_TIMEOUT_MS = 60_000;
+/**
+ * Open paged queries per data source. Native cursors each hold a pooled
+ * connection, so opening more closes the least recently used.
+ */
+const MAX_OPEN_PAGED_QUERIES = 2;
+
+/** A query being read a page at a time */
+interface PagedQuery {
+  prepared: PreparedQuery;
+  cursor: ConnectorCursor;
+  /** Page size for fetches that don't ask for one */
+  pageSize: number;
+  columns: string[];
+  /** The row read past the last page, telling whether another follows */
+  lookahead: Record<string, unknown>[];
+  /** Rows read from the cursor so far, before small groups are suppressed */
+  rowsRead: number;
+  /** Rows returned so far */
+  rowCount: number;
+  suppressed: number;
+  truncated: boolean;
+  done: boolean;
+  startTime: number;
+  busy: boolean;
+  idleTimer?: ReturnType<typeof setTimeout>;
+}
+
+/** Paged queries with rows left to read, by continuation token (most recently used last) */
+const openPages = new Map<string, PagedQuery>();
+
+/** Stand-in for connectors without openCursor: run the query whole, page it in memory */
+function materializedCursor(result: ConnectorExecuteResult): ConnectorCursor {
+  let offset = 0;
+  return {
+    async read(count) {
+      const rows = result.rows.slice(offset, offset + count);
+      offset += rows.length;
+      return { columns: result.columns, rows, rowCount: rows.length };
+    },
+    async close() {},
+  };
+}
+
+async function openPagedQuery(
+  prepared: PreparedQuery,
+  queryId: string,
+  pageSize: number
+): Promise<PagedQuery> {
+  // Free a connection before asking the pool for one
+  const sameSource = [...openPages.entries()].filter(
+    ([, paged]) => paged.prepared.audit.dataSourceId === prepared.audit.dataSourceId && !paged.busy
+  );
+  const excess = Math.max(0, sameSource.length - MAX_OPEN_PAGED_QUERIES + 1);
+  for (const [token] of sameSource.slice(0, excess)) {
+    await closePagedQuery(token);
+  }
+
+  const options = { timeoutMs: STATEMENT_TIMEOUT_MS, queryId };
+  const { connector, dataSource, query } = prepared;
+  const cursor = connector.openCursor
+    ? await connector.openCursor(dataSource, query, options)
+    : materializedCursor(await connector.execute(dataSource, query, options));
+  return {
+    prepared,
+    cursor,
+    pageSize,
+    columns: [],
+    lookahead: [],
+    rowsRead: 0,
+    rowCount: 0,
+    suppressed: 0,
+    truncated: false,
+    done: false,
+    startTime: Date.now(),
+    busy: false,
+  };
+}
+
+/** Read the next page, protected like a whole result; sets `done` on the last */
+async function readPage(paged: PagedQuery, pageSize = paged.pageSize): Promise<QueryResult> {
+  const { prepared } = paged;
+  const want = Math.min(pageSize, prepared.rowLimit - paged.rowsRead);
+  const batch = await paged.cursor.read(want + 1 - paged.lookahead.length);
+  prepared.quota.addRows(batch.rows.length);
+  if (batch.columns.length > 0) paged.columns = batch.columns;
+
+  const rows = [...paged.lookahead, ...batch.rows];
+  const more = rows.length > want;
+  paged.lookahead = rows.slice(want);
+  paged.rowsRead += Math.min(rows.length, want);
+  paged.truncated = more && paged.rowsRead >= prepared.rowLimit;
+  paged.done = !more || paged.truncated;
+
+  const pageRows = rows.slice(0, want);
+  const { result, suppressed } = protectRows(prepared, {
+    columns: paged.columns,
+    rows: pageRows,
+    rowCount: pageRows.length,
+  });
+  paged.suppressed += suppressed;
+  paged.rowCount += result.rowCount;
+
+  const warnings = [...prepared.validation.warnings];
+  if (paged.suppressed > 0) warnings.push(suppressionWarning(paged.suppressed, prepared));
+  if (paged.truncated) warnings.push(truncationWarning(prepared.rowLimit));
+  return {
+    ...result,
+    executionTimeMs: Date.now() - paged.startTime,
+    truncated: paged.truncated,
+    cache: "bypass",
+    ...(warnings.length > 0 && { warnings }),
+    queryText: prepared.audit.queryText,
+    tables: prepared.validation.tables ?? [],
+  };
+}
+
+/** Close the cursor and audit log what was read */
+async function finishPagedQuery(paged: PagedQuery): Promise<void> {
+  await abandonPagedQuery(paged.prepared, paged);
+  await logQuery({
+    ...paged.prepared.audit,
+    executionTimeMs: Date.now() - paged.startTime,
+    rowCount: paged.rowCount,
+    status: "success",
+  });
+}
+
+/** Close the cursor, if it was opened, and free the query's quota slot */
+async function abandonPagedQuery(prepared: PreparedQuery, paged?: PagedQuery): Promise<void> {
+  await paged?.cursor.close().catch(() => {});
+  prepared.quota.release();
+}
+
+/** Forget an open paged query — it expired, was evicted or failed */
+async function closePagedQuery(token: string): Promise<void> {
+  const paged = openPages.get(token);
+  if (!paged) return;
+  openPages.delete(token);
+  clearTimeout(paged.idleTimer);
+  await finishPagedQuery(paged);
+}
+
+/** (Re-)register an open paged query under its token and restart its idle timer */
+function keepOpen(token: string, paged: PagedQuery): void {
+  clearTimeout(paged.idleTimer);
+  openPages.delete(token);
+  openPages.set(token, paged);
+  paged.idleTimer = setTimeout(() => void closePagedQuery(token), PAGE_IDLE_TIMEOUT_MS);
+}
+
+async function runPagedQuery(
+  dataSourceId: string,
+  sql: string,
+  params: unknown[] | undefined,
+  options: QueryAttribution,
+  pageSize: number,
+  running: RunningQuery
+): Promise<GuardedQueryResponse> {
+  const prepared = await prepareGuardedQuery(dataSourceId, sql, params, options, {
+    cacheable: false,
+  });
+  if ("response" in prepared) return prepared.response;
+  const { validation, audit } = prepared;
+  const startTime = Date.now();
+  let paged: PagedQuery | undefined;
+
+  try {
+    if (running.cancelled) {
+      await abandonPagedQuery(prepared);
+      return rejectCancelled(audit, validation.warnings);
+    }
+    paged = await openPagedQuery(prepared, running.queryId, pageSize);
+    const page = await readPage(paged);
+    if (running.cancelled) throw new Error("cancelled");
+    if (paged.done) {
+      await finishPagedQuery(paged);
+      return { result: page, validation };
+    }
+
+    const token = crypto.randomUUID();
+    keepOpen(token, paged);
+    return { result: { ...page, nextPageToken: token }, validation };
+  } catch (err) {
+    await abandonPagedQuery(prepared, paged);
+    const executionTimeMs = Date.now() - startTime;
+    if (running.cancelled) {
+      return rejectCancelled({ ...audit, executionTimeMs }, validation.warnings);
+    }
+    return rejectFailed({ ...audit, executionTimeMs }, err, validation.warnings);
+  }
+}
+
+/**
+ * Fetch the next page of a paged query by the token the previous page
+ * returned — `pageSize` defaults to the first page's. Tokens belong to the
+ * user and data source that started the query, and expire a minute after
+ * the last page was fetched.
+ */
+export async function fetchQueryPage(
+  dataSourceId: string,
+  pageToken: string,
+  userId: string,
+  pageSize?: number
+): Promise<{ result?: QueryResult; validation: QueryValidation }> {
+  const paged = openPages.get(pageToken);
+  if (!paged || paged.prepared.audit.dataSourceId !== dataSourceId) {
+    throw new NotFoundError("Page token");
+  }
+  if (paged.prepared.audit.userId !== userId) throw new AccessDeniedError();
+
+  const { validation, audit } = paged.prepared;
+  if (paged.busy) {
+    return {
+      validation: {
+        valid: false,
+        errors: ["The previous page of this query is still loading"],
+        warnings: validation.warnings,
+      },
+    };
+  }
+
+  paged.busy = true;
+  clearTimeout(paged.idleTimer);
+  try {
+    const page = await readPage(paged, pageSize);
+    if (paged.done) {
+      openPages.delete(pageToken);
+      await finishPagedQuery(paged);
+      return { result: page, validation };
+    }
+    keepOpen(pageToken, paged);
+    return { result: { ...page, nextPageToken: pageToken }, validation };
+  } catch (err) {
+    openPages.delete(pageToken);
+    await abandonPagedQuery(paged.prepared, paged);
+    return rejectFailed(
+      { ...audit, executionTimeMs: Date.now() - paged.startTime, rowCount: paged.rowCount },
+      err,
+      validation.warnings
+    );
+  } finally {
+    paged.busy = false;
+  }
+}
+
+/**
+ * Execute a guarded query and hand its rows to `onRows` a batch at a time,
+ * read through a cursor — for extracts too large to hold in memory. The
+ * resolved result has the totals but no rows. Aborting `signal` (the
+ * client went away) or cancelGuardedQuery stops it between batches.
+ */
+export async function streamGuardedQuery(
+  dataSourceId: string,
+  sql: string,
+  params: unknown[] | undefined,
+  options: QueryAttribution & { queryId?: string; signal?: AbortSignal },
+  onRows: (batch: Pick<QueryResult, "columns" | "columnTypes" | "rows">) => void
+): Promise<{ result?: QueryResult; validation: QueryValidation }> {
+  return trackRunning(dataSourceId, options, async (running) => {
+    const prepared = await prepareGuardedQuery(dataSourceId, sql, params, options, {
+      cacheable: false,
+    });
+    if ("response" in prepared) return prepared.response;
+    const { validation, audit } = prepared;
+
+    const stopped = () => running.cancelled || options.signal?.aborted === true;
+    const startTime = Date.now();
+    let paged: PagedQuery | undefined;
+
+    try {
+      if (stopped()) throw new Error("cancelled");
+      paged = await openPagedQuery(prepared, running.queryId, STREAM_BATCH_SIZE);
+      let page: QueryResult;
+      do {
+        page = await readPage(paged);
+        if (stopped()) throw new Error("cancelled");
+        onRows(page);
+      } while (!paged.done);
+
+      await finishPagedQuery(paged);
+      return { result: { ...page, rows: [], rowCount: paged.rowCount }, validation };
+    } catch (err) {
+      await abandonPagedQuery(prepared, paged);
+      const entry = { ...audit, executionTimeMs: Date.now() - startTime, rowCount: paged?.rowCount };
+      if (stopped()) return rejectCancelled(entry, validation.warnings);
+      return rejectFailed(entry, err, validation.warnings);
+    }
+  });
+}
@@ -0,0 +1,181 @@
+import { query, queryOne } from "../db";
+import { bindSavedQuery } from "../query-parameters";
+import { executeGuardedQuery } from "./query-service";
+import { AccessDeniedError, NotFoundError } from "./data-source-service";
+import type {
+  QueryAttribution,
+  QueryResult,
+  QueryValidation,
+  SavedQuery,
+  SavedQueryFilter,
+  SavedQueryParameter,
+  SavedQueryParameterValue,
+} from "../types";
+
+// ──── Saved Query CRUD ───────────────────────────────────────────────────────
+
+const SAVED_QUERY_COLUMNS = `
+  sq.id,
+  sq.data_source_id AS "dataSourceId",
+  ds.name           AS "dataSourceName",
+  ds.type           AS "dataSourceType",
+  sq.user_id        AS "authorId",
+  u.email           AS "authorEmail",
+  sq.name,
+  sq.description,
+  sq.sql_text       AS "sql",
+  sq.parameters,
+  sq.tags,
+  sq.thread_id      AS "threadId",
+  sq.created_at     AS "createdAt",
+  sq.updated_at     AS "updatedAt"
+`;
+
+const SAVED_QUERY_FROM = `
+  saved_queries sq
+  JOIN data_sources ds ON ds.id = sq.data_source_id
+  LEFT JOIN users u ON u.id = sq.user_id
+`;
+
+/** Saved queries on the data sources `ownerId` owns, by name */
+export async function listSavedQueries(
+  ownerId: string,
+  filter: SavedQueryFilter = {}
+): Promise<SavedQuery[]> {
+  const params: unknown[] = [ownerId];
+  const conditions = ["ds.user_id = $1"];
+  const add = (condition: string, value: unknown) => {
+    params.push(value);
+    conditions.push(condition.replaceAll("?", `$${params.length}`));
+  };
+
+  if (filter.dataSourceId) add("sq.data_source_id = ?", filter.dataSourceId);
+  if (filter.tag) add("? = ANY(sq.tags)", filter.tag);
+  if (filter.search) {
+    add("(sq.name ILIKE ? OR sq.description ILIKE ?)", `%${filter.search.replace(/[\\%_]/g, "\\$&")}%`);
+  }
+
+  return query<SavedQuery>(
+    `SELECT ${SAVED_QUERY_COLUMNS} FROM ${SAVED_QUERY_FROM}
+     WHERE ${conditions.join(" AND ")}
+     ORDER BY LOWER(sq.name), sq.created_at`,
+    params
+  );
+}
+
+export async function getSavedQuery(id: string): Promise<SavedQuery | null> {
+  return queryOne<SavedQuery>(
+    `SELECT ${SAVED_QUERY_COLUMNS} FROM ${SAVED_QUERY_FROM} WHERE sq.id = $1`,
+    [id]
+  );
+}
+
+export async function createSavedQuery(
+  input: {
+    dataSourceId: string;
+    name: string;
+    description?: string;
+    sql: string;
+    parameters: SavedQueryParameter[];
+    tags: string[];
+    threadId?: string;
+  },
+  authorId: string
+): Promise<SavedQuery> {
+  const row = await queryOne<{ id: string }>(
+    `INSERT INTO saved_queries (data_source_id, user_id, name, description, sql_text, parameters, tags, thread_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING id`,
+    [
+      input.dataSourceId,
+      authorId,
+      input.name,
+      input.description?.trim() || null,
+      input.sql,
+      JSON.stringify(input.parameters),
+      input.tags,
+      input.threadId ?? null,
+    ]
+  );
+  if (!row) throw new Error("Failed to save query");
+  return (await getSavedQuery(row.id))!;
+}
+
+/** Change the given fields; a null description clears it */
+export async function updateSavedQuery(
+  id: string,
+  data: {
+    name?: string;
+    description?: string | null;
+    sql?: string;
+    parameters?: SavedQueryParameter[];
+    tags?: string[];
+  }
+): Promise<SavedQuery> {
+  const row = await queryOne<{ id: string }>(
+    `UPDATE saved_queries
+     SET name = COALESCE($2, name),
+         description = CASE WHEN $3 THEN $4 ELSE description END,
+         sql_text = COALESCE($5, sql_text),
+         parameters = COALESCE($6, parameters),
+         tags = COALESCE($7, tags),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING id`,
+    [
+      id,
+      data.name ?? null,
+      data.description !== undefined,
+      data.description?.trim() || null,
+      data.sql ?? null,
+      data.parameters ? JSON.stringify(data.parameters) : null,
+      data.tags ?? null,
+    ]
+  );
+  if (!row) throw new NotFoundError("Saved query");
+  return (await getSavedQuery(row.id))!;
+}
+
+export async function deleteSavedQuery(id: string): Promise<void> {
+  await query(`DELETE FROM saved_queries WHERE id = $1`, [id]);
+}
+
+/**
+ * Verify that a saved query is on a data source the given user owns.
+ * Throws on mismatch; returns the saved query.
+ */
+export async function assertSavedQueryOwnership(
+  savedQueryId: string,
+  userId: string
+): Promise<SavedQuery> {
+  const row = await queryOne<SavedQuery & { ownerId: string | null }>(
+    `SELECT ${SAVED_QUERY_COLUMNS}, ds.user_id AS "ownerId" FROM ${SAVED_QUERY_FROM} WHERE sq.id = $1`,
+    [savedQueryId]
+  );
+  if (!row) throw new NotFoundError("Saved query");
+  if (row.ownerId && row.ownerId !== userId) {
+    throw new AccessDeniedError();
+  }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { ownerId, ...savedQuery } = row;
+  return savedQuery;
+}
+
+// ──── Running ────────────────────────────────────────────────────────────────
+
+/**
+ * Run a saved query with parameter values by name. The bound SQL goes
+ * through the same guardrails, quotas and audit log as any other query;
+ * values that don't fit the parameters fail validation.
+ */
+export async function runSavedQuery(
+  savedQuery: SavedQuery,
+  values: Record<string, SavedQueryParameterValue>,
+  options: QueryAttribution & { userId: string; queryId?: string; pageSize?: number }
+): Promise<{ result?: QueryResult; validation: QueryValidation }> {
+  const bound = bindSavedQuery(savedQuery.sql, savedQuery.parameters, values, savedQuery.dataSourceType);
+  if ("error" in bound) {
+    return { validation: { valid: false, errors: [bound.error], warnings: [] } };
+  }
+  return executeGuardedQuery(savedQuery.dataSourceId, bound.sql, bound.params, options);
+}
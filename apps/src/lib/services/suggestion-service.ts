@@ -51,12 +51,15 @@ interface HeuristicQuestion {
 
 const NUMERIC_TYPES = new Set([
   "integer",
+  "int",
   "bigint",
   "smallint",
   "numeric",
   "decimal",
   "real",
   "double precision",
+  "double",
+  "float",
   "money",
 ]);
 
@@ -66,6 +69,7 @@ const TIMESTAMP_TYPES = new Set([
   "date",
   "timestamptz",
   "timestamp",
+  "datetime",
 ]);
 
 function generateHeuristicQuestions(
@@ -0,0 +1,124 @@
+import type { DatabaseType } from "./types";
+
+/**
+ * A minimal SQL lexer: splits a query into code, quoted text (string
+ * literals and quoted identifiers) and comments, following each dialect's
+ * rules closely enough that what it calls code is what the database reads
+ * as code. Text-level checks — placeholders, MySQL executable comments,
+ * cache-key normalization — work on these segments instead of guessing.
+ */
+
+export interface SqlSegment {
+  kind: "code" | "quoted" | "comment";
+  /** Offsets into the scanned SQL, end exclusive */
+  start: number;
+  end: number;
+}
+
+const IDENTIFIER_CHAR = /[A-Za-z0-9_$]/;
+
+/** Sources whose string literals take backslash escapes */
+const BACKSLASH_ESCAPES: DatabaseType[] = ["mysql"];
+
+/** Sources whose block comments nest: `/* a /* b *\/ still a comment *\/` */
+const NESTED_COMMENTS: DatabaseType[] = ["postgresql", "duckdb"];
+
+/** Index just past the literal or quoted identifier opening at `start` */
+function skipQuoted(sql: string, start: number, quote: string, backslashes: boolean): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (backslashes && sql[i] === "\\") {
+      i += 2;
+    } else if (sql[i] === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return i;
+}
+
+function lineEnd(sql: string, start: number): number {
+  const end = sql.indexOf("\n", start);
+  return end === -1 ? sql.length : end + 1;
+}
+
+/** Index just past the comment opening at `i`, or -1 if none opens there */
+function commentEnd(sql: string, i: number, databaseType: DatabaseType): number {
+  const c = sql[i];
+  const next = sql[i + 1] ?? "";
+  if (c === "-" && next === "-") {
+    // MySQL only starts a comment at "-- ": `1--1` is arithmetic
+    if (databaseType === "mysql" && i + 2 < sql.length && !/\s/.test(sql[i + 2])) return -1;
+    return lineEnd(sql, i);
+  }
+  if (c === "#" && databaseType === "mysql") return lineEnd(sql, i);
+  if (c !== "/" || next !== "*") return -1;
+
+  if (!NESTED_COMMENTS.includes(databaseType)) {
+    const end = sql.indexOf("*/", i + 2);
+    return end === -1 ? sql.length : end + 2;
+  }
+  let depth = 0;
+  let j = i;
+  while (j < sql.length) {
+    if (sql.startsWith("/*", j)) {
+      depth++;
+      j += 2;
+    } else if (sql.startsWith("*/", j)) {
+      j += 2;
+      if (--depth === 0) return j;
+    } else {
+      j++;
+    }
+  }
+  return sql.length;
+}
+
+/** Index just past the quoted text opening at `i`, or -1 if none opens there */
+function quotedEnd(sql: string, i: number, databaseType: DatabaseType): number {
+  const c = sql[i];
+  const afterIdentifier = i > 0 && IDENTIFIER_CHAR.test(sql[i - 1]);
+  if (c === "'") {
+    // MySQL strings take backslash escapes, and so do PostgreSQL's E'...' strings
+    const escapeString =
+      databaseType === "postgresql" && /[Ee]/.test(sql[i - 1] ?? "") && !IDENTIFIER_CHAR.test(sql[i - 2] ?? "");
+    return skipQuoted(sql, i, c, BACKSLASH_ESCAPES.includes(databaseType) || escapeString);
+  }
+  if (c === '"') return skipQuoted(sql, i, c, BACKSLASH_ESCAPES.includes(databaseType));
+  if (c === "`") return skipQuoted(sql, i, c, false);
+  if (c === "$" && databaseType === "postgresql" && !afterIdentifier) {
+    // Dollar-quoted string: runs to the same tag
+    const tag = /^\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/.exec(sql.slice(i));
+    if (tag) {
+      const end = sql.indexOf(tag[0], i + tag[0].length);
+      return end === -1 ? sql.length : end + tag[0].length;
+    }
+  }
+  return -1;
+}
+
+/** Split `sql` into consecutive code, quoted and comment segments */
+export function scanSql(sql: string, databaseType: DatabaseType): SqlSegment[] {
+  const segments: SqlSegment[] = [];
+  const push = (kind: SqlSegment["kind"], start: number, end: number) => {
+    if (end > start) segments.push({ kind, start, end });
+  };
+
+  let codeStart = 0;
+  let i = 0;
+  while (i < sql.length) {
+    const comment = commentEnd(sql, i, databaseType);
+    const end = comment !== -1 ? comment : quotedEnd(sql, i, databaseType);
+    if (end === -1) {
+      i++;
+      continue;
+    }
+    push("code", codeStart, i);
+    push(comment !== -1 ? "comment" : "quoted", i, end);
+    i = codeStart = end;
+  }
+  push("code", codeStart, sql.length);
+  return segments;
+}
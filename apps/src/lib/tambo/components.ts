@@ -37,7 +37,7 @@ export const tamboLensComponents: TamboComponent[] = [
   {
     name: "DataTable",
     description:
-      "Renders a scrollable data table with column headers and rows. Use for tabular data, query results, lists of records, leaderboards, and any structured multi-row data.",
+      "Renders a scrollable data table with column headers and rows. Use for tabular data, query results, lists of records, leaderboards, and any structured multi-row data. For query results, pass dataSourceId and query too: the table can then load further pages itself, so show only the first rows rather than pasting large results.",
     component: DataTable,
     propsSchema: dataTablePropsSchema,
   },
@@ -2,6 +2,96 @@
 
 import { defineTool } from "@tambo-ai/react";
 import { z } from "zod";
+import { SAVED_QUERY_PARAMETER_TYPES } from "@/lib/types";
+import { readQueryOutput } from "@/lib/query-provenance";
+import type { QueryAttribution, QueryRun, SavedQuery, SavedQueryParameter } from "@/lib/types";
+
+/** Queries started by tool calls and still waiting for a response, by queryId */
+const inFlightQueries = new Map<string, AbortController>();
+
+/** Thread and feature the audit log attributes tool-call queries to */
+let queryContext: Omit<QueryAttribution, "userId"> = { feature: "chat" };
+
+/** Attribute the queries of upcoming tool calls — the chat sets this as the user asks */
+export function setQueryContext(context: Omit<QueryAttribution, "userId">): void {
+  queryContext = { ...queryContext, ...context };
+}
+
+export function getQueryContext(): Omit<QueryAttribution, "userId"> {
+  return queryContext;
+}
+
+/**
+ * POST a query under a fresh queryId, so cancelInFlightQueries can stop it,
+ * attributed to the current query context. Resolves to the parsed ApiResponse.
+ */
+async function postCancellableQuery(url: string, body: Record<string, unknown>) {
+  const queryId = crypto.randomUUID();
+  const controller = new AbortController();
+  inFlightQueries.set(queryId, controller);
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...body, ...queryContext, queryId }),
+      signal: controller.signal,
+    });
+    return await response.json();
+  } catch (err) {
+    if (controller.signal.aborted) throw new Error("Query was cancelled by the user");
+    throw err;
+  } finally {
+    inFlightQueries.delete(queryId);
+  }
+}
+
+/**
+ * Stop every query a tool call is waiting on: the database statement is
+ * cancelled server-side and the tool call resolves with an error.
+ */
+export function cancelInFlightQueries(): void {
+  for (const [queryId, controller] of inFlightQueries) {
+    fetch(`/api/query/${queryId}`, { method: "DELETE" }).catch(() => {});
+    controller.abort();
+  }
+  inFlightQueries.clear();
+}
+
+/** A result cell as serialized by the server — null is SQL NULL, never a placeholder */
+const cellSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const columnTypesSchema = z
+  .array(
+    z.object({
+      name: z.string(),
+      type: z
+        .string()
+        .describe(
+          "Logical type: integer, float, decimal, money, boolean, text, date, time, timestamp, json, binary or unknown"
+        ),
+      dbType: z.string().optional().describe("Type name in the source database"),
+      precision: z.number().optional(),
+      scale: z.number().optional(),
+      timezone: z
+        .string()
+        .optional()
+        .describe('"UTC" when timestamps are instants (ISO 8601 with Z); absent for wall-clock times'),
+    })
+  )
+  .describe(
+    "Type of each column, in column order. Numbers are JSON numbers except integers and decimals too large to be exact, which stay strings; dates are YYYY-MM-DD"
+  );
+
+/** Result rows as arrays in column order; JSON values (arrays, documents) become JSON text */
+function toCells(data: { columns: string[]; rows: Record<string, unknown>[] }) {
+  return data.rows.map((row) =>
+    data.columns.map((col) => {
+      const value = row[col];
+      if (value === null || value === undefined) return null;
+      return typeof value === "object" ? JSON.stringify(value) : (value as string | number | boolean);
+    })
+  );
+}
 
 /**
  * Tambo tool: Execute a safe, read-only SQL query against a connected data source.
@@ -25,23 +115,278 @@ export const runSelectQueryTool = defineTool({
   }),
   outputSchema: z.object({
     columns: z.array(z.string()).describe("Column names in the result set"),
+    columnTypes: columnTypesSchema.optional(),
     rows: z
-      .array(z.array(z.string()))
-      .describe("Array of rows, each row is an array of cell values matching column order"),
+      .array(z.array(cellSchema))
+      .describe("Array of rows, each row is an array of cell values matching column order; null is NULL"),
     rowCount: z.number().describe("Number of rows returned"),
     executionTimeMs: z.number().describe("Query execution time in milliseconds"),
+    warnings: z
+      .array(z.string())
+      .optional()
+      .describe("Guardrail notes about the result (truncation, masking, suppressed groups) — tell the user about them"),
+    queryText: z
+      .string()
+      .optional()
+      .describe("The SQL as executed, after the guardrails' rewrites (row filters, row cap)"),
+    tables: z.array(z.string()).optional().describe("Tables the query read"),
     error: z.string().optional().describe("Error message if the query failed"),
   }),
   tool: async ({ dataSourceId, query }: { dataSourceId: string; query: string }) => {
     try {
-      const response = await fetch("/api/query", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ dataSourceId, query }),
+      const result = await postCancellableQuery("/api/query", { dataSourceId, query });
+
+      if (!result.success) {
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          executionTimeMs: 0,
+          error: result.error || "Query failed",
+        };
+      }
+
+      return {
+        columns: result.data.columns,
+        columnTypes: result.data.columnTypes,
+        rows: toCells(result.data),
+        rowCount: result.data.rowCount,
+        executionTimeMs: result.data.executionTimeMs,
+        warnings: result.data.warnings,
+        queryText: result.data.queryText,
+        tables: result.data.tables,
+      };
+    } catch (err) {
+      return {
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        executionTimeMs: 0,
+        error: err instanceof Error ? err.message : "Network error",
+      };
+    }
+  },
+});
+
+/**
+ * Tambo tool: Execute a read-only aggregation pipeline against a MongoDB data source.
+ *
+ * Sibling of run_select_query for document stores. Validation and execution
+ * happen server-side via the /api/query/aggregate endpoint.
+ */
+export const runAggregationPipelineTool = defineTool({
+  name: "run_aggregation_pipeline",
+  description:
+    "Execute a read-only MongoDB aggregation pipeline against a collection in the user's connected MongoDB data source. Use this instead of run_select_query when the data source type is mongodb. $out, $merge, $where, $function and $accumulator are not allowed. The system will validate the pipeline against authorized collections and enforce a $limit automatically.",
+  inputSchema: z.object({
+    dataSourceId: z
+      .string()
+      .describe("The UUID or identifier of the MongoDB data source to query"),
+    collection: z
+      .string()
+      .describe("The collection to run the pipeline against"),
+    pipeline: z
+      .string()
+      .describe(
+        'The aggregation pipeline as a JSON array of stages, e.g. [{"$match":{"status":"paid"}},{"$group":{"_id":"$region","total":{"$sum":"$amount"}}}]'
+      ),
+  }),
+  outputSchema: z.object({
+    columns: z.array(z.string()).describe("Top-level field names in the result documents"),
+    columnTypes: columnTypesSchema.optional(),
+    rows: z
+      .array(z.array(cellSchema))
+      .describe("Array of rows, each row is an array of cell values matching column order; null is NULL"),
+    rowCount: z.number().describe("Number of documents returned"),
+    executionTimeMs: z.number().describe("Pipeline execution time in milliseconds"),
+    warnings: z
+      .array(z.string())
+      .optional()
+      .describe("Guardrail notes about the result (truncation) — tell the user about them"),
+    error: z.string().optional().describe("Error message if the pipeline failed"),
+  }),
+  tool: async ({
+    dataSourceId,
+    collection,
+    pipeline,
+  }: {
+    dataSourceId: string;
+    collection: string;
+    pipeline: string;
+  }) => {
+    let stages: unknown;
+    try {
+      stages = JSON.parse(pipeline);
+    } catch {
+      stages = null;
+    }
+    if (!Array.isArray(stages)) {
+      return {
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        executionTimeMs: 0,
+        error: "pipeline must be a JSON array of aggregation stages",
+      };
+    }
+
+    try {
+      const result = await postCancellableQuery("/api/query/aggregate", {
+        dataSourceId,
+        collection,
+        pipeline: stages,
       });
 
+      if (!result.success) {
+        return {
+          columns: [],
+          rows: [],
+          rowCount: 0,
+          executionTimeMs: 0,
+          error: result.error || "Pipeline failed",
+        };
+      }
+
+      return {
+        columns: result.data.columns,
+        columnTypes: result.data.columnTypes,
+        rows: toCells(result.data),
+        rowCount: result.data.rowCount,
+        executionTimeMs: result.data.executionTimeMs,
+        warnings: result.data.warnings,
+      };
+    } catch (err) {
+      return {
+        columns: [],
+        rows: [],
+        rowCount: 0,
+        executionTimeMs: 0,
+        error: err instanceof Error ? err.message : "Network error",
+      };
+    }
+  },
+});
+
+const savedQueryParameterSchema = z.object({
+  name: z.string().describe("Placeholder name, written :name in the SQL"),
+  type: z.enum(SAVED_QUERY_PARAMETER_TYPES),
+  description: z.string().optional(),
+});
+
+/**
+ * Tambo tool: List the saved query library of a data source.
+ */
+export const listSavedQueriesTool = defineTool({
+  name: "list_saved_queries",
+  description:
+    "List saved queries — vetted, named SQL the user's team keeps for reuse — for a data source. Check this before writing SQL for a common question: if a saved query answers it, run it with run_saved_query instead of writing new SQL.",
+  inputSchema: z.object({
+    dataSourceId: z.string().describe("The UUID of the data source"),
+    search: z.string().optional().describe("Words to look for in names and descriptions"),
+  }),
+  outputSchema: z.object({
+    savedQueries: z.array(
+      z.object({
+        id: z.string(),
+        name: z.string(),
+        description: z.string().optional(),
+        sql: z.string().describe("SQL with :name placeholders"),
+        parameters: z.array(
+          savedQueryParameterSchema.extend({
+            required: z.boolean().describe("False when the parameter has a default"),
+          })
+        ),
+        tags: z.array(z.string()),
+      })
+    ),
+    error: z.string().optional(),
+  }),
+  tool: async ({ dataSourceId, search }: { dataSourceId: string; search?: string }) => {
+    try {
+      const params = new URLSearchParams({ dataSourceId });
+      if (search) params.set("search", search);
+      const response = await fetch(`/api/saved-queries?${params}`);
       const result = await response.json();
 
+      if (!result.success) {
+        return { savedQueries: [], error: result.error || "Failed to fetch saved queries" };
+      }
+
+      return {
+        savedQueries: result.data.map(
+          (q: SavedQuery) => ({
+            id: q.id,
+            name: q.name,
+            description: q.description ?? undefined,
+            sql: q.sql,
+            parameters: q.parameters.map((p) => ({
+              name: p.name,
+              type: p.type,
+              description: p.description,
+              required: p.default === undefined,
+            })),
+            tags: q.tags,
+          })
+        ),
+      };
+    } catch (err) {
+      return {
+        savedQueries: [],
+        error: err instanceof Error ? err.message : "Network error",
+      };
+    }
+  },
+});
+
+/**
+ * Tambo tool: Run a saved query with parameter values.
+ *
+ * The saved SQL runs unchanged through the same guardrails as
+ * run_select_query, via /api/saved-queries/[id]/run.
+ */
+export const runSavedQueryTool = defineTool({
+  name: "run_saved_query",
+  description:
+    "Run a saved query from list_saved_queries by its id, with values for its parameters. Prefer this over run_select_query whenever a saved query answers the question — its SQL has been vetted by the user. The result has the same shape as run_select_query's.",
+  inputSchema: z.object({
+    savedQueryId: z.string().describe("The id of the saved query"),
+    parameters: z
+      .array(z.object({ name: z.string(), value: z.string() }))
+      .optional()
+      .describe('Parameter values, e.g. [{"name":"region","value":"EU"}]; omit parameters that have defaults to use them'),
+  }),
+  outputSchema: z.object({
+    columns: z.array(z.string()).describe("Column names in the result set"),
+    columnTypes: columnTypesSchema.optional(),
+    rows: z
+      .array(z.array(cellSchema))
+      .describe("Array of rows, each row is an array of cell values matching column order; null is NULL"),
+    rowCount: z.number().describe("Number of rows returned"),
+    executionTimeMs: z.number().describe("Query execution time in milliseconds"),
+    warnings: z
+      .array(z.string())
+      .optional()
+      .describe("Guardrail notes about the result (truncation, masking, suppressed groups) — tell the user about them"),
+    queryText: z
+      .string()
+      .optional()
+      .describe("The SQL as executed, after the guardrails' rewrites (row filters, row cap)"),
+    tables: z.array(z.string()).optional().describe("Tables the query read"),
+    error: z.string().optional().describe("Error message if the query failed"),
+  }),
+  tool: async ({
+    savedQueryId,
+    parameters = [],
+  }: {
+    savedQueryId: string;
+    parameters?: { name: string; value: string }[];
+  }) => {
+    try {
+      const result = await postCancellableQuery(
+        `/api/saved-queries/${encodeURIComponent(savedQueryId)}/run`,
+        { params: Object.fromEntries(parameters.map((p) => [p.name, p.value])) }
+      );
+
       if (!result.success) {
         return {
           columns: [],
@@ -54,14 +399,13 @@ export const runSelectQueryTool = defineTool({
 
       return {
         columns: result.data.columns,
-        rows: (result.data.rows as Record<string, unknown>[]).map(
-          (row: Record<string, unknown>) =>
-            (result.data.columns as string[]).map((col: string) =>
-              row[col] == null ? "—" : String(row[col])
-            )
-        ),
+        columnTypes: result.data.columnTypes,
+        rows: toCells(result.data),
         rowCount: result.data.rowCount,
         executionTimeMs: result.data.executionTimeMs,
+        warnings: result.data.warnings,
+        queryText: result.data.queryText,
+        tables: result.data.tables,
       };
     } catch (err) {
       return {
@@ -75,6 +419,55 @@ export const runSelectQueryTool = defineTool({
   },
 });
 
+/**
+ * Tambo tool: Save SQL from the conversation to the saved query library.
+ */
+export const saveQueryTool = defineTool({
+  name: "save_query",
+  description:
+    "Save a SQL query to the saved query library, when the user asks to keep a query or answer for reuse. Use the SQL exactly as it ran with run_select_query; to make a value adjustable, replace it with a :name placeholder and declare the parameter. Only save when the user asks.",
+  inputSchema: z.object({
+    dataSourceId: z.string().describe("The UUID of the data source the SQL runs against"),
+    name: z.string().describe("Short, descriptive name, e.g. 'Monthly revenue by region'"),
+    description: z.string().optional().describe("What the query answers and how to read it"),
+    sql: z.string().describe("The SQL SELECT query, with :name placeholders for parameters"),
+    parameters: z
+      .array(savedQueryParameterSchema)
+      .optional()
+      .describe("One entry per :name placeholder in the SQL"),
+    tags: z.array(z.string()).optional(),
+  }),
+  outputSchema: z.object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    error: z.string().optional(),
+  }),
+  tool: async (input: {
+    dataSourceId: string;
+    name: string;
+    description?: string;
+    sql: string;
+    parameters?: Omit<SavedQueryParameter, "default">[];
+    tags?: string[];
+  }) => {
+    try {
+      const response = await fetch("/api/saved-queries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...input, threadId: queryContext.threadId }),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        return { error: result.error || "Failed to save query" };
+      }
+      return { id: result.data.id, name: result.data.name };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : "Network error" };
+    }
+  },
+});
+
 /**
  * Tambo tool: Describe table schema for a connected data source.
  *
@@ -103,6 +496,8 @@ export const describeTableTool = defineTool({
         isForeignKey: z.boolean(),
       })
     ),
+    kind: z.string().optional().describe("table, view, materialized_view or foreign_table"),
+    definition: z.string().optional().describe("Defining query, for views"),
     rowCount: z.number().optional(),
     error: z.string().optional(),
   }),
@@ -148,6 +543,8 @@ export const describeTableTool = defineTool({
             isForeignKey: c.isForeignKey,
           })
         ),
+        kind: table.kind ?? "table",
+        definition: table.definition,
         rowCount: table.rowCount,
       };
     } catch (err) {
@@ -176,6 +573,7 @@ export const listTablesTool = defineTool({
     tables: z.array(
       z.object({
         name: z.string(),
+        kind: z.string().describe("table, view, materialized_view or foreign_table"),
         rowCount: z.number().optional(),
         columnCount: z.number(),
       })
@@ -193,8 +591,9 @@ export const listTablesTool = defineTool({
 
       return {
         tables: result.data.tables.map(
-          (t: { name: string; rowCount?: number; columns: unknown[] }) => ({
+          (t: { name: string; kind?: string; rowCount?: number; columns: unknown[] }) => ({
             name: t.name,
+            kind: t.kind ?? "table",
             rowCount: t.rowCount,
             columnCount: t.columns.length,
           })
@@ -277,11 +676,27 @@ export const getAnomaliesTool = defineTool({
   },
 });
 
+/**
+ * Repeat the query of an earlier tool call, exactly as the AI made it —
+ * the chat's re-run button. Resolves to the fresh run.
+ */
+export async function rerunQuery(run: QueryRun): Promise<QueryRun> {
+  const output =
+    run.toolName === "run_saved_query"
+      ? await runSavedQueryTool.tool(run.input as Parameters<typeof runSavedQueryTool.tool>[0])
+      : await runSelectQueryTool.tool(run.input as Parameters<typeof runSelectQueryTool.tool>[0]);
+  return readQueryOutput(run.toolName, run.input, output);
+}
+
 /**
  * All Tambo tools for Tambo Lens
  */
 export const tamboLensTools = [
   runSelectQueryTool,
+  runAggregationPipelineTool,
+  listSavedQueriesTool,
+  runSavedQueryTool,
+  saveQueryTool,
   describeTableTool,
   listTablesTool,
   getAnomaliesTool,
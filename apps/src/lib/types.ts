@@ -2,7 +2,17 @@
 
 // ──── Data Source ─────────────────────────────────────────────────────────────
 
-export type DatabaseType = "postgresql" | "mysql" | "mongodb";
+/** Every data source type a connector is registered for */
+export const DATABASE_TYPES = ["postgresql", "mysql", "mongodb", "sqlite", "duckdb"] as const;
+
+export type DatabaseType = (typeof DATABASE_TYPES)[number];
+
+/** Types backed by a local database file (path stored in `database`) rather than a server */
+export const FILE_DATABASE_TYPES: readonly DatabaseType[] = ["sqlite", "duckdb"];
+
+export function isFileDatabaseType(type: DatabaseType): boolean {
+  return FILE_DATABASE_TYPES.includes(type);
+}
 
 export interface DataSource {
   id: string;
@@ -16,10 +26,22 @@ export interface DataSource {
   encryptedPassword: string;
   /** Optional SSL flag */
   ssl: boolean;
+  /** Schemas to introspect (PostgreSQL); tables outside the default schema are named "schema.table" */
+  schemas: string[];
   /** Connection status */
   status: "connected" | "disconnected" | "error";
-  /** Read-only enforcement */
+  /** Read-only enforcement — connectors run every query in a read-only transaction or handle */
   readOnly: boolean;
+  /** Set when the last connection test found the credentials can write (see Connector.checkWriteAccess) */
+  writeWarning?: string | null;
+  /** Query plan budgets checked before execution; null uses DEFAULT_COST_BUDGET */
+  costBudget?: CostBudget | null;
+  /** How long query results are cached, in seconds; null uses DEFAULT_QUERY_CACHE_TTL_SECONDS, 0 disables */
+  cacheTtlSeconds?: number | null;
+  /** Limits on all queries to the source together; null uses DEFAULT_SOURCE_QUERY_QUOTA */
+  queryQuota?: QueryQuota | null;
+  /** Limits on each user's queries to the source; null uses DEFAULT_USER_QUERY_QUOTA */
+  userQueryQuota?: QueryQuota | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -38,13 +60,142 @@ export interface CreateDataSourceInput {
   username: string;
   password: string;
   ssl?: boolean;
+  schemas?: string[];
+  /** Check whether the credentials can write and record a warning (default true) */
+  checkWriteAccess?: boolean;
+}
+
+/** Connection fields extracted from a connector-specific connection string */
+export interface ParsedConnectionString {
+  host: string;
+  port: number;
+  database: string;
+  username: string;
+  password: string;
+  ssl: boolean;
+}
+
+// ──── Connectors ─────────────────────────────────────────────────────────────
+
+/** A query in the language a connector understands */
+export type ConnectorQuery =
+  | { kind: "sql"; sql: string; params?: unknown[] }
+  | { kind: "pipeline"; collection: string; pipeline: Record<string, unknown>[] };
+
+export interface ConnectorExecuteOptions {
+  /** Hard execution timeout enforced by the database */
+  timeoutMs: number;
+  /** Caller-supplied ID that `cancel()` can use while the query is running */
+  queryId?: string;
+}
+
+export interface ConnectorExecuteResult {
+  columns: string[];
+  /** Types of `columns`, in order, when the driver reports them */
+  columnTypes?: ColumnType[];
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+/** A query's rows, read a batch at a time (see Connector.openCursor) */
+export interface ConnectorCursor {
+  /** Read up to `count` more rows — fewer means the end was reached */
+  read(count: number): Promise<ConnectorExecuteResult>;
+  /** Release the cursor and the connection it holds. Safe to call twice. */
+  close(): Promise<void>;
+}
+
+export interface ConnectorDialect {
+  /** Display name, e.g. "PostgreSQL" */
+  name: string;
+  /** Which ConnectorQuery kind the connector executes */
+  queryKind: ConnectorQuery["kind"];
+  defaultPort: number;
+  /**
+   * Schema that unqualified table names resolve to. Tables in it are named
+   * bare; tables elsewhere are named "schema.table". Falls back to the data
+   * source's database (MySQL, where schema = database).
+   */
+  defaultSchema?: string;
+  quoteIdentifier(identifier: string): string;
+  /** SQL expression for the timestamp `days` days before now (SQL dialects only) */
+  daysAgo?(days: number): string;
+}
+
+/**
+ * A database connector. Services never talk to drivers directly — they look
+ * up the connector for a DataSource's type in the registry and call these.
+ */
+export interface Connector {
+  type: DatabaseType;
+  dialect: ConnectorDialect;
+  parseConnectionString(url: string): ParsedConnectionString;
+  testConnection(dataSource: DataSource): Promise<{ success: boolean; error?: string }>;
+  /** `onProgress` is called as relations load, so callers can show partial results */
+  introspect(
+    dataSource: DataSource,
+    onProgress?: (progress: IntrospectionProgress) => void
+  ): Promise<DatabaseSchema>;
+  /**
+   * Run a validated query. Must be read-only at the database level — inside a
+   * read-only transaction that is rolled back afterwards, or on a read-only
+   * handle — so writes fail even if something slips past validation.
+   */
+  execute(
+    dataSource: DataSource,
+    query: ConnectorQuery,
+    options: ConnectorExecuteOptions
+  ): Promise<ConnectorExecuteResult>;
+  /**
+   * List what would let the configured credentials write (e.g. "INSERT on 12
+   * tables"); empty when they are read-only. Optional — file-backed connectors
+   * open read-only handles, so there is nothing to check.
+   */
+  checkWriteAccess?(dataSource: DataSource): Promise<string[]>;
+  /**
+   * Estimate a query's cost without running it (EXPLAIN). Optional —
+   * connectors without a planner estimate skip the cost gate.
+   */
+  explain?(
+    dataSource: DataSource,
+    query: ConnectorQuery,
+    options: ConnectorExecuteOptions
+  ): Promise<QueryPlanEstimate>;
+  /**
+   * Like execute, but returns a server-side cursor to read the rows in
+   * batches; the read-only transaction stays open until it is closed.
+   * Optional — services execute the query whole and page it in memory.
+   */
+  openCursor?(
+    dataSource: DataSource,
+    query: ConnectorQuery,
+    options: ConnectorExecuteOptions
+  ): Promise<ConnectorCursor>;
+  /** Cancel a running execution by queryId. Resolves false if it is not running. */
+  cancel(queryId: string): Promise<boolean>;
+  /** Release any pooled connections held for a data source */
+  close(dataSourceId: string): Promise<void>;
 }
 
 // ──── Schema Introspection ───────────────────────────────────────────────────
 
+/** Kinds of relation introspection returns — all are permissionable like tables */
+export type TableKind = "table" | "view" | "materialized_view" | "foreign_table";
+
+export const TABLE_KIND_LABELS: Record<TableKind, string> = {
+  table: "Table",
+  view: "View",
+  materialized_view: "Materialized view",
+  foreign_table: "Foreign table",
+};
+
 export interface TableSchema {
   name: string;
   schema?: string; // e.g. "public"
+  /** Relation kind; schemas cached before views were introspected omit it (= "table") */
+  kind?: TableKind;
+  /** Defining query of a view / materialized view (pipeline JSON for MongoDB views) */
+  definition?: string;
   columns: ColumnSchema[];
   rowCount?: number;
   relationships?: Relationship[];
@@ -76,14 +227,63 @@ export interface DatabaseSchema {
   fetchedAt: string;
 }
 
+/** Incremental introspection state, reported as catalog batches complete */
+export interface IntrospectionProgress {
+  /** Relations whose columns and keys are fully loaded */
+  tablesDone: number;
+  tablesTotal: number;
+  /**
+   * Relations listed or loaded by this step. The first report may list every
+   * relation without columns; later reports replace them by name.
+   */
+  tables: TableSchema[];
+}
+
+/** Lines of the NDJSON stream served by /api/data-sources/[id]/schema?stream=1 */
+export type SchemaStreamEvent =
+  | ({ type: "progress" } & IntrospectionProgress)
+  | { type: "done"; schema: DatabaseSchema }
+  | { type: "error"; error: string };
+
 // ──── Permissions ────────────────────────────────────────────────────────────
 
+/**
+ * How a masked column is protected. "reject" refuses any query that mentions
+ * it; "aggregate_only" allows it only inside COUNT / SUM / AVG; the others
+ * let queries filter, join and group on it and redact its values in results.
+ */
+export const MASKING_STRATEGIES = ["reject", "hash", "partial", "null", "aggregate_only"] as const;
+
+export type MaskingStrategy = (typeof MASKING_STRATEGIES)[number];
+
+export const MASKING_STRATEGY_LABELS: Record<MaskingStrategy, string> = {
+  reject: "Reject queries",
+  hash: "Hash values",
+  partial: "Partially redact",
+  null: "Null out",
+  aggregate_only: "Aggregates only",
+};
+
 export interface TablePermission {
   dataSourceId: string;
   tableName: string;
   allowed: boolean;
   /** Optional column-level masking */
   maskedColumns?: string[];
+  /** Strategy per masked column; masked columns without an entry are rejected */
+  maskingStrategies?: Record<string, MaskingStrategy>;
+  /**
+   * Optional row-level predicate (SQL sources), e.g. `region = 'EU'` or
+   * `tenant_id = :userTenant`. Every query sees only the matching rows.
+   * Placeholders resolve to the querying user's attributes (see
+   * resolveRowFilter).
+   */
+  rowFilter?: string;
+  /**
+   * Optional minimum group size (k): the table only answers aggregate
+   * queries, and groups standing for fewer than k rows are suppressed
+   */
+  minGroupSize?: number;
   /** Optional row limit for AI queries */
   rowLimit?: number;
 }
@@ -104,16 +304,290 @@ export interface QueryRequest {
 
 export interface QueryResult {
   columns: string[];
+  /** Logical type of each column, in order — values follow its serialization */
+  columnTypes: ColumnType[];
   rows: Record<string, unknown>[];
   rowCount: number;
   executionTimeMs: number;
   truncated: boolean;
+  /** Whether the result came from the query cache ("bypass" when the source has caching off) */
+  cache?: QueryCacheStatus;
+  /** Guardrail notes the AI should pass on — masking, truncation, suppressed groups */
+  warnings?: string[];
+  /** The SQL as sent to the source, after every rewrite (row filters, row cap) */
+  queryText?: string;
+  /** Tables the query reads, named as in the permissions */
+  tables?: string[];
+  /** Paged queries only: pass back to /api/query for the next page; absent on the last */
+  nextPageToken?: string;
+}
+
+/** Lines of the NDJSON stream served by /api/query?stream=1 */
+export type QueryStreamEvent =
+  | { type: "rows"; columns: string[]; columnTypes: ColumnType[]; rows: Record<string, unknown>[] }
+  | {
+      type: "done";
+      rowCount: number;
+      executionTimeMs: number;
+      truncated: boolean;
+      warnings?: string[];
+    }
+  | { type: "error"; error: string };
+
+export type QueryCacheStatus = "hit" | "miss" | "bypass";
+
+/**
+ * What a result column holds, whatever the source calls its type. Values are
+ * serialized the same way for every source:
+ * - integer, float, decimal, money: JSON numbers — except integers beyond
+ *   2^53 and decimals with more than 15 significant digits, which stay
+ *   strings so no digits are lost (and NaN / Infinity, as strings)
+ * - date: "YYYY-MM-DD"; time: "HH:MM:SS"
+ * - timestamp: ISO 8601 — in UTC with a "Z" when the column has a timezone,
+ *   wall-clock time without one otherwise
+ * - json: the parsed value; binary: base64; boolean, text: as is
+ * - NULL: always null
+ */
+export type LogicalType =
+  | "integer"
+  | "float"
+  | "decimal"
+  | "money"
+  | "boolean"
+  | "text"
+  | "date"
+  | "time"
+  | "timestamp"
+  | "json"
+  | "binary"
+  | "unknown";
+
+export interface ColumnType {
+  name: string;
+  type: LogicalType;
+  /** The source's own type name, e.g. "numeric(12,2)" or "timestamptz" */
+  dbType?: string;
+  /** Declared total digits and digits after the point (decimal) */
+  precision?: number;
+  scale?: number;
+  /** "UTC" for timestamps that are instants; absent for wall-clock timestamps */
+  timezone?: "UTC";
 }
 
 export interface QueryValidation {
   valid: boolean;
   errors: string[];
   warnings: string[];
+  /** Tables the query reads (lower-cased, named as in the permissions) */
+  tables?: string[];
+  /** Result columns (lower-cased names) to redact after execution, and how */
+  resultMasks?: Record<string, MaskingStrategy>;
+  /** Set when a query quota turned the query away — seconds until it may be retried */
+  retryAfterSeconds?: number;
+}
+
+/** Planner estimates for a query, summarised across its plan tree */
+export interface QueryPlanEstimate {
+  /** Planner cost of the whole query, in the database's own units */
+  totalCost: number;
+  /** Largest row estimate of any plan node — join blow-ups show up here */
+  maxRows: number;
+  /** Full scans of a relation, with the rows the planner expects to read */
+  seqScans: { table: string; rows: number }[];
+}
+
+/**
+ * Per-data-source limits on a query's plan. Exceeding any of them rejects the
+ * query (or only warns, with onExceed "warn") before it reaches the database.
+ */
+export interface CostBudget {
+  maxTotalCost: number;
+  maxRows: number;
+  /** Full scans are only flagged on relations larger than this */
+  maxSeqScanRows: number;
+  onExceed: "reject" | "warn";
+}
+
+/**
+ * Back-pressure on a data source: queries that would exceed a limit are
+ * rejected before they reach the database. A missing limit doesn't apply.
+ */
+export interface QueryQuota {
+  /** Queries started in any 60 seconds */
+  queriesPerMinute?: number;
+  /** Rows read in any hour */
+  rowsPerHour?: number;
+  /** Queries executing at once (open paged queries included) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Function and catalog rules validateQuery enforces for a SQL dialect.
+ * Names are lower-case; a trailing "*" matches any suffix ("pg_*").
+ * Denials always win over the allowlist.
+ */
+export interface SqlAccessRules {
+  /** Functions that may never be called, by bare or schema-qualified name */
+  deniedFunctions: string[];
+  /** When set, only these functions (aggregates included) may be called */
+  allowedFunctions?: string[];
+  /** Schemas whose relations may never be read (system catalogs) */
+  deniedSchemas: string[];
+  /** Relations that may never be read unqualified — they resolve to catalogs */
+  deniedTables: string[];
+}
+
+// ──── Audit Log ──────────────────────────────────────────────────────────────
+
+/** Where in the app a query came from */
+export const QUERY_FEATURES = ["chat", "anomaly_scan", "suggestion", "dashboard_refresh"] as const;
+
+export type QueryFeature = (typeof QUERY_FEATURES)[number];
+
+export const AUDIT_STATUSES = ["success", "error", "rejected", "cancelled", "throttled"] as const;
+
+/**
+ * What became of a query attempt: "rejected" by the guardrails, "throttled"
+ * by a query quota, both before reaching the source
+ */
+export type AuditStatus = (typeof AUDIT_STATUSES)[number];
+
+/** Who ran a query, and from where */
+export interface QueryAttribution {
+  userId?: string;
+  /** Tambo thread the query was run for */
+  threadId?: string;
+  feature?: QueryFeature;
+}
+
+export interface AuditLogEntry {
+  id: string;
+  dataSourceId: string | null;
+  dataSourceName: string | null;
+  userId: string | null;
+  userEmail: string | null;
+  threadId: string | null;
+  feature: QueryFeature | null;
+  /** The SQL (or pipeline) as sent to the source, after every rewrite */
+  queryText: string;
+  queryParams: unknown[] | null;
+  executionTimeMs: number | null;
+  rowCount: number | null;
+  status: AuditStatus;
+  errorMessage: string | null;
+  cacheStatus: QueryCacheStatus | null;
+  createdAt: string;
+}
+
+export interface AuditLogFilter {
+  dataSourceId?: string;
+  userId?: string;
+  status?: AuditStatus;
+  feature?: QueryFeature;
+  /** Entries at or after this time */
+  from?: Date;
+  /** Entries before this time */
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/** Audit log entries moved out of the database into a gzipped NDJSON file */
+export interface AuditArchive {
+  id: string;
+  fileName: string;
+  firstSeq: number;
+  lastSeq: number;
+  entryCount: number;
+  /** Hash the archive's first chained entry links to; null if it holds none */
+  prevHash: string | null;
+  /** Hash of its last chained entry, which the entry after the archive links to */
+  lastHash: string | null;
+  /** SHA-256 of the compressed file */
+  fileSha256: string;
+  archivedAt: string;
+}
+
+export interface AuditChainProblem {
+  /**
+   * "modified": content doesn't match the hash; "broken_link": entries before
+   * it are missing; "unhashed": written around the chain; "archive_missing" /
+   * "archive_modified": an archive file is gone or not the one written;
+   * "truncated": the chain stops short of its recorded head; "head_modified":
+   * the head record is missing or doesn't match its MAC
+   */
+  kind:
+    | "modified"
+    | "broken_link"
+    | "unhashed"
+    | "archive_missing"
+    | "archive_modified"
+    | "truncated"
+    | "head_modified";
+  seq?: number;
+  /** Archive file the problem is in */
+  archive?: string;
+  message: string;
+}
+
+export interface AuditChainReport {
+  /** True when no problem was found */
+  valid: boolean;
+  /** Chained entries whose hash and link were checked */
+  checkedEntries: number;
+  /** Entries written before the log was chained — they can't be verified */
+  unchainedEntries: number;
+  archives: number;
+  /** Whether archive files were read and checked, or only their recorded hashes */
+  archivesVerified: boolean;
+  /** Newest entry of the chain */
+  head: { seq: number; hash: string; createdAt: string } | null;
+  problems: AuditChainProblem[];
+  verifiedAt: string;
+}
+
+// ──── Saved Queries ──────────────────────────────────────────────────────────
+
+export const SAVED_QUERY_PARAMETER_TYPES = ["string", "number", "boolean", "date"] as const;
+
+export type SavedQueryParameterType = (typeof SAVED_QUERY_PARAMETER_TYPES)[number];
+
+export type SavedQueryParameterValue = string | number | boolean | null;
+
+/** A `:name` placeholder of a saved query, bound as a driver parameter when it runs */
+export interface SavedQueryParameter {
+  name: string;
+  type: SavedQueryParameterType;
+  description?: string;
+  /** Used when a run gives no value; a parameter without one is required */
+  default?: SavedQueryParameterValue;
+}
+
+/** Vetted SQL kept for reuse — by users, and by the AI via run_saved_query */
+export interface SavedQuery {
+  id: string;
+  dataSourceId: string;
+  dataSourceName: string;
+  dataSourceType: DatabaseType;
+  authorId: string | null;
+  authorEmail: string | null;
+  name: string;
+  description: string | null;
+  /** SQL with `:name` placeholders for its parameters */
+  sql: string;
+  parameters: SavedQueryParameter[];
+  tags: string[];
+  /** Chat thread the query was saved from */
+  threadId: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SavedQueryFilter {
+  dataSourceId?: string;
+  tag?: string;
+  /** Matches name and description, case-insensitively */
+  search?: string;
 }
 
 // ──── Dashboard ──────────────────────────────────────────────────────────────
@@ -151,11 +625,21 @@ export interface KPICardProps {
   icon?: string;
 }
 
+/** A table cell as the tools and DataTable carry it — null is SQL NULL */
+export type TableCellValue = string | number | boolean | null;
+
 export interface DataTableProps {
   title?: string;
   columns?: string[];
-  rows?: string[][];
+  /** Logical column types (from run_select_query) — numbers align right */
+  columnTypes?: { name: string; type: string }[];
+  rows?: TableCellValue[][];
   totalRows?: number;
+  /** The query behind the rows — lets the table load more pages on demand */
+  dataSourceId?: string;
+  query?: string;
+  /** What loading more is audited as — set by the view rendering the table */
+  queryFeature?: QueryFeature;
 }
 
 export interface BarChartProps {
@@ -276,3 +760,26 @@ export interface ReportThreadMessage {
   componentName?: string;
   componentProps?: Record<string, unknown>;
 }
+
+// ──── Query Provenance ───────────────────────────────────────────────────────
+
+/** Tool calls whose queries the chat shows under the components they fed */
+export const QUERY_RUN_TOOLS = ["run_select_query", "run_saved_query"] as const;
+
+export type QueryRunTool = (typeof QUERY_RUN_TOOLS)[number];
+
+/** One query a chat answer was computed from, read back from its tool call */
+export interface QueryRun {
+  toolName: QueryRunTool;
+  /** The tool call's input — running it again repeats the query */
+  input: Record<string, unknown>;
+  /** The SQL as executed, or as the AI wrote it when the result didn't report it */
+  sql: string | null;
+  /** Whether `sql` is the executed statement, after the guardrails' rewrites */
+  executed: boolean;
+  tables: string[];
+  rowCount: number;
+  executionTimeMs: number;
+  warnings: string[];
+  error?: string;
+}